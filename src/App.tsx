@@ -3,6 +3,39 @@
 import "./App.css";
 import { KanbanBoard } from "./components/KanbanBoard";
 import { ThemeProvider } from "./components/theme-provider";
+import { ConnectionStatus } from "./components/ConnectionStatus";
+import { LanguageSwitcher } from "./components/LanguageSwitcher";
+import { AccountMenu, AuthGate } from "./components/AuthGate";
+import { BoardSwitcher } from "./components/BoardSwitcher";
+import { useBoards } from "./hooks/useBoards";
+import { useI18n } from "./hooks/useI18n";
+
+// one signed-in user: picks the active board and mounts it
+function Workspace({ uid }: { uid: string }) {
+  const { t } = useI18n();
+  const { boards, activeBoard, selectBoard, createBoard, renameBoard, duplicateBoard, deleteBoard } = useBoards(uid);
+
+  return (
+    <>
+      <BoardSwitcher
+        boards={boards}
+        activeBoard={activeBoard}
+        onSelect={selectBoard}
+        onCreate={createBoard}
+        onRename={renameBoard}
+        onDuplicate={duplicateBoard}
+        onDelete={deleteBoard}
+      />
+      {activeBoard ? (
+        <KanbanBoard key={activeBoard.id} uid={uid} boardId={activeBoard.id} boardName={activeBoard.name} />
+      ) : (
+        <div className="flex flex-1 items-center justify-center text-slate-500" aria-live="polite">
+          {t("app.loadingBoards")}
+        </div>
+      )}
+    </>
+  );
+}
 
 function App() {
   return (
@@ -11,10 +44,19 @@ function App() {
         <div className="h-screen flex flex-col w-full">
 
           <main className="h-screen mx-4 flex flex-col gap-3 lg:gap-6">
-            <h1 className="scroll-m-20 text-4xl font-extrabold tracking-tight lg:text-5xl">
-              DnD Investments
-            </h1>
-            <KanbanBoard />
+            <header className="flex items-center justify-between gap-3">
+              <h1 className="scroll-m-20 text-4xl font-extrabold tracking-tight lg:text-5xl">
+                DnD Investments
+              </h1>
+              <div className="flex items-center gap-3">
+                <ConnectionStatus />
+                <LanguageSwitcher />
+                <AccountMenu />
+              </div>
+            </header>
+            <AuthGate>
+              {(user) => <Workspace key={user.uid} uid={user.uid} />}
+            </AuthGate>
           </main>
 
         </div>
@@ -0,0 +1,181 @@
+// File: ActivityModal.tsx
+
+import { useEffect, useState } from "react";
+import {
+  ACTIVITY_OP_LABELS,
+  filterActivity,
+  subscribeActivity,
+  type ActivityChange,
+  type ActivityEntry,
+  type ActivityFilter,
+} from "../lib/activity";
+import { formatMoney } from "../lib/money";
+import { normalizeCurrencyCode, type TreeBackend } from "../lib/storage";
+import { formatDateTime, t } from "../lib/i18n";
+import { useModalHotkeys } from "../hooks/useModalHotkeys";
+import { useI18n } from "../hooks/useI18n";
+
+type Tree = Record<string, unknown>;
+type Names = Record<string, string>;
+
+const MAX_LISTED_ENTRIES = 200;
+
+function field(value: unknown, key: string) {
+  return value && typeof value === "object" ? (value as Tree)[key] : undefined;
+}
+
+function amount(value: unknown) {
+  const content = field(value, "content");
+  return typeof content === "number" ? formatMoney(content, normalizeCurrencyCode(field(value, "currency"))) : "—";
+}
+
+// current names, plus the last known name of deleted lists and places taken from the log itself
+function collectNames(tree: Tree | null, entries: ActivityEntry[], collection: "columns" | "places", key: "title" | "name") {
+  const names: Names = {};
+  entries.forEach((entry) =>
+    entry.changes.forEach(({ path, before, after }) => {
+      const [root, id] = path.split("/");
+      const name = field(after, key) ?? field(before, key);
+      if (root === collection && typeof name === "string" && !names[id]) names[id] = name;
+    })
+  );
+  Object.entries((tree?.[collection] ?? {}) as Record<string, Tree>).forEach(([id, item]) => {
+    names[id] = String(item?.[key] ?? id);
+  });
+  return names;
+}
+
+function describeChange({ path, before, after }: ActivityChange, columns: Names) {
+  const [root, id] = path.split("/");
+  if (root === "tasks") {
+    const fromColumn = String(field(before, "columnId") ?? "");
+    const toColumn = String(field(after, "columnId") ?? "");
+    const where =
+      fromColumn && toColumn && fromColumn !== toColumn
+        ? `${columns[fromColumn] ?? fromColumn} → ${columns[toColumn] ?? toColumn}`
+        : columns[toColumn || fromColumn] ?? (toColumn || fromColumn);
+    if (!before) return t("activity.change.cardAdded", { where, amount: amount(after) });
+    if (!after) return t("activity.change.cardRemoved", { where, amount: amount(before) });
+    return `${where}: ${amount(before)} → ${amount(after)}`;
+  }
+  if (root === "columns") return t("activity.change.column", { title: String(field(after, "title") ?? field(before, "title") ?? id) });
+  if (root === "places") return t("activity.change.place", { name: String(field(after, "name") ?? field(before, "name") ?? id) });
+  if (root === "tasksOrder") return t("activity.change.cardOrder", { title: columns[id] ?? id });
+  if (root === "trash") return after ? t("activity.change.trashed") : t("activity.change.untrashed");
+  if (root === "settings") return t("activity.change.settings");
+  if (root === "currency") return t("activity.change.currency");
+  return t("activity.change.order", { path });
+}
+
+function EntryRow({ entry, columns }: { entry: ActivityEntry; columns: Names }) {
+  const label = ACTIVITY_OP_LABELS[entry.op];
+  return (
+    <div className="rounded-xl border border-slate-200 dark:border-slate-800 p-3 space-y-1">
+      <div className="flex flex-wrap items-baseline justify-between gap-2">
+        <span className="font-medium">{label ? t(label) : entry.op}</span>
+        <span className="text-xs text-slate-500">
+          {formatDateTime(entry.at)} · {entry.actor?.name ?? t("activity.unknownActor")}
+        </span>
+      </div>
+      <ul className="list-disc pl-5 text-slate-600 dark:text-slate-300">
+        {entry.changes.map((change) => (
+          <li key={change.path}>{describeChange(change, columns)}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// read-only view of the board's activity log, newest first
+export function ActivityModal({ backend, onClose }: { backend: TreeBackend; onClose: () => void }) {
+  const { t } = useI18n();
+  const [entries, setEntries] = useState<ActivityEntry[] | null>(null);
+  const [tree, setTree] = useState<Tree | null>(null);
+  const [filter, setFilter] = useState<ActivityFilter>({});
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fail = (err: unknown) => setError(err instanceof Error ? err.message : String(err));
+    Promise.all([backend.read("columns"), backend.read("places")])
+      .then(([columns, places]) => setTree({ columns, places }))
+      .catch(fail);
+    return subscribeActivity(backend, setEntries, fail);
+  }, [backend]);
+
+  useModalHotkeys({ onCancel: onClose, onConfirm: onClose });
+
+  const columns = collectNames(tree, entries ?? [], "columns", "title");
+  const places = collectNames(tree, entries ?? [], "places", "name");
+  const visible = filterActivity(entries ?? [], filter);
+
+  const select = (key: "columnId" | "placeId", names: Names, allLabel: string) => (
+    <select
+      value={filter[key] ?? ""}
+      onChange={(e) => setFilter({ ...filter, [key]: e.target.value || undefined })}
+      className="px-2 py-1 rounded border bg-white dark:bg-slate-800"
+    >
+      <option value="">{allLabel}</option>
+      {Object.entries(names).map(([id, name]) => (
+        <option key={id} value={id}>
+          {name}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-3" role="dialog" aria-modal>
+      <div className="w-full max-w-2xl rounded-2xl border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 shadow-2xl overflow-hidden">
+        <div className="px-5 py-4 border-b border-slate-200 dark:border-slate-800 space-y-2">
+          <div>
+            <h3 className="text-lg font-semibold">{t("activity.title")}</h3>
+            <p className="text-sm text-slate-500">{t("activity.subtitle")}</p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            {select("columnId", columns, t("activity.allColumns"))}
+            {select("placeId", places, t("activity.allPlaces"))}
+            <label className="flex items-center gap-1">
+              {t("activity.from")}
+              <input
+                type="date"
+                value={filter.from ?? ""}
+                onChange={(e) => setFilter({ ...filter, from: e.target.value || undefined })}
+                className="px-2 py-1 rounded border"
+              />
+            </label>
+            <label className="flex items-center gap-1">
+              {t("activity.to")}
+              <input
+                type="date"
+                value={filter.to ?? ""}
+                onChange={(e) => setFilter({ ...filter, to: e.target.value || undefined })}
+                className="px-2 py-1 rounded border"
+              />
+            </label>
+          </div>
+        </div>
+
+        <div className="p-5 space-y-3 max-h-[60vh] overflow-auto text-sm">
+          {error && <div className="text-rose-600">{error}</div>}
+          {!entries && !error && <div className="text-slate-500">{t("common.loading")}</div>}
+          {entries && visible.length === 0 && <div className="text-slate-500">{t("activity.empty")}</div>}
+
+          {visible.slice(0, MAX_LISTED_ENTRIES).map((entry) => (
+            <EntryRow key={entry.id} entry={entry} columns={columns} />
+          ))}
+          {visible.length > MAX_LISTED_ENTRIES && (
+            <div className="text-slate-500">
+              {t("activity.more", { count: visible.length - MAX_LISTED_ENTRIES })}
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-2 justify-end px-5 py-4 border-t border-slate-200 dark:border-slate-800">
+          <button onClick={onClose} className="px-3 py-2 rounded-lg bg-sky-700 text-white hover:opacity-90">
+            {t("common.close")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
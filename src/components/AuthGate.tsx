@@ -0,0 +1,148 @@
+// File: AuthGate.tsx
+
+import { useState } from "react";
+import type { User } from "firebase/auth";
+import { LogOut } from "lucide-react";
+import { Button } from "./ui/button";
+import { useAuth } from "../hooks/useAuth";
+import { authErrorMessage, signInAsGuest, signInWithEmail, signOut, signUpWithEmail } from "../lib/auth";
+import { getConnectionState } from "../lib/connection";
+import { useI18n } from "../hooks/useI18n";
+
+function SignInForm() {
+  const { t } = useI18n();
+  const [mode, setMode] = useState<"sign-in" | "sign-up">("sign-in");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function run(action: () => Promise<void>) {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(authErrorMessage(err));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(() => (mode === "sign-in" ? signInWithEmail(email, password) : signUpWithEmail(email, password)));
+  };
+
+  return (
+    <div className="flex flex-1 items-center justify-center">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-sm rounded-2xl border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 shadow-2xl p-6 space-y-3"
+      >
+        <h2 className="text-xl font-semibold">{mode === "sign-in" ? t("auth.signIn") : t("auth.signUp")}</h2>
+        <p className="text-sm text-slate-500">{t("auth.subtitle")}</p>
+
+        <div>
+          <label className="block text-sm">{t("auth.email")}</label>
+          <input
+            type="email"
+            autoComplete="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className="w-full px-3 py-2 rounded border"
+            required
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm">{t("auth.password")}</label>
+          <input
+            type="password"
+            autoComplete={mode === "sign-in" ? "current-password" : "new-password"}
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="w-full px-3 py-2 rounded border"
+            required
+          />
+        </div>
+
+        {error && <div className="text-sm text-rose-600">{error}</div>}
+
+        <Button type="submit" className="w-full" disabled={busy}>
+          {mode === "sign-in" ? t("auth.signIn") : t("auth.signUp")}
+        </Button>
+
+        <div className="flex items-center justify-between text-sm">
+          <button
+            type="button"
+            className="underline underline-offset-4 cursor-pointer"
+            onClick={() => setMode(mode === "sign-in" ? "sign-up" : "sign-in")}
+          >
+            {mode === "sign-in" ? t("auth.toSignUp") : t("auth.toSignIn")}
+          </button>
+          <button
+            type="button"
+            className="underline underline-offset-4 cursor-pointer disabled:opacity-50"
+            disabled={busy}
+            onClick={() => run(signInAsGuest)}
+          >
+            {t("auth.guestSignIn")}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+export function AccountMenu() {
+  const { t } = useI18n();
+  const { user } = useAuth();
+  if (!user) return null;
+
+  const handleSignOut = async () => {
+    const { queuedWrites } = getConnectionState();
+    const warnings = [
+      queuedWrites > 0 ? t("auth.signOutQueued", { count: queuedWrites }) : null,
+      user.isAnonymous ? t("auth.signOutGuest") : null,
+    ].filter(Boolean);
+
+    if (warnings.length > 0 && !confirm([...warnings, t("auth.signOutConfirm")].join("\n\n"))) return;
+
+    try {
+      await signOut();
+    } catch (err) {
+      alert(authErrorMessage(err));
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <span className="hidden sm:inline text-slate-500 truncate max-w-48">
+        {user.isAnonymous ? t("auth.guest") : user.email}
+      </span>
+      <Button variant="ghost" size="icon" onClick={handleSignOut} title={t("auth.signOut")} aria-label={t("auth.signOut")}>
+        <LogOut className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+}
+
+// renders its children only once Firebase Auth has a user, so nothing subscribes before the
+// users/{uid} namespace is known
+export function AuthGate({ children }: { children: (user: User) => React.ReactNode }) {
+  const { t } = useI18n();
+  const { status, user } = useAuth();
+
+  if (status === "loading") {
+    return (
+      <div className="flex flex-1 items-center justify-center text-slate-500" aria-live="polite">
+        {t("common.loading")}
+      </div>
+    );
+  }
+
+  if (!user) return <SignInForm />;
+
+  return <>{children(user)}</>;
+}
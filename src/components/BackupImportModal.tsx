@@ -0,0 +1,165 @@
+// File: BackupImportModal.tsx
+
+import { useState } from "react";
+import {
+  BackupError,
+  importConflicts,
+  importUpdates,
+  parseBackup,
+  type ConflictPolicy,
+  type ImportMode,
+  type ParsedBackup,
+} from "../lib/backup";
+import type { BoardSnapshot, StorageAdapter } from "../lib/storage";
+import { formatDateTime, type MessageKey } from "../lib/i18n";
+import { useModalHotkeys } from "../hooks/useModalHotkeys";
+import { useI18n } from "../hooks/useI18n";
+
+const MAX_LISTED_WARNINGS = 20;
+
+const POLICY_LABELS: Record<ConflictPolicy, MessageKey> = {
+  "keep-both": "backup.policy.keepBoth",
+  "keep-current": "backup.policy.keepCurrent",
+  "use-imported": "backup.policy.useImported",
+};
+
+export function BackupImportModal({
+  current,
+  persist,
+  onClose,
+}: {
+  current: () => BoardSnapshot;
+  persist: (change: (target: StorageAdapter) => Promise<unknown>) => Promise<boolean>;
+  onClose: () => void;
+}) {
+  const { t } = useI18n();
+  const [parsed, setParsed] = useState<ParsedBackup | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [mode, setMode] = useState<ImportMode>("merge");
+  const [policy, setPolicy] = useState<ConflictPolicy>("keep-both");
+  const [busy, setBusy] = useState(false);
+
+  async function readFile(file: File | undefined) {
+    setParsed(null);
+    setError(null);
+    if (!file) return;
+    try {
+      setParsed(parseBackup(await file.text()));
+    } catch (err) {
+      setError(err instanceof BackupError ? err.message : t("file.unreadable"));
+    }
+  }
+
+  async function confirmImport() {
+    if (!parsed || busy) return;
+    if (mode === "replace" && !confirm(t("backup.confirmReplace"))) {
+      return;
+    }
+    setBusy(true);
+    const updates = importUpdates(current(), parsed.snapshot, mode, policy);
+    const done = await persist((s) => s.importData(updates));
+    setBusy(false);
+    if (done) onClose();
+  }
+
+  useModalHotkeys({ onCancel: onClose, onConfirm: confirmImport });
+
+  const conflicts = parsed ? importConflicts(current(), parsed.snapshot) : null;
+  const conflictCount = conflicts ? conflicts.columns + conflicts.tasks + conflicts.places : 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-3" role="dialog" aria-modal>
+      <div className="w-full max-w-2xl rounded-2xl border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 shadow-2xl overflow-hidden">
+        <div className="px-5 py-4 border-b border-slate-200 dark:border-slate-800">
+          <h3 className="text-lg font-semibold">{t("backup.title")}</h3>
+          <p className="text-sm text-slate-500">{t("backup.subtitle")}</p>
+        </div>
+
+        <div className="p-5 space-y-4 max-h-[60vh] overflow-auto text-sm">
+          <input type="file" accept="application/json,.json" onChange={(e) => readFile(e.target.files?.[0])} />
+
+          {error && <div className="text-rose-600">{error}</div>}
+
+          {parsed && (
+            <>
+              <div>
+                {t(parsed.exportedAt ? "backup.summaryDated" : "backup.summary", {
+                  source: parsed.boardName ? t("backup.board", { name: parsed.boardName }) : t("backup.unnamed"),
+                  date: formatDateTime(parsed.exportedAt),
+                  columns: t("count.columns", { count: parsed.snapshot.columns.length }),
+                  cards: t("count.cards", { count: parsed.snapshot.tasks.length }),
+                  places: t("count.places", { count: parsed.snapshot.places.length }),
+                })}
+              </div>
+
+              {parsed.warnings.length > 0 && (
+                <div className="rounded-xl border border-amber-300 bg-amber-50 dark:bg-amber-950 p-3 space-y-1">
+                  <div className="font-medium">{t("backup.warnings")}</div>
+                  <ul className="list-disc pl-5">
+                    {parsed.warnings.slice(0, MAX_LISTED_WARNINGS).map((warning, i) => (
+                      <li key={i}>{warning}</li>
+                    ))}
+                  </ul>
+                  {parsed.warnings.length > MAX_LISTED_WARNINGS && (
+                    <div>{t("backup.moreWarnings", { count: parsed.warnings.length - MAX_LISTED_WARNINGS })}</div>
+                  )}
+                </div>
+              )}
+
+              <fieldset className="space-y-1">
+                <label className="flex items-center gap-2">
+                  <input type="radio" checked={mode === "merge"} onChange={() => setMode("merge")} />
+                  {t("backup.merge")}
+                </label>
+                <label className="flex items-center gap-2">
+                  <input type="radio" checked={mode === "replace"} onChange={() => setMode("replace")} />
+                  {t("backup.replace")}
+                </label>
+              </fieldset>
+
+              {mode === "merge" && conflicts && conflictCount > 0 && (
+                <div className="space-y-1">
+                  <div>
+                    {t("backup.conflicts", {
+                      count: conflictCount,
+                      columns: t("count.columns", { count: conflicts.columns }),
+                      cards: t("count.cards", { count: conflicts.tasks }),
+                      places: t("count.places", { count: conflicts.places }),
+                    })}
+                  </div>
+                  <select
+                    value={policy}
+                    onChange={(e) => setPolicy(e.target.value as ConflictPolicy)}
+                    className="px-2 py-1 rounded border bg-white dark:bg-slate-800"
+                  >
+                    {(Object.keys(POLICY_LABELS) as ConflictPolicy[]).map((p) => (
+                      <option key={p} value={p}>
+                        {t(POLICY_LABELS[p])}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="flex gap-2 justify-end px-5 py-4 border-t border-slate-200 dark:border-slate-800">
+          <button
+            onClick={onClose}
+            className="px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800"
+          >
+            {t("common.cancel")}
+          </button>
+          <button
+            onClick={confirmImport}
+            disabled={!parsed || busy}
+            className="px-3 py-2 rounded-lg bg-sky-700 text-white hover:opacity-90 disabled:opacity-50"
+          >
+            {t("common.import")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -8,15 +8,44 @@ import { Task, TaskCard } from "./TaskCard";
 import { cva } from "class-variance-authority";
 import { Card, CardContent, CardHeader } from "./ui/card";
 import { Button } from "./ui/button";
-import { ArrowLeftRight, Plus, SquareCheck, X, CalendarCheck, Edit, Trash, Goal } from "lucide-react";
+import { ArrowLeftRight, Plus, SquareCheck, X, CalendarCheck, Edit, Trash, Goal, Repeat } from "lucide-react";
 import { ScrollArea, ScrollBar } from "./ui/scroll-area";
+import { MoneyInput } from "./MoneyInput";
 import { useModalHotkeys } from "../hooks/useModalHotkeys";
+import { useI18n } from "../hooks/useI18n";
+import {
+  DEFAULT_CURRENCY_SETTINGS,
+  DEFAULT_SORT_MODE,
+  TASK_KINDS,
+  type CardDetails,
+  type CurrencySettings,
+  type Tag,
+  type TaskKind,
+  type TaskSortMode,
+} from "../lib/storage";
+import { SORT_MODE_LABELS } from "../lib/sorting";
+import { isProjection, kindSign, signedAmount, TASK_KIND_LABELS, taskKind } from "../lib/taskKinds";
+import { findTagByName, suggestTags, tagsOf } from "../lib/tags";
+import { taskMatchesFilter, type CardFilter, type FilterMode } from "../lib/cardFilter";
+import { cardCurrency, columnCurrency, COMMON_CURRENCIES, convertMoney, sumConverted } from "../lib/currency";
+import {
+  allocateMoney,
+  ceilInstallment,
+  formatMoney,
+  moneyToInput,
+  parseMoneyInput,
+  subtractMoney,
+  sumMoney,
+  type Money,
+} from "../lib/money";
 
 export interface Column {
   id: UniqueIdentifier;
   title: string;
-  meta?: number | null | undefined;
+  meta?: Money | null | undefined;
   placeId?: string | null;
+  sortMode?: TaskSortMode;
+  currency?: string;
 }
 
 export type ColumnType = "Column";
@@ -32,21 +61,32 @@ interface BoardColumnProps {
   isOverlay?: boolean;
   allColumns?: Column[];
   allPlaces?: { id: string; name: string; color: string; }[];
+  currencySettings?: CurrencySettings;
   hoveredPlaceId?: string | null;
   selectedPlaceIds?: string[];
-  onAddTask?: (amount: number, dateISO?: string | null, isProjection?: boolean) => void;
+  allTags?: Tag[];
+  // the board's search and filter; while set, the totals only count the matching cards
+  filter?: CardFilter;
+  filterMode?: FilterMode;
+  onCreateTag?: (name: string) => Promise<string | null>;
+  onAddTask?: (amount: Money, dateISO?: string | null, kind?: TaskKind, details?: CardDetails) => void;
+  onAddProjections?: (projections: { amount: Money; dateISO: string }[]) => void;
   onRemoveTask?: (taskId: string) => void;
   onRemoveColumn?: () => void;
   onTransferTask?: (
     taskId: UniqueIdentifier,
-    amount: number,
+    amount: Money,
     targetColumnId: UniqueIdentifier,
-    dateISO?: string | null
+    dateISO?: string | null,
+    expectedContent?: Money
   ) => void;
   onToggleProjection?: (taskId: UniqueIdentifier) => void;
-  onEditTask?: (taskId: UniqueIdentifier, amount: number, dateISO?: string | null, isProjection?: boolean) => void;
-  onSetMeta?: (value: number | null | undefined) => void;
+  onEditTask?: (taskId: UniqueIdentifier, amount: Money, dateISO?: string | null, kind?: TaskKind, details?: CardDetails) => void;
+  onSetMeta?: (value: Money | null | undefined) => void;
   onSetPlace?: (placeId?: string | null) => void;
+  onSetSortMode?: (mode: TaskSortMode) => void;
+  onSetCurrency?: (currency: string) => void;
+  onOpenSchedules?: () => void;
 }
 
 function Modal({ children }: { children: React.ReactNode; onClose: () => void }) {
@@ -72,80 +112,228 @@ function toLocalDateTimeInputValue(d = new Date()) {
   return local.toISOString().slice(0, 19);
 }
 
-function parseCurrencyInput(input: string): number {
-  const s = String(input).trim();
-  if (s.length === 0) throw new Error("Entrada vazia");
+// one button per kind, in the dark strip the old balance/projection switch used
+function KindPicker({ value, onChange }: { value: TaskKind; onChange: (kind: TaskKind) => void }) {
+  const { t } = useI18n();
+  return (
+    <div>
+      <span className="text-sm">{t("card.type")}</span>
+      <div role="radiogroup" aria-label={t("card.type")} className="flex flex-wrap gap-1 bg-neutral-700 rounded-sm border p-1 text-white">
+        {TASK_KINDS.map((kind) => (
+          <button
+            key={kind}
+            type="button"
+            role="radio"
+            aria-checked={kind === value}
+            onClick={() => onChange(kind)}
+            className={`flex-1 px-2 py-1.5 rounded-sm text-sm transition-colors cursor-pointer ${kind === value ? "bg-blue-500" : "hover:bg-neutral-600"}`}
+          >
+            {t(TASK_KIND_LABELS[kind])}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
 
-  const hasComma = s.indexOf(",") !== -1;
-  const hasDot = s.indexOf(".") !== -1;
+type CardTextInput = { description: string; notes: string };
 
-  let normalized = s;
+// description and notes, shared by the add and edit forms
+function CardTextFields({ value, onChange }: { value: CardTextInput; onChange: (value: CardTextInput) => void }) {
+  const { t } = useI18n();
+  return (
+    <>
+      <div>
+        <label className="block text-sm">{t("card.description")}</label>
+        <input
+          value={value.description}
+          onChange={(e) => onChange({ ...value, description: e.target.value })}
+          placeholder={t("card.descriptionPlaceholder")}
+          className="w-full px-3 py-2 rounded border"
+        />
+      </div>
 
-  if (hasComma && hasDot) {
-    // Ambiguous: decide decimal separator by which appears last
-    if (s.lastIndexOf(",") > s.lastIndexOf(".")) {
-      // comma is decimal separator: remove dots (thousands), replace comma -> dot
-      normalized = s.replace(/\./g, "").replace(/,/g, ".");
-    } else {
-      // dot is decimal separator: remove commas (thousands)
-      normalized = s.replace(/,/g, "");
+      <div>
+        <label className="block text-sm">{t("card.notes")}</label>
+        <textarea
+          value={value.notes}
+          onChange={(e) => onChange({ ...value, notes: e.target.value })}
+          rows={3}
+          className="w-full px-3 py-2 rounded border resize-y"
+        />
+      </div>
+    </>
+  );
+}
+
+// the card's tags as chips, then a field that suggests the board's tags and can create a new one;
+// Enter there picks a tag instead of saving the card
+function TagPicker({
+  tags,
+  value,
+  onChange,
+  onCreate,
+}: {
+  tags: Tag[];
+  value: string[];
+  onChange: (tagIds: string[]) => void;
+  onCreate?: (name: string) => Promise<string | null>;
+}) {
+  const { t } = useI18n();
+  const [query, setQuery] = useState("");
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const picked = tagsOf({ tagIds: value }, tags);
+  const suggestions = suggestTags(tags, query, value);
+  const canCreate = !!onCreate && query.trim() !== "" && !findTagByName(tags, query);
+  const optionCount = suggestions.length + (canCreate ? 1 : 0);
+  const showList = open && optionCount > 0;
+
+  async function choose(index: number) {
+    const tag = suggestions[index];
+    setQuery("");
+    setHighlighted(0);
+    if (tag) {
+      onChange([...value, tag.id]);
+    } else if (canCreate && onCreate) {
+      const id = await onCreate(query.trim());
+      if (id) onChange([...value, id]);
     }
-  } else if (hasComma) {
-    // only comma -> decimal separator
-    normalized = s.replace(/,/g, ".");
-  } else {
-    normalized = s;
   }
 
-  if (!/^\d+(?:\.\d+)?$/.test(normalized)) {
-    throw new Error("Formato numérico inválido");
+  function handleKeyDown(e: React.KeyboardEvent<HTMLInputElement>) {
+    if (e.key === "Enter" && query.trim()) {
+      e.preventDefault();
+      e.stopPropagation();
+      choose(highlighted);
+    } else if (e.key === "Escape" && showList) {
+      e.stopPropagation();
+      setOpen(false);
+    } else if (e.key === "ArrowDown" && optionCount > 0) {
+      e.preventDefault();
+      setOpen(true);
+      setHighlighted((highlighted + 1) % optionCount);
+    } else if (e.key === "ArrowUp" && optionCount > 0) {
+      e.preventDefault();
+      setHighlighted((highlighted - 1 + optionCount) % optionCount);
+    } else if (e.key === "Backspace" && !query && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
   }
 
-  const parts = normalized.split(".");
-  if (parts.length > 2) throw new Error("Formato numérico inválido");
-
-  const integerPart = parts[0];
-  const decimalPart = parts[1] ?? "";
-
-  if (decimalPart.length > 2) {
-    throw new Error("Apenas até 2 casas decimais");
-  }
+  const optionStyle = (index: number) =>
+    `flex items-center gap-2 px-3 py-1.5 cursor-pointer ${index === highlighted ? "bg-slate-100 dark:bg-slate-700" : ""}`;
 
-  // build a string with exactly two decimals
-  let finalStr: string;
-  if (decimalPart.length === 0) {
-    finalStr = `${integerPart}.00`;
-  } else if (decimalPart.length === 1) {
-    finalStr = `${integerPart}.${decimalPart}0`;
-  } else {
-    finalStr = `${integerPart}.${decimalPart}`;
-  }
+  return (
+    <div>
+      <label className="block text-sm">{t("tag.label")}</label>
+      <div className="relative">
+        <div className="flex flex-wrap items-center gap-1 w-full px-2 py-1.5 rounded border">
+          {picked.map((tag) => (
+            <span
+              key={tag.id}
+              className="flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium border"
+              style={{ color: tag.color, borderColor: tag.color, background: `${tag.color}18` }}
+            >
+              {tag.name}
+              <button
+                type="button"
+                onClick={() => onChange(value.filter((id) => id !== tag.id))}
+                aria-label={t("tag.removeFromCard", { name: tag.name })}
+                className="cursor-pointer"
+              >
+                <X size={12} />
+              </button>
+            </span>
+          ))}
+          <input
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setOpen(true);
+              setHighlighted(0);
+            }}
+            onFocus={() => setOpen(true)}
+            onBlur={() => setOpen(false)}
+            onKeyDown={handleKeyDown}
+            placeholder={picked.length === 0 ? t("tag.pickerPlaceholder") : ""}
+            role="combobox"
+            aria-expanded={showList}
+            aria-autocomplete="list"
+            aria-label={t("tag.label")}
+            className="flex-1 min-w-[8rem] bg-transparent outline-none py-0.5"
+          />
+        </div>
 
-  // Convert to number safely and round to 2 decimals
-  const n = Math.round(Number(finalStr) * 100) / 100;
-  if (Number.isNaN(n)) throw new Error("Número inválido");
-  return n;
+        {showList && (
+          <ul role="listbox" className="absolute z-10 left-0 right-0 mt-1 max-h-48 overflow-auto rounded border bg-white dark:bg-slate-800 shadow-lg text-sm">
+            {suggestions.map((tag, i) => (
+              <li
+                key={tag.id}
+                role="option"
+                aria-selected={i === highlighted}
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  choose(i);
+                }}
+                onMouseEnter={() => setHighlighted(i)}
+                className={optionStyle(i)}
+              >
+                <span className="inline-block w-2.5 h-2.5 rounded-full shrink-0" style={{ background: tag.color }} />
+                {tag.name}
+              </li>
+            ))}
+            {canCreate && (
+              <li
+                role="option"
+                aria-selected={highlighted === suggestions.length}
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  choose(suggestions.length);
+                }}
+                onMouseEnter={() => setHighlighted(suggestions.length)}
+                className={optionStyle(suggestions.length)}
+              >
+                <Plus size={12} />
+                {t("tag.create", { name: query.trim() })}
+              </li>
+            )}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
 }
 
 function AddCardForm({
+  currency,
+  tags,
+  onCreateTag,
   onCancel,
   onAdd
 }: {
-  onCancel: () => void; onAdd: (amount: number, dateISO?: string | null, isProjection?: boolean) => void
+  currency: string;
+  tags: Tag[];
+  onCreateTag?: (name: string) => Promise<string | null>;
+  onCancel: () => void;
+  onAdd: (amount: Money, dateISO?: string | null, kind?: TaskKind, details?: CardDetails) => void;
 }) {
-
+  const { t } = useI18n();
   const [amountText, setAmountText] = useState("");
   const [dateTimeLocal, setDateTimeLocal] = useState<string>(toLocalDateTimeInputValue());
-  const [isProjection, setIsProjection] = useState(false);
+  const [kind, setKind] = useState<TaskKind>("deposit");
+  const [text, setText] = useState<CardTextInput>({ description: "", notes: "" });
+  const [tagIds, setTagIds] = useState<string[]>([]);
   const amountInputRef = useRef<HTMLInputElement>(null);
 
   const handleAdd = () => {
     try {
-      const amt = parseCurrencyInput(amountText);
+      const amt = parseMoneyInput(amountText);
       const dateISO = dateTimeLocal ? new Date(dateTimeLocal).toISOString() : undefined;
-      onAdd(amt, dateISO ?? undefined, isProjection ?? false);
+      onAdd(amt, dateISO ?? undefined, kind, { ...text, tagIds });
     } catch (err: any) {
-      alert(err?.message ?? "Valor inválido");
+      alert(err?.message ?? t("card.invalidAmount"));
     }
   };
 
@@ -160,21 +348,21 @@ function AddCardForm({
 
   return (
     <div>
-      <h3 className="text-xl font-semibold mb-3">Adicionar cartão</h3>
+      <h3 className="text-xl font-semibold mb-3">{t("card.addTitle")}</h3>
       <div className="space-y-3">
         <div>
-          <label className="block text-sm">Valor</label>
-          <input
+          <label className="block text-sm">{t("card.amount")}</label>
+          <MoneyInput
             ref={amountInputRef}
             value={amountText}
-            onChange={(e) => setAmountText(e.target.value)}
-            placeholder="Ex: 500 ou 500,00 ou 1.234,56"
-            className="w-full px-3 py-2 rounded border"
+            onChange={setAmountText}
+            currency={currency}
+            placeholder={t("card.amountPlaceholder")}
           />
         </div>
 
         <div>
-          <label className="block text-sm">Data e hora</label>
+          <label className="block text-sm">{t("card.dateTime")}</label>
           <input
             type="datetime-local"
             step={1}
@@ -184,36 +372,18 @@ function AddCardForm({
           />
         </div>
 
-        <div>
-          <span className="text-sm">Tipo</span>
-          <div className="flex items-center gap-3 bg-neutral-700 h-11 rounded-sm border p-4 text-white">
-            <div className="flex items-center gap-2 justify-around w-full">
-              <span className="w-16">Saldo</span>
-              <label className="inline-flex items-center justify-center cursor-pointer w-16">
-                <input
-                  type="checkbox"
-                  className="sr-only"
-                  checked={isProjection}
-                  onChange={(e) => setIsProjection(e.target.checked)}
-                  aria-label="Adicionar como projeção"
-                />
-                <div className={`w-11 h-6 rounded-full transition-colors ${isProjection ? 'bg-blue-500' : 'bg-gray-500'}`}>
-                  <div
-                    className={`transform transition-transform rounded-full bg-white w-5 h-5 m-0.5 ${isProjection ? 'translate-x-5' : 'translate-x-0'}`}
-                  />
-                </div>
-              </label>
-              <span className="w-16">Projeção</span>
-            </div>
-          </div>
-        </div>
+        <KindPicker value={kind} onChange={setKind} />
+
+        <CardTextFields value={text} onChange={setText} />
+
+        <TagPicker tags={tags} value={tagIds} onChange={setTagIds} onCreate={onCreateTag} />
 
         <div className="flex gap-2 justify-end">
           <button onClick={onCancel} className="px-3 py-2 rounded border cursor-pointer hover:ring ring-slate-800 transition-all duration-300">
-            Cancelar
+            {t("common.cancel")}
           </button>
           <button onClick={handleAdd} className="px-3 py-2 rounded bg-green-600 text-white hover:ring ring-green-600 transition-all duration-300 cursor-pointer">
-            Adicionar
+            {t("card.add")}
           </button>
         </div>
       </div>
@@ -222,35 +392,49 @@ function AddCardForm({
 }
 
 function EditCardForm({
+  currency,
   initialAmount,
   initialDateISO,
-  initialIsProjection,
+  initialKind,
+  initialDetails,
+  tags,
+  onCreateTag,
   onCancel,
   onSave,
 }: {
-  initialAmount: number;
+  currency: string;
+  initialAmount: Money;
   initialDateISO?: string | null;
-  initialIsProjection?: boolean;
+  initialKind: TaskKind;
+  initialDetails: CardDetails;
+  tags: Tag[];
+  onCreateTag?: (name: string) => Promise<string | null>;
   onCancel: () => void;
-  onSave: (amount: number, dateISO?: string | null, isProjection?: boolean) => void;
+  onSave: (amount: Money, dateISO?: string | null, kind?: TaskKind, details?: CardDetails) => void;
 }) {
+  const { t } = useI18n();
   const [amountText, setAmountText] = useState<string>(() => {
-    // Use dot as decimal separator which parseCurrencyInput accepts; show 2 decimals
-    return initialAmount.toFixed(2);
+    // Use dot as decimal separator which parseMoneyInput accepts; show 2 decimals
+    return moneyToInput(initialAmount);
   });
   const [dateTimeLocal, setDateTimeLocal] = useState<string>(() => {
     return initialDateISO ? toLocalDateTimeInputValue(new Date(initialDateISO)) : toLocalDateTimeInputValue();
   });
-  const [isProjection, setIsProjection] = useState<boolean>(!!initialIsProjection);
+  const [kind, setKind] = useState<TaskKind>(initialKind);
+  const [text, setText] = useState<CardTextInput>({
+    description: initialDetails.description ?? "",
+    notes: initialDetails.notes ?? "",
+  });
+  const [tagIds, setTagIds] = useState<string[]>(initialDetails.tagIds ?? []);
   const amountInputRef = useRef<HTMLInputElement>(null);
 
   const handleSave = () => {
     try {
-      const amt = parseCurrencyInput(amountText);
+      const amt = parseMoneyInput(amountText);
       const dateISO = dateTimeLocal ? new Date(dateTimeLocal).toISOString() : undefined;
-      onSave(amt, dateISO ?? undefined, isProjection ?? false);
+      onSave(amt, dateISO ?? undefined, kind, { ...text, tagIds });
     } catch (err: any) {
-      alert(err?.message ?? "Valor inválido");
+      alert(err?.message ?? t("card.invalidAmount"));
     }
   };
 
@@ -265,21 +449,21 @@ function EditCardForm({
 
   return (
     <div>
-      <h3 className="text-xl font-semibold mb-3">Editar cartão</h3>
+      <h3 className="text-xl font-semibold mb-3">{t("card.editTitle")}</h3>
       <div className="space-y-3">
         <div>
-          <label className="block text-sm">Valor</label>
-          <input
+          <label className="block text-sm">{t("card.amount")}</label>
+          <MoneyInput
             ref={amountInputRef}
             value={amountText}
-            onChange={(e) => setAmountText(e.target.value)}
-            placeholder="Ex: 500 ou 500,00 ou 1.234,56"
-            className="w-full px-3 py-2 rounded border"
+            onChange={setAmountText}
+            currency={currency}
+            placeholder={t("card.amountPlaceholder")}
           />
         </div>
 
         <div>
-          <label className="block text-sm">Data e hora</label>
+          <label className="block text-sm">{t("card.dateTime")}</label>
           <input
             type="datetime-local"
             step={1}
@@ -301,7 +485,7 @@ function EditCardForm({
             }}
             className="px-3 py-2 rounded border hover:ring ring-slate-800 transition-all duration-300 cursor-pointer text-sm"
           >
-            Usar data original
+            {t("card.useOriginalDate")}
           </button>
 
           <button
@@ -309,40 +493,22 @@ function EditCardForm({
             onClick={() => setDateTimeLocal(toLocalDateTimeInputValue())}
             className="px-3 py-2 rounded border hover:ring ring-slate-800 transition-all duration-300 cursor-pointer text-sm"
           >
-            Usar data atual
+            {t("card.useCurrentDate")}
           </button>
         </div>
 
-        <div>
-          <span className="text-sm">Tipo</span>
-          <div className="flex items-center gap-3 bg-neutral-700 h-11 rounded-sm border p-4 text-white">
-            <div className="flex items-center gap-2 justify-around w-full">
-              <span className="w-16">Saldo</span>
-              <label className="inline-flex items-center justify-center cursor-pointer w-16">
-                <input
-                  type="checkbox"
-                  className="sr-only"
-                  checked={isProjection}
-                  onChange={(e) => setIsProjection(e.target.checked)}
-                  aria-label="Marcar como projeção"
-                />
-                <div className={`w-11 h-6 rounded-full transition-colors ${isProjection ? 'bg-blue-500' : 'bg-gray-500'}`}>
-                  <div
-                    className={`transform transition-transform rounded-full bg-white w-5 h-5 m-0.5 ${isProjection ? 'translate-x-5' : 'translate-x-0'}`}
-                  />
-                </div>
-              </label>
-              <span className="w-16">Projeção</span>
-            </div>
-          </div>
-        </div>
+        <KindPicker value={kind} onChange={setKind} />
+
+        <CardTextFields value={text} onChange={setText} />
+
+        <TagPicker tags={tags} value={tagIds} onChange={setTagIds} onCreate={onCreateTag} />
 
         <div className="flex gap-2 justify-end">
           <button onClick={onCancel} className="px-3 py-2 rounded border hover:ring ring-slate-800 transition-all duration-300 cursor-pointer">
-            Cancelar
+            {t("common.cancel")}
           </button>
           <button onClick={handleSave} className="px-3 py-2 rounded bg-amber-600 text-white hover:ring ring-amber-600 transition-all duration-300 cursor-pointer">
-            Salvar
+            {t("common.save")}
           </button>
         </div>
       </div>
@@ -352,14 +518,17 @@ function EditCardForm({
 
 function MetaModal({
   initialMeta,
+  currency,
   onCancel,
   onSave,
 }: {
-  initialMeta?: number | undefined | null;
+  initialMeta?: Money | undefined | null;
+  currency: string;
   onCancel: () => void;
-  onSave: (value: number | null) => void;
+  onSave: (value: Money | null) => void;
 }) {
-  const [valueText, setValueText] = useState(() => (initialMeta !== undefined && initialMeta !== null ? initialMeta.toFixed(2) : ""));
+  const { t } = useI18n();
+  const [valueText, setValueText] = useState(() => (initialMeta !== undefined && initialMeta !== null ? moneyToInput(initialMeta) : ""));
   const inputRef = useRef<HTMLInputElement>(null);
 
   const handleSave = () => {
@@ -368,10 +537,10 @@ function MetaModal({
         onSave(null);
         return;
       }
-      const v = parseCurrencyInput(valueText);
+      const v = parseMoneyInput(valueText);
       onSave(v);
     } catch (e: any) {
-      alert(e?.message ?? "Valor inválido");
+      alert(e?.message ?? t("card.invalidAmount"));
     }
   };
 
@@ -387,26 +556,26 @@ function MetaModal({
   return (
     <Modal onClose={onCancel}>
       <div>
-        <h3 className="text-xl font-semibold mb-3">{initialMeta ? "Editar meta" : "Definir meta"}</h3>
+        <h3 className="text-xl font-semibold mb-3">{initialMeta ? t("goal.edit") : t("goal.set")}</h3>
         <div className="space-y-3">
           <div>
-            <label className="block text-sm">Valor da meta</label>
-            <input
+            <label className="block text-sm">{t("goal.amount")}</label>
+            <MoneyInput
               ref={inputRef}
               value={valueText}
-              onChange={(e) => setValueText(e.target.value)}
-              placeholder="Ex: 600 ou 600,00 ou 1.000,00"
-              className="w-full px-3 py-2 rounded border"
+              onChange={setValueText}
+              currency={currency}
+              placeholder={t("goal.placeholder")}
             />
-            <div className="text-sm text-gray-500 mt-1">Deixe vazio para remover a meta.</div>
+            <div className="text-sm text-gray-500 mt-1">{t("goal.clearHint")}</div>
           </div>
 
           <div className="flex gap-2 justify-end">
             <button onClick={onCancel} className="px-3 py-2 rounded border hover:ring ring-slate-800 transition-all duration-300 cursor-pointer">
-              Cancelar
+              {t("common.cancel")}
             </button>
             <button onClick={handleSave} className="px-3 py-2 rounded bg-orange-600 text-white hover:ring ring-orange-600 transition-all duration-300 cursor-pointer">
-              Salvar
+              {t("common.save")}
             </button>
           </div>
         </div>
@@ -424,6 +593,7 @@ function DeleteModal({
   onConfirm: () => void;
   onCancel: () => void;
 }) {
+  const { t } = useI18n();
 
   useModalHotkeys({
     onCancel,
@@ -433,17 +603,17 @@ function DeleteModal({
   return (
     <Modal onClose={onCancel}>
       <div>
-        <h3 className="text-xl font-semibold mb-3">Confirmar exclusão</h3>
+        <h3 className="text-xl font-semibold mb-3">{t("delete.title")}</h3>
         <p>{message}</p>
         <div className="flex gap-2 justify-end mt-4">
           <button onClick={onCancel} className="px-3 py-2 rounded border hover:ring ring-slate-800 transition-all duration-300 cursor-pointer">
-            Cancelar
+            {t("common.cancel")}
           </button>
           <button
             onClick={onConfirm}
             className="px-3 py-2 rounded bg-rose-600 text-white hover:ring ring-rose-600 transition-all duration-300 cursor-pointer"
           >
-            Confirmar
+            {t("delete.confirm")}
           </button>
         </div>
       </div>
@@ -455,15 +625,17 @@ function ProjectionModal({
   onClose,
   onCreate,
   currentBalance = 0,
+  currency,
 }: {
-  onClose: () => void; currentBalance?: number; onCreate: (
-    value: number,
+  onClose: () => void; currentBalance?: Money; currency: string; onCreate: (
+    value: Money,
     startMonthISO: string | null,
     endMonthISO: string,
     dayNumber: number,
     useExistingBalance: boolean
   ) => void;
 }) {
+  const { t } = useI18n();
   const [valueText, setValueText] = useState("");
   const [useCustomStart, setUseCustomStart] = useState(false);
   const now = new Date();
@@ -487,8 +659,8 @@ function ProjectionModal({
     return `${y}-${mm}`;
   }
 
-  function computePreview(value: number, startISO: string | null, endISO: string) {
-    // returns array of amounts (with cents) where first N-1 are equal and last may differ
+  function computePreview(value: Money, startISO: string | null, endISO: string) {
+    // returns array of amounts where first N-1 are equal and last may differ
     try {
       const startParts = (startISO ?? `${defaultYear}-${String(defaultMonthNum).padStart(2, "0")}`).split("-");
       const endParts = endISO.split("-");
@@ -499,19 +671,7 @@ function ProjectionModal({
 
       const monthsCount = (endY - startY) * 12 + (endM - startM) + 1; // inclusive
       if (!monthsCount || monthsCount <= 0) return null;
-      // base in cents to avoid floating errors
-      const totalCents = Math.round(value * 100);
-      const baseCents = Math.floor(totalCents / monthsCount);
-      const amounts: number[] = [];
-      for (let i = 0; i < monthsCount; i++) {
-        if (i < monthsCount - 1) {
-          amounts.push(baseCents / 100);
-        } else {
-          const lastCents = totalCents - baseCents * (monthsCount - 1);
-          amounts.push(lastCents / 100);
-        }
-      }
-      return amounts;
+      return allocateMoney(value, monthsCount);
     } catch (e) {
       return null;
     }
@@ -519,10 +679,10 @@ function ProjectionModal({
 
   const effectiveValue = useMemo(() => {
     try {
-      const total = parseCurrencyInput(valueText);
+      const total = parseMoneyInput(valueText);
 
       return useExistingBalance
-        ? total - currentBalance
+        ? subtractMoney(total, currentBalance)
         : total;
     } catch {
       return null;
@@ -560,11 +720,11 @@ function ProjectionModal({
 
   const handleCreate = () => {
     try {
-      const v = parseCurrencyInput(valueText);
-      const adjustedValue = useExistingBalance ? (v - currentBalance) : v;
+      const v = parseMoneyInput(valueText);
+      const adjustedValue = useExistingBalance ? subtractMoney(v, currentBalance) : v;
 
       if (useExistingBalance && adjustedValue < 0) {
-        alert("O saldo atual já ultrapassa o valor total informado.");
+        alert(t("projection.balanceExceeds"));
         return;
       }
 
@@ -573,18 +733,16 @@ function ProjectionModal({
       const day = Math.max(1, Math.min(31, Number(dayNum) || 1));
 
       if (!endISO) {
-        alert("Escolha a data limite corretamente");
+        alert(t("projection.endRequired"));
         return;
       }
 
       onCreate(v, startISO ?? null, endISO, day, useExistingBalance);
     } catch (err: any) {
-      alert(err?.message ?? "Valor inválido");
+      alert(err?.message ?? t("card.invalidAmount"));
     }
   };
 
-  const formatter = new Intl.NumberFormat("pt-BR", { style: "currency", currency: "BRL", minimumFractionDigits: 2, maximumFractionDigits: 2 });
-
   useModalHotkeys({
     onCancel() { },
     onConfirm: handleCreate,
@@ -607,17 +765,16 @@ function ProjectionModal({
           }
         }}
       >
-        <h3 className="text-xl font-semibold mb-3">Criar projeção</h3>
+        <h3 className="text-xl font-semibold mb-3">{t("projection.create")}</h3>
         <div className="space-y-3">
           <div>
-            <label className="block text-sm">Valor total da projeção</label>
-            <input
+            <label className="block text-sm">{t("projection.total")}</label>
+            <MoneyInput
               ref={valueInputRef}
-              type="number"
               value={valueText}
-              onChange={(e) => setValueText(e.target.value)}
-              placeholder="Ex: 2000,00"
-              className="w-full px-3 py-2 rounded border"
+              onChange={setValueText}
+              currency={currency}
+              placeholder={t("projection.totalPlaceholder")}
             />
 
             <label className="inline-flex items-center gap-2 mt-2">
@@ -627,83 +784,76 @@ function ProjectionModal({
                 onChange={(e) => setUseExistingBalance(e.target.checked)}
               />
               <span className="text-sm">
-                Usar valor já existente no investimento
+                {t("projection.useExisting")}
               </span>
             </label>
 
             {useExistingBalance && currentBalance > 0 && (
               <div className="text-xs text-gray-500 mt-1">
-                Saldo atual da lista: {formatter.format(currentBalance)}
+                {t("projection.currentBalance", { amount: formatMoney(currentBalance, currency) })}
               </div>
             )}
           </div>
 
           <div>
-            <label className="block text-sm">Data limite</label>
+            <label className="block text-sm">{t("projection.end")}</label>
             <div className="flex gap-2">
-              <input type="number" min={1} max={12} value={endMonthNum} onChange={(e) => setEndMonthNum(e.target.value)} className="w-1/3 px-3 py-2 rounded border" placeholder="MM" />
-              <input type="number" min={1900} value={endYear} onChange={(e) => setEndYear(e.target.value)} className="w-2/3 px-3 py-2 rounded border" placeholder="YYYY" />
+              <input type="number" min={1} max={12} value={endMonthNum} onChange={(e) => setEndMonthNum(e.target.value)} className="w-1/3 px-3 py-2 rounded border" placeholder={t("projection.monthPlaceholder")} />
+              <input type="number" min={1900} value={endYear} onChange={(e) => setEndYear(e.target.value)} className="w-2/3 px-3 py-2 rounded border" placeholder={t("projection.yearPlaceholder")} />
             </div>
           </div>
 
           <div>
             <label className="inline-flex items-center gap-2">
               <input type="checkbox" checked={useCustomStart} onChange={(e) => setUseCustomStart(e.target.checked)} />
-              <span className="text-sm">Escolher mês inicial (opcional)</span>
+              <span className="text-sm">{t("projection.customStart")}</span>
             </label>
             {useCustomStart && (
               <div className="flex gap-2 mt-2">
-                <input type="number" min={1} max={12} value={startMonthNum} onChange={(e) => setStartMonthNum(e.target.value)} className="w-1/3 px-3 py-2 rounded border" placeholder="MM" />
-                <input type="number" min={1900} value={startYear} onChange={(e) => setStartYear(e.target.value)} className="w-2/3 px-3 py-2 rounded border" placeholder="YYYY" />
+                <input type="number" min={1} max={12} value={startMonthNum} onChange={(e) => setStartMonthNum(e.target.value)} className="w-1/3 px-3 py-2 rounded border" placeholder={t("projection.monthPlaceholder")} />
+                <input type="number" min={1900} value={startYear} onChange={(e) => setStartYear(e.target.value)} className="w-2/3 px-3 py-2 rounded border" placeholder={t("projection.yearPlaceholder")} />
               </div>
             )}
           </div>
 
           <div>
-            <label className="block text-sm">Dia do mês para as parcelas</label>
+            <label className="block text-sm">{t("projection.day")}</label>
             <input type="number" min={1} max={31} value={dayNum} onChange={(e) => setDayNum(e.target.value)} className="w-full px-3 py-2 rounded border" />
           </div>
 
 
           <div>
-            <div className="text-sm">Pré-visualização das parcelas</div>
+            <div className="text-sm">{t("projection.preview")}</div>
 
             <div className="bg-slate-100 dark:bg-slate-800 p-3 rounded h-52">
               {effectiveValue !== null && effectiveValue <= 0 ? (
                 <div className="text-sm text-amber-600">
-                  O saldo atual já atingiu ou ultrapassou o valor informado.
+                  {t("projection.alreadyReached")}
                 </div>
               ) : previewAmounts ? (
                 <div>
                   {(() => {
                     const effectiveValue = (() => {
                       try {
-                        const total = parseCurrencyInput(valueText);
+                        const total = parseMoneyInput(valueText);
                         return useExistingBalance
-                          ? Math.max(0, total - currentBalance)
+                          ? Math.max(0, subtractMoney(total, currentBalance))
                           : total;
                       } catch {
                         return null;
                       }
                     })();
                     const monthsCount = previewAmounts.length;
-                    const totalCents =
-                      effectiveValue !== null
-                        ? Math.round(effectiveValue * 100)
-                        : null;
-
                     if (monthsCount <= 0) return null;
 
                     // check if total is exactly divisible into cents
-                    const divisibleIntoEqualCents = totalCents !== null && (totalCents % monthsCount === 0);
+                    const divisibleIntoEqualCents = effectiveValue !== null && (effectiveValue % monthsCount === 0);
 
                     if (divisibleIntoEqualCents) {
-                      const installmentCents = Math.round((totalCents as number) / monthsCount);
-                      const installment = installmentCents / 100;
                       return (
                         <div>
-                          <div>Total de parcelas: {monthsCount}</div>
-                          <div className="mt-2 font-semibold">{monthsCount}x de {formatter.format(installment)}</div>
+                          <div>{t("projection.installments", { count: monthsCount })}</div>
+                          <div className="mt-2 font-semibold">{t("projection.times", { count: monthsCount, amount: formatMoney(previewAmounts[0], currency) })}</div>
                         </div>
                       );
                     }
@@ -715,40 +865,41 @@ function ProjectionModal({
 
                     const valueNum = effectiveValue;
 
-                    let ceilInstallment = null as number | null;
-                    let newTotal = null as number | null;
+                    let roundedInstallment = null as Money | null;
+                    let newTotal = null as Money | null;
                     if (valueNum !== null) {
-                      const cents = Math.round(valueNum * 100);
-                      const ceilInstallmentCents = Math.ceil(cents / monthsCount);
-                      ceilInstallment = ceilInstallmentCents / 100;
-                      newTotal = Math.round(ceilInstallment * monthsCount * 100) / 100;
+                      roundedInstallment = ceilInstallment(valueNum, monthsCount);
+                      newTotal = roundedInstallment * monthsCount;
                     }
 
                     return (
                       <div>
-                        <div>Total de parcelas: {monthsCount}</div>
+                        <div>{t("projection.installments", { count: monthsCount })}</div>
 
                         {firstCount > 0 && (
-                          <div className="mt-2 font-semibold">{firstCount}x de {formatter.format(firstValue)}</div>
+                          <div className="mt-2 font-semibold">{t("projection.times", { count: firstCount, amount: formatMoney(firstValue, currency) })}</div>
                         )}
 
                         <div className="text-center">+</div>
 
-                        <div className="font-semibold">1x de {formatter.format(lastValue)}</div>
+                        <div className="font-semibold">{t("projection.times", { count: 1, amount: formatMoney(lastValue, currency) })}</div>
 
                         {newTotal !== null && (
                           <div className="mt-8 items-center justify-center">
                             <button
                               onClick={() => {
                                 // set the value text to the new rounded total so the form shows equal installments
-                                setValueText((newTotal as number).toFixed(2));
+                                setValueText(moneyToInput(newTotal as Money));
                               }}
                               className="px-2 py-1 rounded bg-blue-800 text-white hover:ring ring-blue-800 transition-all duration-200"
                             >
-                              Arredondar
+                              {t("projection.round")}
                             </button>
 
-                            <div className="text-sm text-gray-500 mt-1">{monthsCount}x de {formatter.format(ceilInstallment as number)} = {formatter.format(newTotal as number)}</div>
+                            <div className="text-sm text-gray-500 mt-1">
+                              {t("projection.times", { count: monthsCount, amount: formatMoney(roundedInstallment as Money, currency) })} ={" "}
+                              {formatMoney(newTotal as Money, currency)}
+                            </div>
                           </div>
                         )}
                       </div>
@@ -761,10 +912,10 @@ function ProjectionModal({
 
           <div className="flex gap-2 justify-end mt-4">
             <button onClick={onClose} className="px-3 py-2 rounded border hover:ring ring-slate-800 transition-all duration-300 cursor-pointer">
-              Cancelar
+              {t("common.cancel")}
             </button>
             <button onClick={handleCreate} className="px-3 py-2 rounded bg-blue-600 text-white hover:ring ring-blue-600 transition-all duration-300 cursor-pointer">
-              Criar projeção
+              {t("projection.create")}
             </button>
           </div>
         </div>
@@ -777,21 +928,21 @@ function TransferModal({
   task,
   columns,
   currentColumnId,
+  currency,
   onClose,
   onConfirm,
 }: {
   task: Task;
   columns: Column[];
   currentColumnId: UniqueIdentifier;
+  currency: string;
   onClose: () => void;
-  onConfirm: (amount: number, targetColumnId: UniqueIdentifier, dateISO?: string | null) => void;
+  onConfirm: (amount: Money, targetColumnId: UniqueIdentifier, dateISO?: string | null) => void;
 }) {
-  const maxAmount = useMemo(
-    () => (typeof task.content === "number" ? task.content : Number(task.content) || 0),
-    [task.content]
-  );
+  const { t } = useI18n();
+  const maxAmount = task.content;
 
-  const [amount, setAmount] = useState<number>(maxAmount);
+  const [amountText, setAmountText] = useState(() => moneyToInput(maxAmount));
   const [targetColumnId, setTargetColumnId] = useState<UniqueIdentifier>(currentColumnId);
   const [dateTimeLocal, setDateTimeLocal] = useState(toLocalDateTimeInputValue());
 
@@ -802,26 +953,41 @@ function TransferModal({
   }, [task.dateISO]);
 
   useEffect(() => {
-    setAmount(maxAmount);
+    setAmountText(moneyToInput(maxAmount));
   }, [maxAmount]);
 
-  const clampAmount = (value: number) => {
+  // null while the text does not read as an amount
+  const amount = useMemo(() => {
+    try {
+      return parseMoneyInput(amountText);
+    } catch {
+      return null;
+    }
+  }, [amountText]);
+
+  const clampAmount = (value: Money) => {
     if (!Number.isFinite(value)) return 0;
-    const rounded = Math.round(value * 100) / 100;
-    return Math.max(0, Math.min(maxAmount, rounded));
+    return Math.max(0, Math.min(maxAmount, Math.round(value)));
   };
 
-  useModalHotkeys({
-    onCancel: onClose,
-    onConfirm: () => {
-      const safeAmount = clampAmount(amount);
+  const handleConfirm = () => {
+    let value: Money;
+    try {
+      value = parseMoneyInput(amountText);
+    } catch (err) {
+      return alert((err as Error).message);
+    }
 
-      if (safeAmount <= 0) return alert("Informe um valor maior que zero");
-      if (safeAmount > maxAmount) return alert("Valor maior do que o disponível");
+    if (value <= 0) return alert(t("board.amountRequired"));
+    if (value > maxAmount) return alert(t("transfer.overAvailable"));
 
-      const dateISO = dateTimeLocal ? new Date(dateTimeLocal).toISOString() : null;
-      onConfirm(safeAmount, targetColumnId, dateISO);
-    },
+    const dateISO = dateTimeLocal ? new Date(dateTimeLocal).toISOString() : null;
+    onConfirm(value, targetColumnId, dateISO);
+  };
+
+  useModalHotkeys({
+    onCancel: onClose,
+    onConfirm: handleConfirm,
   });
 
   useEffect(() => {
@@ -831,24 +997,24 @@ function TransferModal({
   return (
     <Modal onClose={onClose}>
       <div>
-        <h3 className="text-xl font-semibold mb-3">Transferir valor</h3>
+        <h3 className="text-xl font-semibold mb-3">{t("transfer.title")}</h3>
 
         <div className="space-y-3">
           <div className="border border-slate-700 rounded-md text-sm flex justify-center gap-10 py-2">
             <span>
-              <span className="text-neutral-400">Lista atual:</span>{" "}
+              <span className="text-neutral-400">{t("transfer.currentColumn")}</span>{" "}
               <span className="font-semibold">
                 {columns.find(c => c.id === currentColumnId)?.title}
               </span>
             </span>
             <span>
-              <span className="text-neutral-400">Valor disponível:</span>{" "}
-              <span className="font-semibold">R$ {maxAmount.toFixed(2)}</span>
+              <span className="text-neutral-400">{t("transfer.available")}</span>{" "}
+              <span className="font-semibold">{formatMoney(maxAmount, currency)}</span>
             </span>
           </div>
 
           <div>
-            <label className="block text-sm">Lista de destino</label>
+            <label className="block text-sm">{t("transfer.target")}</label>
             <select
               value={targetColumnId}
               onChange={(e) => setTargetColumnId(e.target.value)}
@@ -860,37 +1026,35 @@ function TransferModal({
                 </option>
               ))}
             </select>
+            {columnCurrency(columns.find((c) => c.id === targetColumnId)) !== currency && (
+              <p className="text-xs text-neutral-400 mt-1">
+                {t("transfer.otherCurrency", { target: columnCurrency(columns.find((c) => c.id === targetColumnId)), currency })}
+              </p>
+            )}
           </div>
 
           <div>
-            <label className="block text-sm">Valor a transferir</label>
-            <input
+            <label className="block text-sm">{t("transfer.amount")}</label>
+            <MoneyInput
               ref={amountInputRef}
-              type="number"
-              min={0}
-              max={maxAmount}
-              step={0.01}
-              value={amount}
-              onChange={(e) => {
-                const next = Number(e.target.value);
-                setAmount(clampAmount(Number.isFinite(next) ? next : 0));
-              }}
-              className="w-full px-3 py-2 rounded border"
+              value={amountText}
+              onChange={setAmountText}
+              currency={currency}
             />
 
             <input
               type="range"
               min={0}
               max={maxAmount}
-              step={0.01}
-              value={amount}
-              onChange={(e) => setAmount(clampAmount(Number(e.target.value)))}
+              step={1}
+              value={clampAmount(amount ?? 0)}
+              onChange={(e) => setAmountText(moneyToInput(clampAmount(Number(e.target.value))))}
               className="w-full mt-2"
             />
           </div>
 
           <div>
-            <label className="block text-sm">Data e hora</label>
+            <label className="block text-sm">{t("card.dateTime")}</label>
             <input
               type="datetime-local"
               step={1}
@@ -905,7 +1069,7 @@ function TransferModal({
                 onClick={() => setDateTimeLocal(originalDateLocal)}
                 className="px-3 py-2 rounded border hover:ring ring-slate-800 transition-all duration-300 cursor-pointer text-sm"
               >
-                Usar data original
+                {t("card.useOriginalDate")}
               </button>
 
               <button
@@ -913,7 +1077,7 @@ function TransferModal({
                 onClick={() => setDateTimeLocal(toLocalDateTimeInputValue())}
                 className="px-3 py-2 rounded border hover:ring ring-slate-800 transition-all duration-300 cursor-pointer text-sm"
               >
-                Usar data atual
+                {t("card.useCurrentDate")}
               </button>
             </div>
           </div>
@@ -923,22 +1087,14 @@ function TransferModal({
               onClick={onClose}
               className="px-3 py-2 rounded border hover:ring ring-slate-800 transition-all duration-300 cursor-pointer"
             >
-              Cancelar
+              {t("common.cancel")}
             </button>
 
             <button
-              onClick={() => {
-                const safeAmount = clampAmount(amount);
-
-                if (safeAmount <= 0) return alert("Informe um valor maior que zero");
-                if (safeAmount > maxAmount) return alert("Valor maior do que o disponível");
-
-                const dateISO = dateTimeLocal ? new Date(dateTimeLocal).toISOString() : null;
-                onConfirm(safeAmount, targetColumnId, dateISO);
-              }}
+              onClick={handleConfirm}
               className="px-3 py-2 rounded bg-indigo-600 text-white hover:ring ring-indigo-600 transition-all duration-300 cursor-pointer"
             >
-              Transferir
+              {t("transfer.confirm")}
             </button>
           </div>
         </div>
@@ -947,15 +1103,39 @@ function TransferModal({
   );
 }
 
+// one unsigned sum per kind the cards hold, in TASK_KINDS order, in the column's currency
+function kindTotalsOf(tasks: Task[], column: Column, currency: string, currencySettings: CurrencySettings) {
+  return TASK_KINDS.map((kind) => {
+    const ofKind = tasks.filter((task) => taskKind(task) === kind);
+    const sum = sumConverted(
+      ofKind.map((task) => ({ amount: task.content, currency: cardCurrency(task, column) })),
+      currency,
+      currencySettings
+    );
+    return { kind, count: ofKind.length, ...sum };
+  }).filter((entry) => entry.count > 0);
+}
+
+// total balance (does not include projections): deposits and yields minus withdrawals and fees
+function balanceOf(kindTotals: ReturnType<typeof kindTotalsOf>) {
+  return sumMoney(kindTotals.filter((entry) => entry.kind !== "projection").map((entry) => kindSign(entry.kind) * entry.total));
+}
+
 export function BoardColumn({
   column,
   tasks,
   isOverlay,
   allColumns,
   allPlaces = [],
+  currencySettings = DEFAULT_CURRENCY_SETTINGS,
   hoveredPlaceId,
   selectedPlaceIds = [],
+  allTags = [],
+  filter,
+  filterMode = "dim",
+  onCreateTag,
   onAddTask,
+  onAddProjections,
   onRemoveTask,
   onRemoveColumn,
   onTransferTask,
@@ -963,8 +1143,18 @@ export function BoardColumn({
   onEditTask,
   onSetMeta,
   onSetPlace,
+  onSetSortMode,
+  onSetCurrency,
+  onOpenSchedules,
 }: BoardColumnProps) {
-  const tasksIds = useMemo(() => tasks.map((task) => task.id), [tasks]);
+  const { t } = useI18n();
+  const matchesFilter = (task: Task) => !filter || taskMatchesFilter(task, filter, column, currencySettings);
+  const matchingTasks = useMemo(
+    () => (filter ? tasks.filter((task) => taskMatchesFilter(task, filter, column, currencySettings)) : tasks),
+    [tasks, filter, column, currencySettings]
+  );
+  const shownTasks = filterMode === "hide" ? matchingTasks : tasks;
+  const tasksIds = useMemo(() => shownTasks.map((task) => task.id), [shownTasks]);
   const [isDeleteCardOpen, setIsDeleteCardOpen] = useState(false);
   const [isDeleteListOpen, setIsDeleteListOpen] = useState(false);
   const [taskToDelete, setTaskToDelete] = useState<Task | null>(null);
@@ -977,7 +1167,7 @@ export function BoardColumn({
       type: "Column",
       column,
     } satisfies ColumnDragData,
-    attributes: { roleDescription: `Column: ${column.title}` },
+    attributes: { roleDescription: t("dnd.columnRole", { title: column.title }) },
   });
 
   const [transferState, setTransferState] = useState<TransferState>({
@@ -1019,45 +1209,56 @@ export function BoardColumn({
     setIsDeleteListOpen(false);
   };
 
-  // total balance (does not include projections)
-  const sumBalance = useMemo(() => {
-    return tasks.reduce((sum, t) => sum + (t.isProjection ? 0 : (typeof t.content === 'number' ? t.content : Number(t.content) || 0)), 0);
-  }, [tasks]);
+  // sums, goal and projections are in the column's currency; cards in another one are converted
+  const currency = columnCurrency(column);
+
+  // filtered-out cards are not counted
+  const kindTotals = useMemo(
+    () => kindTotalsOf(matchingTasks, column, currency, currencySettings),
+    [matchingTasks, column, currency, currencySettings]
+  );
+
+  const sumBalance = useMemo(() => balanceOf(kindTotals), [kindTotals]);
+
+  // projections plan from the whole column, whatever the filter leaves
+  const columnBalance = useMemo(
+    () => (filter ? balanceOf(kindTotalsOf(tasks, column, currency, currencySettings)) : sumBalance),
+    [filter, tasks, column, currency, currencySettings, sumBalance]
+  );
 
   // sum of all projections
-  const sumProjections = useMemo(() => {
-    return tasks.reduce((sum, t) => sum + (t.isProjection ? (typeof t.content === 'number' ? t.content : Number(t.content) || 0) : 0), 0);
-  }, [tasks]);
-
-  const sumAll = useMemo(() => sumBalance + sumProjections, [sumBalance, sumProjections]);
-
-  const formattedBalance = useMemo(() => {
-    return new Intl.NumberFormat("pt-BR", {
-      style: "currency",
-      currency: "BRL",
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2,
-    }).format(sumBalance);
-  }, [sumBalance]);
-
-  const formattedAll = useMemo(() => {
-    return new Intl.NumberFormat("pt-BR", {
-      style: "currency",
-      currency: "BRL",
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2,
-    }).format(sumAll);
-  }, [sumAll]);
+  const sumProjections = kindTotals.find((entry) => entry.kind === "projection")?.total ?? 0;
+
+  const missingRates = [...new Set(kindTotals.flatMap((entry) => entry.missing))];
+
+  // how much of the balance came in under each tag: signed, projections left out, like the balance
+  const tagTotals = useMemo(
+    () =>
+      allTags.map((tag) => {
+        const tagged = matchingTasks.filter((task) => !isProjection(task) && task.tagIds?.includes(tag.id));
+        const sum = sumConverted(
+          tagged.map((task) => ({ amount: signedAmount(task), currency: cardCurrency(task, column) })),
+          currency,
+          currencySettings
+        );
+        return { tag, count: tagged.length, ...sum };
+      }).filter((entry) => entry.count > 0),
+    [allTags, matchingTasks, column, currency, currencySettings]
+  );
+
+  const sumAll = useMemo(() => sumMoney([sumBalance, sumProjections]), [sumBalance, sumProjections]);
+
+  const formattedBalance = useMemo(() => formatMoney(sumBalance, currency), [sumBalance, currency]);
+
+  const formattedAll = useMemo(() => formatMoney(sumAll, currency), [sumAll, currency]);
 
   const formattedMeta = useMemo(() => {
     if (column.meta === undefined || column.meta === null) return null;
-    return new Intl.NumberFormat("pt-BR", {
-      style: "currency",
-      currency: "BRL",
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2,
-    }).format(column.meta);
-  }, [column.meta]);
+    return formatMoney(column.meta, currency);
+  }, [column.meta, currency]);
+
+  // the balance again in the board's base currency, when the column uses another one
+  const balanceInBase = currency === currencySettings.base ? null : convertMoney(sumBalance, currency, currencySettings.base, currencySettings);
 
   // decide what to show under the title:
   // if meta exists -> show "balance / meta"
@@ -1088,7 +1289,7 @@ export function BoardColumn({
   type TransferState = {
     open: boolean;
     task?: Task | null;
-    amount: number;
+    amount: Money;
     targetColumnId?: UniqueIdentifier | null;
     dateTimeLocal?: string;
   };
@@ -1098,7 +1299,7 @@ export function BoardColumn({
   }
 
   function createProjections(
-    totalValue: number,
+    totalValue: Money,
     startMonthISO: string | null,
     endMonthISO: string,
     dayNumber: number,
@@ -1115,37 +1316,32 @@ export function BoardColumn({
     const monthsCount = (endYear - startYear) * 12 + (endMonth - startMonth) + 1;
 
     if (!monthsCount || monthsCount <= 0) {
-      alert('O mês limite deve ser igual ou posterior ao mês inicial.');
+      alert(t("projection.endBeforeStart"));
       return;
     }
 
-    const remainingValue = useExistingBalance ? (totalValue - sumBalance) : totalValue;
+    const remainingValue = useExistingBalance ? subtractMoney(totalValue, columnBalance) : totalValue;
 
     if (useExistingBalance && remainingValue <= 0) {
-      alert('O saldo atual já cobre ou ultrapassa o valor total informado.');
+      alert(t("projection.balanceCovers"));
       return;
     }
 
-    const base = Math.floor((remainingValue / monthsCount) * 100) / 100;
-    const projections: { amount: number; dateISO: string }[] = [];
+    const amounts = allocateMoney(remainingValue, monthsCount);
+    const projections: { amount: Money; dateISO: string }[] = [];
 
     for (let i = 0; i < monthsCount; i++) {
-      const amt = i < monthsCount - 1
-        ? base
-        : Math.round((remainingValue - base * (monthsCount - 1)) * 100) / 100;
-
       const year = startYear + Math.floor((startMonth - 1 + i) / 12);
       const month = ((startMonth - 1 + i) % 12) + 1;
       // clamp day to last day of that month
       const day = Math.max(1, Math.min(dayNumber, getDaysInMonth(year, month)));
       const date = new Date(year, month - 1, day, 12, 0, 0);
 
-      projections.push({ amount: amt, dateISO: date.toISOString() });
+      projections.push({ amount: amounts[i], dateISO: date.toISOString() });
     }
 
-    // call onAddTask for each projection
-    if (!onAddTask) return;
-    projections.forEach((p) => onAddTask(p.amount, p.dateISO, true));
+    // all projections go out together, so they can be undone together
+    onAddProjections?.(projections);
   }
 
   const isThisPlaceHovered = !!(hoveredPlaceId && column.placeId && hoveredPlaceId === column.placeId);
@@ -1194,10 +1390,10 @@ export function BoardColumn({
                       onSetPlace(val === "" ? null : val);
                     }
                   }}
-                  aria-label="Atribuir lugar à lista"
+                  aria-label={t("column.place")}
                   className="text-sm rounded border px-2 py-1 bg-white dark:bg-slate-800 w-40 truncate"
                 >
-                  <option value="">Sem lugar</option>
+                  <option value="">{t("column.noPlace")}</option>
                   {(allPlaces ?? []).map((p: { id: string; name: string; color: string }) => (
                     <option key={p.id} value={p.id}>
                       {p.name}
@@ -1207,9 +1403,71 @@ export function BoardColumn({
               </div>
             </div>
 
-            <div className="text-sm font-medium text-gray-500 mt-1">
-              {headerValueText}
+            <div className="flex items-center gap-2 text-sm font-medium text-gray-500 mt-1">
+              <span title={missingRates.length > 0 ? t("currency.missingRates", { codes: missingRates.join(", ") }) : undefined}>
+                {headerValueText}
+                {missingRates.length > 0 ? " *" : ""}
+                {balanceInBase !== null ? ` ≈ ${formatMoney(balanceInBase, currencySettings.base)}` : ""}
+              </span>
+              {onSetCurrency && (
+                <select
+                  value={currency}
+                  onChange={(e) => onSetCurrency(e.target.value)}
+                  onPointerDown={(e) => e.stopPropagation()}
+                  aria-label={t("column.currency")}
+                  title={t("column.currencyHint")}
+                  className="text-xs rounded border px-1 py-0.5 bg-white dark:bg-slate-800"
+                >
+                  {[...new Set([...COMMON_CURRENCIES, currency, ...Object.keys(currencySettings.rates)])].map((code) => (
+                    <option key={code} value={code}>
+                      {code}
+                    </option>
+                  ))}
+                </select>
+              )}
+              {onSetSortMode && (
+                <select
+                  value={column.sortMode ?? DEFAULT_SORT_MODE}
+                  onChange={(e) => onSetSortMode(e.target.value as TaskSortMode)}
+                  onPointerDown={(e) => e.stopPropagation()}
+                  aria-label={t("column.sort")}
+                  title={t("column.sort")}
+                  className="text-xs rounded border px-1 py-0.5 bg-white dark:bg-slate-800"
+                >
+                  {(Object.keys(SORT_MODE_LABELS) as TaskSortMode[]).map((mode) => (
+                    <option key={mode} value={mode}>
+                      {t(SORT_MODE_LABELS[mode])}
+                    </option>
+                  ))}
+                </select>
+              )}
             </div>
+
+            {filter && (
+              <div className="text-xs font-normal text-sky-700 mt-1">
+                {t("filter.columnMatched", { count: matchingTasks.length, total: tasks.length })}
+              </div>
+            )}
+
+            {kindTotals.length > 0 && (
+              <div className="flex flex-wrap gap-x-3 text-xs font-normal text-gray-500 mt-1">
+                {kindTotals.map((entry) => (
+                  <span key={entry.kind}>
+                    {t(TASK_KIND_LABELS[entry.kind])}: {formatMoney(kindSign(entry.kind) * entry.total, currency)}
+                  </span>
+                ))}
+              </div>
+            )}
+
+            {tagTotals.length > 0 && (
+              <div className="flex flex-wrap gap-x-3 text-xs font-normal mt-1">
+                {tagTotals.map((entry) => (
+                  <span key={entry.tag.id} style={{ color: entry.tag.color }}>
+                    {entry.tag.name}: {formatMoney(entry.total, currency)}
+                  </span>
+                ))}
+              </div>
+            )}
           </div>
         </div>
 
@@ -1219,7 +1477,7 @@ export function BoardColumn({
             <button
               className={`${actionButtonsStyle} bg-emerald-600 hover:ring ring-emerald-600`}
               onClick={() => setIsModalOpen(true)}
-              title="Adicionar cartão"
+              title={t("card.addTitle")}
               onPointerDown={(e) => { e.preventDefault(); e.stopPropagation(); }}
             >
               <Plus size={14} />
@@ -1229,16 +1487,27 @@ export function BoardColumn({
           <button
             className={`${actionButtonsStyle} bg-blue-600 hover:ring ring-blue-600`}
             onClick={() => setIsProjectionOpen(true)}
-            title="Criar projeção"
+            title={t("projection.create")}
             onPointerDown={(e) => { e.preventDefault(); e.stopPropagation(); }}
           >
             <CalendarCheck size={14} />
           </button>
 
+          {onOpenSchedules && (
+            <button
+              className={`${actionButtonsStyle} bg-violet-600 hover:ring ring-violet-600`}
+              onClick={onOpenSchedules}
+              title={t("schedule.open")}
+              onPointerDown={(e) => { e.preventDefault(); e.stopPropagation(); }}
+            >
+              <Repeat size={14} />
+            </button>
+          )}
+
           <button
             className={`${actionButtonsStyle} bg-orange-600 hover:ring ring-orange-600`}
             onClick={() => setIsMetaOpen(true)}
-            title={column.meta ? "Editar meta" : "Definir meta"}
+            title={column.meta ? t("goal.edit") : t("goal.set")}
             onPointerDown={(e) => { e.preventDefault(); e.stopPropagation(); }}
           >
             <Goal size={14} />
@@ -1248,7 +1517,7 @@ export function BoardColumn({
             <button
               className={`${actionButtonsStyle} bg-rose-600 hover:ring ring-rose-600`}
               onClick={handleOpenDeleteColumnModal}
-              title="Remover lista"
+              title={t("column.remove")}
               onPointerDown={(e) => { e.preventDefault(); e.stopPropagation(); }}
             >
               <X size={14} />
@@ -1261,18 +1530,18 @@ export function BoardColumn({
       <ScrollArea>
         <CardContent className="flex flex-grow flex-col gap-2 p-2">
           <SortableContext items={tasksIds}>
-            {tasks.map((task) => (
-              <div key={task.id} className="relative group">
+            {shownTasks.map((task) => (
+              <div key={task.id} className={`relative group transition-opacity ${matchesFilter(task) ? "" : "opacity-30"}`}>
 
-                <TaskCard task={task} />
+                <TaskCard task={task} currency={cardCurrency(task, column)} tags={tagsOf(task, allTags)} />
 
                 <div className="absolute w-full z-10 -bottom-1 flex justify-center opacity-0 group-hover:opacity-100 gap-0.5 group-hover:gap-1.5 transition-all duration-300">
-                  {task.isProjection && onToggleProjection && (
+                  {isProjection(task) && onToggleProjection && (
                     <button
-                      title="Transformar em saldo"
+                      title={t("card.toDeposit")}
                       className={`${actionButtonsStyle} bg-emerald-600 hover:ring ring-emerald-600`}
                       onClick={() => onToggleProjection(task.id)}
-                      aria-label={`Transformar projeção ${task.content} em saldo`}
+                      aria-label={t("card.toDepositLabel", { amount: formatMoney(task.content, cardCurrency(task, column)) })}
                     >
                       <SquareCheck size={14} />
                     </button>
@@ -1280,13 +1549,13 @@ export function BoardColumn({
 
                   {onTransferTask && (
                     <button
-                      title="Transferir valor"
+                      title={t("transfer.title")}
                       className={`${actionButtonsStyle} bg-indigo-600 hover:ring ring-indigo-600`}
                       onClick={() => {
                         setTransferState({
                           open: true,
                           task,
-                          amount: typeof task.content === "number" ? task.content : Number(task.content) || 0,
+                          amount: task.content,
                           targetColumnId: column.id as UniqueIdentifier,
                           dateTimeLocal: toLocalDateTimeInputValue(new Date()),
                         });
@@ -1298,7 +1567,7 @@ export function BoardColumn({
 
                   {onEditTask && (
                     <button
-                      title="Editar cartão"
+                      title={t("card.editTitle")}
                       className={`${actionButtonsStyle} bg-amber-600 hover:ring ring-amber-600`}
                       onClick={() => setEditState({ open: true, task })}
                     >
@@ -1308,10 +1577,10 @@ export function BoardColumn({
 
                   {onRemoveTask && (
                     <button
-                      title="Remover cartão"
+                      title={t("card.remove")}
                       className={`${actionButtonsStyle} bg-rose-600 hover:ring ring-rose-600`}
                       onClick={() => handleOpenDeleteCardModal(task)}
-                      aria-label={`Remover cartão ${task.content}`}
+                      aria-label={t("card.removeLabel", { amount: formatMoney(task.content, cardCurrency(task, column)) })}
                     >
                       <Trash size={14} />
                     </button>
@@ -1330,7 +1599,7 @@ export function BoardColumn({
                 onClick={() => setIsModalOpen(true)}
               >
                 <div className="flex items-center gap-2 justify-center">
-                  <Plus size={16} /> <span>Adicionar cartão</span>
+                  <Plus size={16} /> <span>{t("card.addTitle")}</span>
                 </div>
               </Button>
             </div>
@@ -1341,9 +1610,12 @@ export function BoardColumn({
       {isModalOpen && onAddTask && (
         <Modal onClose={() => setIsModalOpen(false)}>
           <AddCardForm
+            currency={currency}
+            tags={allTags}
+            onCreateTag={onCreateTag}
             onCancel={() => setIsModalOpen(false)}
-            onAdd={(amount, dateISO, isProjection) => {
-              onAddTask(amount, dateISO, isProjection);
+            onAdd={(amount, dateISO, kind, details) => {
+              onAddTask(amount, dateISO, kind, details);
               setIsModalOpen(false);
             }}
           />
@@ -1352,7 +1624,8 @@ export function BoardColumn({
 
       {isProjectionOpen && (
         <ProjectionModal
-          currentBalance={sumBalance}
+          currentBalance={columnBalance}
+          currency={currency}
           onClose={() => setIsProjectionOpen(false)}
           onCreate={(value, startMonthISO, endMonthISO, dayNumber, useExistingBalance) => {
             createProjections(value, startMonthISO, endMonthISO, dayNumber, useExistingBalance);
@@ -1365,6 +1638,7 @@ export function BoardColumn({
         <Modal onClose={() => setIsMetaOpen(false)}>
           <MetaModal
             initialMeta={column.meta}
+            currency={currency}
             onCancel={() => setIsMetaOpen(false)}
             onSave={(value) => {
               onSetMeta(value);
@@ -1379,12 +1653,16 @@ export function BoardColumn({
           onClose={() => setEditState({ open: false, task: null })}
         >
           <EditCardForm
-            initialAmount={typeof editState.task.content === 'number' ? editState.task.content : Number(editState.task.content) || 0}
+            currency={cardCurrency(editState.task, column)}
+            initialAmount={editState.task.content}
             initialDateISO={editState.task.dateISO ?? undefined}
-            initialIsProjection={!!editState.task.isProjection}
+            initialKind={taskKind(editState.task)}
+            initialDetails={editState.task}
+            tags={allTags}
+            onCreateTag={onCreateTag}
             onCancel={() => setEditState({ open: false, task: null })}
-            onSave={(amount, dateISO, isProjection) => {
-              onEditTask(editState.task!.id, amount, dateISO ?? undefined, isProjection ?? false);
+            onSave={(amount, dateISO, kind, details) => {
+              onEditTask(editState.task!.id, amount, dateISO ?? undefined, kind, details);
               setEditState({ open: false, task: null });
             }}
           />
@@ -1396,6 +1674,7 @@ export function BoardColumn({
           task={transferState.task}
           columns={allColumns ?? []}
           currentColumnId={column.id}
+          currency={cardCurrency(transferState.task, column)}
           onClose={() =>
             setTransferState({
               open: false,
@@ -1406,7 +1685,8 @@ export function BoardColumn({
             })
           }
           onConfirm={(value, targetId, dateISO) => {
-            onTransferTask(transferState.task!.id, value, targetId, dateISO ?? undefined);
+            // the balance shown when the modal opened: the transfer is rejected if it changed meanwhile
+            onTransferTask(transferState.task!.id, value, targetId, dateISO ?? undefined, transferState.task!.content);
 
             setTransferState({
               open: false,
@@ -1421,7 +1701,7 @@ export function BoardColumn({
 
       {isDeleteCardOpen && taskToDelete && (
         <DeleteModal
-          message={`Excluir o cartão "${taskToDelete.content}"?`}
+          message={t("card.confirmDelete", { amount: formatMoney(taskToDelete.content, cardCurrency(taskToDelete, column)) })}
           onConfirm={handleConfirmDeleteCard}
           onCancel={() => setIsDeleteCardOpen(false)}
         />
@@ -1429,7 +1709,7 @@ export function BoardColumn({
 
       {isDeleteListOpen && (
         <DeleteModal
-          message={`Excluir a lista "${column.title}"? Isso removerá todos os cartões nela.`}
+          message={t("column.confirmDelete", { title: column.title })}
           onConfirm={handleConfirmDeleteColumn}
           onCancel={() => setIsDeleteListOpen(false)}
         />
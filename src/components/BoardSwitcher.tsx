@@ -0,0 +1,114 @@
+// File: BoardSwitcher.tsx
+
+import { Copy, LayoutGrid, MoreHorizontal, Pencil, Plus, Trash } from "lucide-react";
+import { Button } from "./ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "./ui/dropdown-menu";
+import type { BoardInfo } from "../lib/boards";
+import { t } from "../lib/i18n";
+import { useI18n } from "../hooks/useI18n";
+
+function askName(message: string, initial = "") {
+  const name = prompt(message, initial);
+  if (name === null) return null;
+  const trimmed = name.trim();
+  if (!trimmed) {
+    alert(t("boards.nameRequired"));
+    return null;
+  }
+  return trimmed;
+}
+
+export function BoardSwitcher({
+  boards,
+  activeBoard,
+  onSelect,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+}: {
+  boards: BoardInfo[];
+  activeBoard: BoardInfo | null;
+  onSelect: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}) {
+  const { t } = useI18n();
+
+  return (
+    <div className="flex items-center gap-2">
+      <LayoutGrid className="w-4 h-4 text-slate-500" />
+      <select
+        value={activeBoard?.id ?? ""}
+        onChange={(e) => onSelect(e.target.value)}
+        className="px-3 py-1.5 rounded border bg-white dark:bg-slate-800 max-w-64"
+        aria-label={t("boards.active")}
+        disabled={boards.length === 0}
+      >
+        {boards.map((board) => (
+          <option key={board.id} value={board.id}>
+            {board.name || t("boards.unnamed")}
+          </option>
+        ))}
+      </select>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="icon" className="h-8 w-8" aria-label={t("boards.actions")}>
+            <MoreHorizontal className="w-4 h-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          <DropdownMenuItem
+            onClick={() => {
+              const name = askName(t("boards.newPrompt"));
+              if (name) onCreate(name);
+            }}
+          >
+            <Plus className="w-4 h-4 mr-2" /> {t("boards.new")}
+          </DropdownMenuItem>
+          {activeBoard && (
+            <>
+              <DropdownMenuItem
+                onClick={() => {
+                  const name = askName(t("boards.renamePrompt"), activeBoard.name);
+                  if (name) onRename(activeBoard.id, name);
+                }}
+              >
+                <Pencil className="w-4 h-4 mr-2" /> {t("boards.rename")}
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() => {
+                  const name = askName(t("boards.duplicatePrompt"), t("boards.copyName", { name: activeBoard.name }));
+                  if (name) onDuplicate(activeBoard.id, name);
+                }}
+              >
+                <Copy className="w-4 h-4 mr-2" /> {t("boards.duplicate")}
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem
+                className="text-rose-600"
+                disabled={boards.length <= 1}
+                onClick={() => {
+                  if (confirm(t("boards.confirmDelete", { name: activeBoard.name }))) {
+                    onDelete(activeBoard.id);
+                  }
+                }}
+              >
+                <Trash className="w-4 h-4 mr-2" /> {t("common.delete")}
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+}
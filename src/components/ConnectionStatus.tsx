@@ -0,0 +1,45 @@
+// File: ConnectionStatus.tsx
+
+import { Badge } from "./ui/badge";
+import { useConnectionStatus } from "../hooks/useConnectionStatus";
+import { useI18n } from "../hooks/useI18n";
+import type { ConnectionStatus as Status } from "../lib/connection";
+import type { MessageKey } from "../lib/i18n";
+
+const LABELS: Record<Status, MessageKey> = {
+  online: "connection.online",
+  offline: "connection.offline",
+  syncing: "connection.syncing",
+  error: "connection.error",
+};
+
+const DOT_COLORS: Record<Status, string> = {
+  online: "bg-emerald-500",
+  offline: "bg-slate-400",
+  syncing: "bg-amber-500 animate-pulse",
+  error: "bg-rose-600",
+};
+
+export function ConnectionStatus() {
+  const { t } = useI18n();
+  const { status, pendingWrites, queuedWrites, lastError } = useConnectionStatus();
+
+  const details = [
+    pendingWrites > 0 ? t("connection.pending", { count: pendingWrites }) : null,
+    queuedWrites > 0 ? t("connection.queued", { count: queuedWrites }) : null,
+    status === "error" && lastError ? lastError : null,
+  ].filter(Boolean);
+
+  return (
+    <Badge
+      variant="outline"
+      className="gap-2 h-7 font-medium"
+      title={details.length > 0 ? details.join("\n") : t("connection.allSent")}
+      aria-live="polite"
+    >
+      <span className={`inline-block w-2 h-2 rounded-full ${DOT_COLORS[status]}`} />
+      {t(LABELS[status])}
+      {pendingWrites + queuedWrites > 0 && <span className="opacity-70">({pendingWrites + queuedWrites})</span>}
+    </Badge>
+  );
+}
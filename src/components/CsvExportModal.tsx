@@ -0,0 +1,162 @@
+// File: CsvExportModal.tsx
+
+import { useState } from "react";
+import {
+  filterTasksForCsv,
+  tasksToCsv,
+  type CsvDecimalSeparator,
+  type CsvDelimiter,
+  type CsvFilter,
+} from "../lib/csvExport";
+import { downloadFile } from "../lib/utils";
+import type { BoardSnapshot } from "../lib/storage";
+import { useModalHotkeys } from "../hooks/useModalHotkeys";
+import { useI18n } from "../hooks/useI18n";
+
+export function CsvExportModal({
+  snapshot,
+  fileName,
+  onClose,
+}: {
+  snapshot: BoardSnapshot;
+  fileName: string;
+  onClose: () => void;
+}) {
+  const { t, locale } = useI18n();
+  // start from what a spreadsheet in the same language expects
+  const [delimiter, setDelimiter] = useState<CsvDelimiter>(locale === "en" ? "," : ";");
+  const [decimalSeparator, setDecimalSeparator] = useState<CsvDecimalSeparator>(locale === "en" ? "." : ",");
+  const [filter, setFilter] = useState<CsvFilter>({});
+
+  const count = filterTasksForCsv(snapshot, filter).length;
+
+  function exportCsv() {
+    if (count === 0) return;
+    downloadFile(fileName, tasksToCsv(snapshot, { delimiter, decimalSeparator, filter }), "text/csv;charset=utf-8");
+    onClose();
+  }
+
+  useModalHotkeys({ onCancel: onClose, onConfirm: exportCsv });
+
+  const columnPlaces = snapshot.places.filter((p) => snapshot.columns.some((c) => c.placeId === p.id));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-3" role="dialog" aria-modal>
+      <div className="w-full max-w-lg rounded-2xl border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 shadow-2xl overflow-hidden">
+        <div className="px-5 py-4 border-b border-slate-200 dark:border-slate-800">
+          <h3 className="text-lg font-semibold">{t("csv.title")}</h3>
+          <p className="text-sm text-slate-500">{t("csv.subtitle")}</p>
+        </div>
+
+        <div className="p-5 space-y-3 text-sm">
+          <div className="grid grid-cols-2 gap-3">
+            <label className="space-y-1">
+              <span className="block">{t("csv.delimiter")}</span>
+              <select
+                value={delimiter}
+                onChange={(e) => {
+                  const next = e.target.value as CsvDelimiter;
+                  setDelimiter(next);
+                  // a comma can't be both the delimiter and the decimal separator
+                  setDecimalSeparator(next === ";" ? "," : ".");
+                }}
+                className="w-full px-2 py-1 rounded border bg-white dark:bg-slate-800"
+              >
+                <option value=";">{t("csv.semicolon")}</option>
+                <option value=",">{t("csv.comma")}</option>
+              </select>
+            </label>
+            <label className="space-y-1">
+              <span className="block">{t("csv.decimal")}</span>
+              <select
+                value={decimalSeparator}
+                onChange={(e) => setDecimalSeparator(e.target.value as CsvDecimalSeparator)}
+                className="w-full px-2 py-1 rounded border bg-white dark:bg-slate-800"
+              >
+                <option value="," disabled={delimiter === ","}>
+                  {t("csv.decimalComma")}
+                </option>
+                <option value=".">{t("csv.decimalDot")}</option>
+              </select>
+            </label>
+            <label className="space-y-1">
+              <span className="block">{t("csv.column")}</span>
+              <select
+                value={filter.columnId ?? ""}
+                onChange={(e) => setFilter({ ...filter, columnId: e.target.value || undefined })}
+                className="w-full px-2 py-1 rounded border bg-white dark:bg-slate-800"
+              >
+                <option value="">{t("csv.allColumns")}</option>
+                {snapshot.columns.map((c) => (
+                  <option key={c.id} value={c.id}>
+                    {c.title}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="space-y-1">
+              <span className="block">{t("csv.place")}</span>
+              <select
+                value={filter.placeId ?? ""}
+                onChange={(e) => setFilter({ ...filter, placeId: e.target.value || undefined })}
+                className="w-full px-2 py-1 rounded border bg-white dark:bg-slate-800"
+              >
+                <option value="">{t("csv.allPlaces")}</option>
+                {columnPlaces.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="space-y-1">
+              <span className="block">{t("activity.from")}</span>
+              <input
+                type="date"
+                value={filter.from ?? ""}
+                onChange={(e) => setFilter({ ...filter, from: e.target.value || undefined })}
+                className="w-full px-2 py-1 rounded border"
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="block">{t("activity.to")}</span>
+              <input
+                type="date"
+                value={filter.to ?? ""}
+                onChange={(e) => setFilter({ ...filter, to: e.target.value || undefined })}
+                className="w-full px-2 py-1 rounded border"
+              />
+            </label>
+            <label className="space-y-1 col-span-full">
+              <span className="block">{t("csv.text")}</span>
+              <input
+                type="search"
+                value={filter.text ?? ""}
+                onChange={(e) => setFilter({ ...filter, text: e.target.value || undefined })}
+                placeholder={t("csv.textPlaceholder")}
+                className="w-full px-2 py-1 rounded border"
+              />
+            </label>
+          </div>
+          <div className="text-slate-500">{t("csv.count", { count })}</div>
+        </div>
+
+        <div className="flex gap-2 justify-end px-5 py-4 border-t border-slate-200 dark:border-slate-800">
+          <button
+            onClick={onClose}
+            className="px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800"
+          >
+            {t("common.cancel")}
+          </button>
+          <button
+            onClick={exportCsv}
+            disabled={count === 0}
+            className="px-3 py-2 rounded-lg bg-sky-700 text-white hover:opacity-90 disabled:opacity-50"
+          >
+            {t("csv.export")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+// File: CurrencyModal.tsx
+
+import { useState } from "react";
+import { COMMON_CURRENCIES, parseRate, parseRatesCsv, rebaseCurrency } from "../lib/currency";
+import { normalizeCurrencyCode, type CurrencySettings, type StorageAdapter } from "../lib/storage";
+import { getLocale } from "../lib/i18n";
+import { useModalHotkeys } from "../hooks/useModalHotkeys";
+import { useI18n } from "../hooks/useI18n";
+
+// rates are edited as text and only read back as numbers on save
+type RateRow = { code: string; rate: string };
+
+// with the decimal separator of the current language; parseRate reads either
+function rateText(rate: number) {
+  return getLocale() === "en" ? String(rate) : String(rate).replace(".", ",");
+}
+
+function toRows(settings: CurrencySettings): RateRow[] {
+  return Object.entries(settings.rates)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([code, rate]) => ({ code, rate: rateText(rate) }));
+}
+
+export function CurrencyModal({
+  current,
+  persist,
+  onClose,
+}: {
+  current: CurrencySettings;
+  persist: (change: (target: StorageAdapter) => Promise<unknown>) => Promise<boolean>;
+  onClose: () => void;
+}) {
+  const { t } = useI18n();
+  const [base, setBase] = useState(current.base);
+  const [rows, setRows] = useState<RateRow[]>(() => toRows(current));
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  // null while a row cannot be read; the message says which one
+  function readRows(): { settings: CurrencySettings | null; error: string | null } {
+    const rates: Record<string, number> = {};
+    for (const row of rows) {
+      if (!row.code.trim() && !row.rate.trim()) continue;
+      const code = normalizeCurrencyCode(row.code);
+      const rate = parseRate(row.rate);
+      if (!code) return { settings: null, error: t("currency.invalidCode", { code: row.code }) };
+      if (rate === null) return { settings: null, error: t("currency.invalidRate", { code }) };
+      if (code !== base) rates[code] = rate;
+    }
+    return { settings: { base, rates }, error: null };
+  }
+
+  function changeBase(next: string) {
+    const { settings, error } = readRows();
+    if (!settings) return alert(error);
+    const rebased = rebaseCurrency(settings, next);
+    if (!rebased) return alert(t("currency.baseWithoutRate", { code: next }));
+    setBase(next);
+    setRows(toRows(rebased));
+  }
+
+  async function importCsv(file: File | undefined) {
+    if (!file) return;
+    const { rates, errors } = parseRatesCsv(await file.text(), base);
+    const byCode = new Map(rows.filter((r) => r.code.trim()).map((r) => [r.code.trim().toUpperCase(), r]));
+    Object.entries(rates).forEach(([code, rate]) => byCode.set(code, { code, rate: rateText(rate) }));
+    setRows([...byCode.values()].sort((a, b) => a.code.localeCompare(b.code)));
+    setImportErrors(errors);
+  }
+
+  async function save() {
+    if (busy) return;
+    const { settings, error } = readRows();
+    if (!settings) return alert(error);
+    setBusy(true);
+    const done = await persist((s) => s.editCurrency(settings));
+    setBusy(false);
+    if (done) onClose();
+  }
+
+  useModalHotkeys({ onCancel: onClose, onConfirm: save });
+
+  const baseOptions = [...new Set([...COMMON_CURRENCIES, base, ...rows.map((r) => r.code.trim().toUpperCase()).filter(Boolean)])];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-3" role="dialog" aria-modal>
+      <div className="w-full max-w-lg rounded-2xl border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 shadow-2xl overflow-hidden">
+        <div className="px-5 py-4 border-b border-slate-200 dark:border-slate-800">
+          <h3 className="text-lg font-semibold">{t("currency.title")}</h3>
+          <p className="text-sm text-slate-500">{t("currency.subtitle")}</p>
+        </div>
+
+        <div className="p-5 space-y-4 max-h-[60vh] overflow-auto text-sm">
+          <label className="flex items-center gap-2">
+            {t("currency.base")}
+            <select
+              value={base}
+              onChange={(e) => changeBase(e.target.value)}
+              className="px-2 py-1 rounded border bg-white dark:bg-slate-800"
+            >
+              {baseOptions.map((code) => (
+                <option key={code} value={code}>
+                  {code}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <div className="space-y-2">
+            {rows.length === 0 && <div className="text-slate-500">{t("currency.noRates")}</div>}
+            {rows.map((row, i) => (
+              <div key={i} className="flex items-center gap-2">
+                <span>1</span>
+                <input
+                  value={row.code}
+                  onChange={(e) => setRows(rows.map((r, j) => (j === i ? { ...r, code: e.target.value.toUpperCase() } : r)))}
+                  placeholder="USD"
+                  maxLength={3}
+                  aria-label={t("currency.code")}
+                  className="w-16 px-2 py-1 rounded border uppercase"
+                />
+                <span>=</span>
+                <input
+                  value={row.rate}
+                  onChange={(e) => setRows(rows.map((r, j) => (j === i ? { ...r, rate: e.target.value } : r)))}
+                  placeholder={rateText(5.25)}
+                  inputMode="decimal"
+                  aria-label={t("currency.rateIn", { code: base })}
+                  className="w-28 px-2 py-1 rounded border"
+                />
+                <span>{base}</span>
+                <button
+                  onClick={() => setRows(rows.filter((_, j) => j !== i))}
+                  className="ml-auto px-2 py-1 rounded border border-slate-300 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800"
+                >
+                  {t("common.remove")}
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => setRows([...rows, { code: "", rate: "" }])}
+              className="px-3 py-1 rounded-lg border border-slate-300 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800"
+            >
+              {t("currency.addRate")}
+            </button>
+          </div>
+
+          <div className="space-y-1">
+            <div>{t("currency.importCsv", { code: base })}</div>
+            <input type="file" accept=".csv,.txt,text/csv" onChange={(e) => importCsv(e.target.files?.[0])} />
+            {importErrors.length > 0 && (
+              <ul className="list-disc pl-5 text-amber-600">
+                {importErrors.map((error, i) => (
+                  <li key={i}>{error}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        <div className="flex gap-2 justify-end px-5 py-4 border-t border-slate-200 dark:border-slate-800">
+          <button
+            onClick={onClose}
+            className="px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800"
+          >
+            {t("common.cancel")}
+          </button>
+          <button
+            onClick={save}
+            disabled={busy}
+            className="px-3 py-2 rounded-lg bg-sky-700 text-white hover:opacity-90 disabled:opacity-50"
+          >
+            {t("common.save")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+// File: DataMenu.tsx
+
+import { useState } from "react";
+import { Database } from "lucide-react";
+import { Button } from "./ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "./ui/dropdown-menu";
+import { MigrationReportModal } from "./MigrationReportModal";
+import { IntegrityModal } from "./IntegrityModal";
+import { ActivityModal } from "./ActivityModal";
+import { TrashModal } from "./TrashModal";
+import { BackupImportModal } from "./BackupImportModal";
+import { CsvExportModal } from "./CsvExportModal";
+import { StatementImportModal } from "./StatementImportModal";
+import { CurrencyModal } from "./CurrencyModal";
+import { createBackup } from "../lib/backup";
+import { downloadFile, exportFileName } from "../lib/utils";
+import { useI18n } from "../hooks/useI18n";
+import type { BoardSnapshot, StorageAdapter, TreeBackend } from "../lib/storage";
+
+type Tool = "migrations" | "integrity" | "activity" | "trash" | "import" | "csv" | "statement" | "currency";
+
+// board-level data tools; each entry opens its own modal. Tools reading the raw server tree are
+// disabled offline; the trash, which the offline store keeps too, and backups work on whatever the board currently shows
+export function DataMenu({
+  remote,
+  current,
+  offline,
+  persist,
+  snapshot,
+  boardName,
+}: {
+  remote: TreeBackend;
+  current: TreeBackend;
+  offline: boolean;
+  persist: (change: (target: StorageAdapter) => Promise<unknown>) => Promise<boolean>;
+  snapshot: () => BoardSnapshot;
+  boardName?: string;
+}) {
+  const { t } = useI18n();
+  const [tool, setTool] = useState<Tool | null>(null);
+
+  function exportBackup() {
+    const backup = createBackup(snapshot(), boardName);
+    downloadFile(exportFileName(boardName, "json"), JSON.stringify(backup, null, 2), "application/json");
+  }
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="icon" aria-label={t("data.menu")} title={t("data.menu")}>
+            <Database className="w-4 h-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem disabled={offline} onClick={() => setTool("activity")}>
+            {t("data.activity")}
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setTool("trash")}>{t("data.trash")}</DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setTool("currency")}>{t("data.currency")}</DropdownMenuItem>
+          <DropdownMenuItem disabled={offline} onClick={() => setTool("integrity")}>
+            {t("data.integrity")}
+          </DropdownMenuItem>
+          <DropdownMenuItem disabled={offline} onClick={() => setTool("migrations")}>
+            {t("data.migrations")}
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={exportBackup}>{t("data.exportBackup")}</DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setTool("import")}>{t("data.importBackup")}</DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setTool("csv")}>{t("data.exportCsv")}</DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => setTool("statement")}>{t("data.importStatement")}</DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {tool === "migrations" && <MigrationReportModal backend={remote} onClose={() => setTool(null)} />}
+      {tool === "integrity" && <IntegrityModal backend={remote} persist={persist} onClose={() => setTool(null)} />}
+      {tool === "activity" && <ActivityModal backend={remote} onClose={() => setTool(null)} />}
+      {tool === "trash" && <TrashModal backend={current} persist={persist} onClose={() => setTool(null)} />}
+      {tool === "import" && <BackupImportModal current={snapshot} persist={persist} onClose={() => setTool(null)} />}
+      {tool === "csv" && (
+        <CsvExportModal snapshot={snapshot()} fileName={exportFileName(boardName, "csv")} onClose={() => setTool(null)} />
+      )}
+      {tool === "currency" && (
+        <CurrencyModal current={snapshot().currency} persist={persist} onClose={() => setTool(null)} />
+      )}
+      {tool === "statement" && (
+        <StatementImportModal snapshot={snapshot()} persist={persist} onClose={() => setTool(null)} />
+      )}
+    </>
+  );
+}
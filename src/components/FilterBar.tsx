@@ -0,0 +1,167 @@
+// File: FilterBar.tsx
+
+import { useEffect, useRef, useState } from "react";
+import { Filter, X } from "lucide-react";
+import { CARD_SCOPE_LABELS, EMPTY_CARD_FILTER, isFilterActive, type CardFilter, type CardScope, type FilterMode } from "../lib/cardFilter";
+import { formatMoney, moneyToInput, parseMoneyInput, type Money } from "../lib/money";
+import type { ConvertedTotal } from "../lib/currency";
+import type { Place } from "../lib/storage";
+import { MoneyInput } from "./MoneyInput";
+import { Button } from "./ui/button";
+import { useI18n } from "../hooks/useI18n";
+
+function amountText(amount: Money | null) {
+  return amount === null ? "" : moneyToInput(amount);
+}
+
+// the text search stays in the toolbar; amounts, dates, kind, place and the dim/hide switch open below it
+export function FilterBar({
+  filter,
+  mode,
+  places,
+  baseCurrency,
+  matched,
+  onChange,
+  onModeChange,
+}: {
+  filter: CardFilter;
+  mode: FilterMode;
+  places: Place[];
+  baseCurrency: string;
+  // the cards the filter lets through and their balance in the base currency
+  matched: { count: number; of: number; balance: ConvertedTotal };
+  onChange: (filter: CardFilter) => void;
+  onModeChange: (mode: FilterMode) => void;
+}) {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [minText, setMinText] = useState(() => amountText(filter.minAmount));
+  const [maxText, setMaxText] = useState(() => amountText(filter.maxAmount));
+  const panelRef = useRef<HTMLDivElement>(null);
+  const active = isFilterActive(filter);
+
+  // a click anywhere else closes the panel
+  useEffect(() => {
+    if (!open) return;
+    function handler(e: PointerEvent) {
+      if (!panelRef.current?.contains(e.target as Node)) setOpen(false);
+    }
+    window.addEventListener("pointerdown", handler);
+    return () => window.removeEventListener("pointerdown", handler);
+  }, [open]);
+
+  // a bound that does not parse yet leaves the filter as it was until it does
+  function changeAmount(bound: "minAmount" | "maxAmount", text: string) {
+    (bound === "minAmount" ? setMinText : setMaxText)(text);
+    if (!text.trim()) return onChange({ ...filter, [bound]: null });
+    try {
+      onChange({ ...filter, [bound]: parseMoneyInput(text) });
+    } catch {
+      // MoneyInput shows the error
+    }
+  }
+
+  function clear() {
+    setMinText("");
+    setMaxText("");
+    onChange(EMPTY_CARD_FILTER);
+  }
+
+  const fieldStyle = "w-full px-2 py-1 rounded border bg-white dark:bg-slate-800";
+
+  return (
+    <div ref={panelRef} className="relative flex items-center gap-1">
+      <input
+        type="search"
+        value={filter.text}
+        onChange={(e) => onChange({ ...filter, text: e.target.value })}
+        placeholder={t("filter.searchPlaceholder")}
+        aria-label={t("filter.search")}
+        className="border rounded px-2 py-1 w-32 lg:w-48"
+      />
+      <Button
+        variant={active ? "default" : "outline"}
+        size="icon"
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        aria-label={t("filter.open")}
+        title={t("filter.open")}
+      >
+        <Filter className="w-4 h-4" />
+      </Button>
+      {active && (
+        <Button variant="outline" size="icon" onClick={clear} aria-label={t("filter.clear")} title={t("filter.clear")}>
+          <X className="w-4 h-4" />
+        </Button>
+      )}
+
+      {open && (
+        <div className="absolute top-full right-0 mt-2 z-30 w-80 p-4 space-y-3 rounded-xl border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 shadow-2xl text-sm text-left">
+          <div className="grid grid-cols-2 gap-2">
+            <label>
+              <span className="block mb-1">{t("filter.minAmount", { currency: baseCurrency })}</span>
+              <MoneyInput className={fieldStyle} value={minText} onChange={(text) => changeAmount("minAmount", text)} currency={baseCurrency} />
+            </label>
+            <label>
+              <span className="block mb-1">{t("filter.maxAmount", { currency: baseCurrency })}</span>
+              <MoneyInput className={fieldStyle} value={maxText} onChange={(text) => changeAmount("maxAmount", text)} currency={baseCurrency} />
+            </label>
+            <label>
+              <span className="block mb-1">{t("filter.from")}</span>
+              <input type="date" value={filter.from} onChange={(e) => onChange({ ...filter, from: e.target.value })} className={fieldStyle} />
+            </label>
+            <label>
+              <span className="block mb-1">{t("filter.to")}</span>
+              <input type="date" value={filter.to} onChange={(e) => onChange({ ...filter, to: e.target.value })} className={fieldStyle} />
+            </label>
+          </div>
+
+          <label className="block">
+            <span className="block mb-1">{t("filter.scope")}</span>
+            <select value={filter.scope} onChange={(e) => onChange({ ...filter, scope: e.target.value as CardScope })} className={fieldStyle}>
+              {(Object.keys(CARD_SCOPE_LABELS) as CardScope[]).map((scope) => (
+                <option key={scope} value={scope}>
+                  {t(CARD_SCOPE_LABELS[scope])}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block">
+            <span className="block mb-1">{t("filter.place")}</span>
+            <select
+              value={filter.placeId ?? ""}
+              onChange={(e) => onChange({ ...filter, placeId: e.target.value || null })}
+              className={fieldStyle}
+            >
+              <option value="">{t("filter.anyPlace")}</option>
+              {places.map((place) => (
+                <option key={place.id} value={place.id}>
+                  {place.name}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={mode === "hide"} onChange={(e) => onModeChange(e.target.checked ? "hide" : "dim")} />
+            {t("filter.hide")}
+          </label>
+
+          <p className="text-slate-500">{t("filter.amountHint", { currency: baseCurrency })}</p>
+        </div>
+      )}
+
+      {active && (
+        <span
+          className="text-xs text-gray-500 whitespace-nowrap"
+          title={matched.balance.missing.length > 0 ? t("currency.missingRates", { codes: matched.balance.missing.join(", ") }) : undefined}
+        >
+          {t("filter.matched", { count: matched.count, total: matched.of })} ·{" "}
+          {formatMoney(matched.balance.total, baseCurrency)}
+          {matched.balance.missing.length > 0 ? " *" : ""}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+// File: IntegrityModal.tsx
+
+import { useEffect, useState } from "react";
+import {
+  applyRepair,
+  scanIntegrity,
+  type IntegrityIssue,
+  type IntegrityRepair,
+} from "../lib/integrity";
+import type { StorageAdapter, TreeBackend } from "../lib/storage";
+import type { MessageKey } from "../lib/i18n";
+import { useModalHotkeys } from "../hooks/useModalHotkeys";
+import { useI18n } from "../hooks/useI18n";
+
+type Tree = Record<string, unknown>;
+type Persist = (change: (target: StorageAdapter) => Promise<unknown>) => Promise<boolean>;
+type Option = { id: string; label: string };
+
+const REPAIR_LABELS: Record<IntegrityRepair, MessageKey> = {
+  reassign: "integrity.repair.reassign",
+  delete: "common.delete",
+  "clear-reference": "integrity.repair.clearReference",
+  "remove-from-order": "integrity.repair.removeFromOrder",
+  "add-to-order": "integrity.repair.addToOrder",
+};
+
+function options(tree: Tree | null, collection: "columns" | "places"): Option[] {
+  const value = (tree?.[collection] ?? {}) as Record<string, { title?: string; name?: string }>;
+  return Object.entries(value).map(([id, item]) => ({ id, label: item?.title ?? item?.name ?? id }));
+}
+
+function IssueRow({
+  issue,
+  targets,
+  busy,
+  onRepair,
+}: {
+  issue: IntegrityIssue;
+  targets: Option[];
+  busy: boolean;
+  onRepair: (repair: IntegrityRepair, reassignTo?: string) => void;
+}) {
+  const { t } = useI18n();
+  const [reassignTo, setReassignTo] = useState(targets[0]?.id ?? "");
+
+  return (
+    <div className="rounded-xl border border-slate-200 dark:border-slate-800 p-3 space-y-2">
+      <div className="text-sm">{issue.message}</div>
+      <div className="flex flex-wrap items-center gap-2">
+        {issue.repairs.map((repair) =>
+          repair === "reassign" ? (
+            <div key={repair} className="flex items-center gap-1">
+              <select
+                value={reassignTo}
+                onChange={(e) => setReassignTo(e.target.value)}
+                className="px-2 py-1 rounded border bg-white dark:bg-slate-800 text-sm"
+                disabled={targets.length === 0}
+              >
+                {targets.map((target) => (
+                  <option key={target.id} value={target.id}>
+                    {target.label}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => onRepair(repair, reassignTo)}
+                disabled={busy || !reassignTo}
+                className="px-2 py-1 rounded border text-sm hover:bg-slate-50 dark:hover:bg-slate-800 disabled:opacity-50"
+              >
+                {t(REPAIR_LABELS[repair])}
+              </button>
+            </div>
+          ) : (
+            <button
+              key={repair}
+              onClick={() => onRepair(repair)}
+              disabled={busy}
+              className={`px-2 py-1 rounded border text-sm disabled:opacity-50 ${repair === "delete" ? "text-rose-600 hover:bg-rose-50 dark:hover:bg-rose-950" : "hover:bg-slate-50 dark:hover:bg-slate-800"
+                }`}
+            >
+              {t(REPAIR_LABELS[repair])}
+            </button>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function IntegrityModal({ backend, persist, onClose }: { backend: TreeBackend; persist: Persist; onClose: () => void }) {
+  const { t } = useI18n();
+  const [tree, setTree] = useState<Tree | null>(null);
+  const [issues, setIssues] = useState<IntegrityIssue[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  async function scan() {
+    setError(null);
+    try {
+      const current = (await backend.read("")) as Tree | null;
+      setTree(current);
+      setIssues(scanIntegrity(current));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  useEffect(() => {
+    scan();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [backend]);
+
+  async function repair(issue: IntegrityIssue, action: IntegrityRepair, reassignTo?: string) {
+    setBusy(true);
+    try {
+      await persist((s) => applyRepair(backend, s, issue, action, reassignTo));
+      await scan();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  useModalHotkeys({ onCancel: onClose, onConfirm: onClose });
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-3" role="dialog" aria-modal>
+      <div className="w-full max-w-2xl rounded-2xl border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 shadow-2xl overflow-hidden">
+        <div className="px-5 py-4 border-b border-slate-200 dark:border-slate-800">
+          <h3 className="text-lg font-semibold">{t("integrity.title")}</h3>
+          <p className="text-sm text-slate-500">{t("integrity.subtitle")}</p>
+        </div>
+
+        <div className="p-5 space-y-3 max-h-[60vh] overflow-auto">
+          {error && <div className="text-sm text-rose-600">{error}</div>}
+          {!issues && !error && <div className="text-sm text-slate-500">{t("integrity.scanning")}</div>}
+          {issues && issues.length === 0 && <div className="text-sm text-emerald-600">{t("integrity.clean")}</div>}
+
+          {issues?.map((issue) => (
+            <IssueRow
+              key={issue.key}
+              issue={issue}
+              targets={options(tree, issue.kind === "orphan-task" ? "columns" : "places")}
+              busy={busy}
+              onRepair={(action, reassignTo) => repair(issue, action, reassignTo)}
+            />
+          ))}
+        </div>
+
+        <div className="flex gap-2 justify-end px-5 py-4 border-t border-slate-200 dark:border-slate-800">
+          <button
+            onClick={() => scan()}
+            disabled={busy}
+            className="px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800 disabled:opacity-50"
+          >
+            {t("integrity.rescan")}
+          </button>
+          <button onClick={onClose} className="px-3 py-2 rounded-lg bg-sky-700 text-white hover:opacity-90">
+            {t("common.close")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
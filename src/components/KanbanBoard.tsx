@@ -1,11 +1,12 @@
 // File: KanbanBoard.tsx
 
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { createPortal } from "react-dom";
 
 import { BoardColumn, BoardContainer, type Column } from "./BoardColumn";
 import {
   DndContext,
+  type DragCancelEvent,
   type DragEndEvent,
   type DragOverEvent,
   DragOverlay,
@@ -23,64 +24,48 @@ import { type Task, TaskCard } from "./TaskCard";
 import { hasDraggableData } from "./utils";
 import { coordinateGetter } from "./multipleContainersKeyboardPreset";
 
-import * as db from "../lib/db";
-import { PiggyBank } from "lucide-react";
+import {
+  DEFAULT_CURRENCY_SETTINGS,
+  DEFAULT_SORT_MODE,
+  DEFAULT_TAG_COLOR,
+  genId,
+  normalizePlace,
+  type BoardSnapshot,
+  type CardDetails,
+  type CurrencySettings,
+  type Place,
+  type Schedule,
+  type Tag,
+  type TaskKind,
+  type TaskSortMode,
+} from "../lib/storage";
+import { cardCurrency, columnCurrency, sumConverted, type ConvertedTotal } from "../lib/currency";
+import { sortTasks } from "../lib/sorting";
+import { isProjection, signedAmount, taskKind } from "../lib/taskKinds";
+import { tagsOf } from "../lib/tags";
+import { EMPTY_CARD_FILTER, isFilterActive, taskMatchesFilter, type CardFilter, type FilterMode } from "../lib/cardFilter";
+import { useBoardStorage } from "../hooks/useBoardStorage";
+import { formatMoney, moneyToInput, parseMoneyInput, type Money } from "../lib/money";
+import { SyncConflictModal } from "./SyncConflictModal";
+import { DataMenu } from "./DataMenu";
+import { MoneyInput } from "./MoneyInput";
+import { Button } from "./ui/button";
+import { UndoToast } from "./UndoToast";
+import { TagManagerModal } from "./TagManagerModal";
+import { ScheduleModal } from "./ScheduleModal";
+import { FilterBar } from "./FilterBar";
+import { DESTRUCTIVE_OPS } from "../lib/activity";
+import { formatDateTime } from "../lib/i18n";
+import { useI18n } from "../hooks/useI18n";
+import { PiggyBank, Redo2, Tags, Undo2 } from "lucide-react";
 
 export type ColumnId = Column["id"] | string;
 
-type Place = {
-  id: string;
-  name: string;
-  color: string;
-  expectedValue?: number | null;
-  dateTimeISO?: string | null;
-};
-
-const DEFAULT_COLUMNS: Column[] = [
-  { id: "col-1", title: "A Fazer" },
-  { id: "col-2", title: "Fazendo" },
-  { id: "col-3", title: "Feito" },
-];
-
-function parseCurrencyInput(input: string): number {
-  const s = String(input).trim();
-  if (!s) throw new Error("Entrada vazia");
-
-  const hasComma = s.includes(",");
-  const hasDot = s.includes(".");
-
-  let normalized = s;
-
-  if (hasComma && hasDot) {
-    if (s.lastIndexOf(",") > s.lastIndexOf(".")) {
-      normalized = s.replace(/\./g, "").replace(/,/g, ".");
-    } else {
-      normalized = s.replace(/,/g, "");
-    }
-  } else if (hasComma) {
-    normalized = s.replace(/,/g, ".");
-  }
-
-  if (!/^\d+(?:\.\d+)?$/.test(normalized)) {
-    throw new Error("Formato numérico inválido");
-  }
-
-  const parts = normalized.split(".");
-  if (parts[1] && parts[1].length > 2) {
-    throw new Error("Apenas até 2 casas decimais");
-  }
-
-  const finalStr =
-    parts.length === 1
-      ? `${parts[0]}.00`
-      : parts[1].length === 1
-        ? `${parts[0]}.${parts[1]}0`
-        : normalized;
-
-  const n = Math.round(Number(finalStr) * 100) / 100;
-  if (Number.isNaN(n)) throw new Error("Número inválido");
-  return n;
-}
+const DEFAULT_COLUMNS = [
+  { id: "col-1", titleKey: "board.defaultColumn.todo" },
+  { id: "col-2", titleKey: "board.defaultColumn.doing" },
+  { id: "col-3", titleKey: "board.defaultColumn.done" },
+] as const;
 
 function toDateTimeLocalInputValue(iso?: string | null): string {
   if (!iso) return "";
@@ -99,25 +84,37 @@ function fromDateTimeLocalInputValue(value: string): string | null {
   return date.toISOString();
 }
 
-function formatDateTime(iso?: string | null): string {
-  if (!iso) return "Sem data/hora";
-  const date = new Date(iso);
-  if (Number.isNaN(date.getTime())) return "Data inválida";
-  return new Intl.DateTimeFormat("pt-BR", {
-    dateStyle: "short",
-    timeStyle: "short",
-  }).format(date);
-}
-
-export function KanbanBoard() {
+export function KanbanBoard({ uid, boardId, boardName }: { uid: string; boardId: string; boardName?: string }) {
+  const { t } = useI18n();
   const [columns, setColumns] = useState<Column[]>([]);
   const [tasks, setTasks] = useState<Task[]>([]);
+  const [tasksOrder, setTasksOrder] = useState<Record<string, string[]>>({});
+  // the last snapshot as received, for exports and imports
+  const lastSnapshot = useRef<BoardSnapshot>({
+    columns: [],
+    columnsOrder: [],
+    tasks: [],
+    places: [],
+    placesOrder: [],
+    tags: [],
+    schedules: [],
+    tasksOrder: {},
+    currency: DEFAULT_CURRENCY_SETTINGS,
+  });
   const [places, setPlaces] = useState<Place[]>([]);
+  const [currencySettings, setCurrencySettings] = useState<CurrencySettings>(DEFAULT_CURRENCY_SETTINGS);
   const [hoveredPlaceId, setHoveredPlaceId] = useState<string | null>(null);
-  const [testMode, setTestMode] = useState(false);
   const [showPlacesModal, setShowPlacesModal] = useState(false);
   const [placesModalInitialPlaceId, setPlacesModalInitialPlaceId] = useState<string | null>(null);
   const [selectedPlaceIds, setSelectedPlaceIds] = useState<string[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
+  // the search and filter bar, with the tag bar picking its tags
+  const [filter, setFilter] = useState<CardFilter>(EMPTY_CARD_FILTER);
+  const [filterMode, setFilterMode] = useState<FilterMode>("dim");
+  const [showTagsModal, setShowTagsModal] = useState(false);
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  // the column whose schedules are open
+  const [scheduleColumnId, setScheduleColumnId] = useState<ColumnId | null>(null);
 
   const pickedUpTaskColumn = useRef<ColumnId | null>(null);
   const columnsId = useMemo(() => columns.map((col) => col.id), [columns]);
@@ -132,321 +129,213 @@ export function KanbanBoard() {
     })
   );
 
-  // local in-memory helpers for test mode
-  function uid(prefix = "id") {
-    return `${prefix}-${Date.now()}-${Math.floor(Math.random() * 10000)}`;
-  }
-
-  function round2(n: number) {
-    return Math.round(n * 100) / 100;
-  }
-
-  function enterTestMode() {
-    console.warn("Entering test mode: Firestore inaccessible. Data will not be saved.");
-    setTestMode(true);
-    setColumns(DEFAULT_COLUMNS);
-    setTasks([]);
-  }
-
-  // local operations mirror the db.* API used in this component
-  function localAddColumn(title: string) {
-    const newCol: Column = { id: uid("col"), title };
-    setColumns((c) => [...c, newCol]);
-  }
-
-  function localRemoveColumn(id: string) {
-    setColumns((cols) => cols.filter((c) => c.id !== id));
-    setTasks((ts) => ts.filter((t) => t.columnId !== id));
-  }
-
-  function localAddTask(payload: { columnId: string; content: number; dateISO: string; isProjection?: boolean }) {
-    const newTask: Task = {
-      id: uid("task"),
-      columnId: payload.columnId,
-      content: round2(payload.content),
-      dateISO: payload.dateISO,
-      isProjection: !!payload.isProjection,
-    };
-    setTasks((ts) => [...ts, newTask]);
-  }
-
-  function localRemoveTask(taskId: string) {
-    setTasks((ts) => ts.filter((t) => t.id !== taskId));
-  }
-
-  function localTransferTask(taskId: string, amount: number, targetColumnId: string, dateISO?: string | null) {
-    setTasks((ts) => {
-      const tasksCopy = ts.slice();
-      const idx = tasksCopy.findIndex((t) => t.id === taskId);
-      const nowISO = dateISO ?? new Date().toISOString();
+  const {
+    remote,
+    current,
+    offlineMode,
+    queuedWrites,
+    syncing,
+    conflict,
+    persist,
+    lastChange,
+    canUndo,
+    canRedo,
+    undo,
+    redo,
+    syncNow,
+    resolveConflict,
+  } = useBoardStorage({
+    uid,
+    boardId,
+    // a new board gets its first lists named in the language in use
+    seed: () => ({ columns: DEFAULT_COLUMNS.map(({ id, titleKey }) => ({ id, title: t(titleKey) })), places }),
+    onSnapshot: (snapshot) => {
+      lastSnapshot.current = snapshot;
+      setColumns(snapshot.columns);
+
+      const mappedTasks: Task[] = snapshot.tasks.map((task) => ({
+        id: task.id,
+        columnId: task.columnId,
+        content: task.content,
+        dateISO: task.dateISO ?? undefined,
+        kind: taskKind(task),
+        currency: task.currency,
+        description: task.description ?? undefined,
+        notes: task.notes ?? undefined,
+        tagIds: task.tagIds ?? undefined,
+      }));
+      setTasks(mappedTasks);
+      setTasksOrder(snapshot.tasksOrder);
+      setCurrencySettings(snapshot.currency);
+      setPlaces(snapshot.places.filter((p) => p.name.trim()));
+      setTags(snapshot.tags);
+      setSchedules(snapshot.schedules);
+      // a deleted tag drops out of the filter
+      setFilter((curr) =>
+        curr.tagIds.every((id) => snapshot.tags.some((tag) => tag.id === id))
+          ? curr
+          : { ...curr, tagIds: curr.tagIds.filter((id) => snapshot.tags.some((tag) => tag.id === id)) }
+      );
+    },
+  });
 
-      if (idx === -1) {
-        // just create a new task in target
-        tasksCopy.push({ id: uid("task"), columnId: targetColumnId, content: round2(amount), dateISO: nowISO, isProjection: false });
-        return tasksCopy;
-      }
+  // a toast for each new destructive change; undoing back to an older one does not bring its toast back
+  const [toast, setToast] = useState<typeof lastChange>(null);
+  const toastedIds = useRef(new Set<string>());
+  useEffect(() => {
+    if (!lastChange || toastedIds.current.has(lastChange.id)) return;
+    toastedIds.current.add(lastChange.id);
+    setToast(DESTRUCTIVE_OPS.includes(lastChange.op) ? lastChange : null);
+  }, [lastChange]);
 
-      const original = { ...tasksCopy[idx] };
-      // subtract amount from original, remove if <= 0
-      const remaining = round2(Number(original.content) - amount);
+  // Ctrl+Z undoes, Ctrl+Shift+Z (or Ctrl+Y) redoes; fields keep their own text undo
+  useEffect(() => {
+    function handler(e: KeyboardEvent) {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target?.closest("input, textarea, select, [contenteditable='true']")) return;
 
-      if (remaining > 0) {
-        tasksCopy[idx] = { ...original, content: remaining };
-      } else {
-        tasksCopy.splice(idx, 1);
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        redo();
       }
-      // create new task in target
-      tasksCopy.push({ id: uid("task"), columnId: targetColumnId, content: round2(amount), dateISO: nowISO, isProjection: false });
-      return tasksCopy;
-    });
-  }
-
-  function localEditTask(taskId: string, patch: Partial<{ content: number; dateISO: string | null; columnId: string; isProjection: boolean }>) {
-    setTasks((ts) =>
-      ts.map((t) =>
-        t.id === taskId
-          ? {
-            ...t,
-            ...(patch.content !== undefined ? { content: round2(patch.content) } : {}),
-            ...(patch.dateISO !== undefined ? { dateISO: patch.dateISO ?? undefined } : {}),
-            ...(patch.columnId ? { columnId: patch.columnId } : {}),
-            ...(patch.isProjection !== undefined ? { isProjection: !!patch.isProjection } : {}),
-          }
-          : t
-      )
-    );
-  }
-
-  function localUpdateColumnsOrder(newOrder: UniqueIdentifier[]) {
-    setColumns((cols) => {
-      const map = new Map(cols.map((c) => [c.id, c]));
-      return newOrder.map((id) => map.get(id)).filter(Boolean) as Column[];
-    });
-  }
-
-  // local update for column.meta
-  function localUpdateColumnMeta(id: string | ColumnId, meta: number | null | undefined) {
-    setColumns((cols) => cols.map((c) => (c.id === String(id) ? { ...c, meta: meta ?? undefined } : c)));
-  }
-
-  function normalizePlace(raw: any): Place {
-    return {
-      id: String(raw?.id ?? uid("place")),
-      name: String(raw?.name ?? ""),
-      color: String(raw?.color ?? "#06b6d4"),
-      expectedValue:
-        raw?.expectedValue === undefined || raw?.expectedValue === null || raw?.expectedValue === ""
-          ? null
-          : Number(raw.expectedValue) || null,
-      dateTimeISO:
-        raw?.dateTimeISO === undefined || raw?.dateTimeISO === null || raw?.dateTimeISO === ""
-          ? null
-          : String(raw.dateTimeISO),
-    };
-  }
-
-  // subscribe to DB (or fall back to test-mode)
-  useEffect(() => {
-    let unsub: (() => void) | undefined;
-
-    try {
-      unsub = db.subscribeAll((snapshot: any) => {
-        const cols = Array.isArray(snapshot?.columns) ? snapshot.columns : [];
-        const ts = Array.isArray(snapshot?.tasks) ? snapshot.tasks : [];
-        const pls = Array.isArray(snapshot?.places) ? snapshot.places : [];
-
-        setColumns(cols as any);
-
-        const mappedTasks: Task[] = ts.map((t: any) => ({
-          id: t.id,
-          columnId: t.columnId,
-          content: typeof t.content === "number" ? t.content : Number(t.content) || 0,
-          dateISO: t.dateISO ?? undefined,
-          isProjection: !!t.isProjection,
-        }));
-        setTasks(mappedTasks);
-        setPlaces(pls.map(normalizePlace).filter((p: Place) => p.name.trim()));
-      });
-    } catch (err) {
-      console.error("Failed to connect to Firestore, entering test mode:", err);
-      enterTestMode();
     }
 
-    return () => {
-      try {
-        if (unsub) unsub();
-      } catch (e) {
-        console.error("Error clearing subscription:", e);
-      }
-    };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+    window.addEventListener("keydown", handler);
+    return () => window.removeEventListener("keydown", handler);
+  }, [undo, redo]);
 
-  // helpers that try real DB first, but fall back to test-mode on error
   async function addColumn(title: string) {
-    if (testMode) {
-      localAddColumn(title);
-      return;
-    }
-    try {
-      await db.addColumn(title);
-    } catch (err) {
-      console.error(err);
-      // switch to test-mode and apply change locally so the user can keep working
-      enterTestMode();
-      localAddColumn(title);
-      alert("Erro ao acessar Firestore. Entrando em modo de teste. Os dados não serão salvos permanentemente.");
-    }
+    await persist((s) => s.addColumn(title));
   }
 
   async function removeColumn(id: ColumnId) {
-    if (testMode) {
-      localRemoveColumn(String(id));
-      return;
-    }
-    try {
-      await db.removeColumn(String(id));
-    } catch (err) {
-      console.error(err);
-      enterTestMode();
-      localRemoveColumn(String(id));
-      alert("Erro ao acessar Firestore. Entrando em modo de teste. Os dados não serão salvos permanentemente.");
-    }
+    await persist((s) => s.removeColumn(String(id)));
   }
 
-  async function addTask(columnId: ColumnId, amount: number, dateISO?: string | null, isProjection: boolean = false) {
+  async function addTask(
+    columnId: ColumnId,
+    amount: Money,
+    dateISO?: string | null,
+    kind: TaskKind = "deposit",
+    details: CardDetails = {}
+  ) {
     if (isNaN(amount) || amount <= 0) {
-      alert("Informe um valor maior que zero");
+      alert(t("board.amountRequired"));
       return;
     }
 
-    if (testMode) {
-      localAddTask({ columnId: columnId as string, content: amount, dateISO: dateISO ?? new Date().toISOString(), isProjection });
-      return;
-    }
-
-    try {
-      await db.addTask({
-        columnId: columnId as string,
-        content: Math.round(amount * 100) / 100,
+    await persist((s) =>
+      s.addTask({
+        columnId: String(columnId),
+        content: amount,
         dateISO: dateISO ?? new Date().toISOString(),
-        isProjection,
-      });
-    } catch (err) {
-      console.error(err);
-      enterTestMode();
-      localAddTask({ columnId: columnId as string, content: amount, dateISO: dateISO ?? new Date().toISOString(), isProjection });
-      alert("Erro ao acessar Firestore. Entrando em modo de teste. Os dados não serão salvos permanentemente.");
-    }
+        kind,
+        currency: columnCurrency(columns.find((c) => c.id === columnId)),
+        ...details,
+      })
+    );
+  }
+
+  async function addProjections(columnId: ColumnId, projections: { amount: Money; dateISO: string }[]) {
+    if (projections.length === 0) return;
+    const currency = columnCurrency(columns.find((c) => c.id === columnId));
+    await persist((s) =>
+      s.addTasks(
+        projections.map((p) => ({ columnId: String(columnId), content: p.amount, dateISO: p.dateISO, kind: "projection", currency }))
+      )
+    );
   }
 
   async function removeTask(taskId: string) {
-    if (testMode) {
-      localRemoveTask(taskId);
-      return;
-    }
-    try {
-      await db.removeTask(taskId);
-    } catch (err) {
-      console.error(err);
-      enterTestMode();
-      localRemoveTask(taskId);
-      alert("Erro ao acessar Firestore. Entrando em modo de teste. Os dados não serão salvos permanentemente.");
-    }
+    await persist((s) => s.removeTask(taskId));
   }
 
-  async function transferTask(taskId: UniqueIdentifier, amount: number, targetColumnId: ColumnId, dateISO?: string | null) {
+  async function transferTask(
+    taskId: UniqueIdentifier,
+    amount: Money,
+    targetColumnId: ColumnId,
+    dateISO?: string | null,
+    expectedContent?: Money
+  ) {
     if (isNaN(amount) || amount <= 0) {
-      alert("Informe um valor maior que zero para transferir");
+      alert(t("board.transferAmountRequired"));
       return;
     }
 
-    if (testMode) {
-      localTransferTask(String(taskId), amount, String(targetColumnId), dateISO);
-      return;
-    }
-
-    try {
-      await db.transferTask(String(taskId), amount, String(targetColumnId), dateISO);
-    } catch (err: any) {
-      console.error(err);
-      enterTestMode();
-      localTransferTask(String(taskId), amount, String(targetColumnId), dateISO);
-      alert(err?.message ?? "Erro ao transferir. Entrando em modo de teste. Os dados não serão salvos permanentemente.");
-    }
+    await persist((s) => s.transferTask(String(taskId), amount, String(targetColumnId), dateISO, expectedContent), {
+      failureMessage: t("board.transferFailed"),
+    });
   }
 
+  // a projection that came true is money put in
   async function toggleProjection(taskId: UniqueIdentifier) {
-    if (testMode) {
-      localEditTask(String(taskId), { isProjection: false });
-      return;
-    }
-    try {
-      await db.editTask(String(taskId), { isProjection: false });
-    } catch (err) {
-      console.error(err);
-      enterTestMode();
-      localEditTask(String(taskId), { isProjection: false });
-      alert("Erro ao acessar Firestore. Entrando em modo de teste. Os dados não serão salvos permanentemente.");
-    }
+    await persist((s) => s.editTask(String(taskId), { kind: "deposit" }));
   }
 
-  async function editTask(taskId: UniqueIdentifier, amount: number, dateISO?: string | null, isProjection: boolean = false) {
+  async function editTask(taskId: UniqueIdentifier, amount: Money, dateISO?: string | null, kind?: TaskKind, details?: CardDetails) {
     if (isNaN(amount) || amount <= 0) {
-      alert("Informe um valor maior que zero");
-      return;
-    }
-
-    if (testMode) {
-      localEditTask(String(taskId), { content: amount, dateISO: dateISO ?? new Date().toISOString(), isProjection });
+      alert(t("board.amountRequired"));
       return;
     }
 
-    try {
-      await db.editTask(String(taskId), {
-        content: Math.round(amount * 100) / 100,
+    await persist((s) =>
+      s.editTask(String(taskId), {
+        content: amount,
         dateISO: dateISO ?? new Date().toISOString(),
-        isProjection,
-      });
-    } catch (err) {
-      console.error(err);
-      enterTestMode();
-      localEditTask(String(taskId), { content: amount, dateISO: dateISO ?? new Date().toISOString(), isProjection });
-      alert("Erro ao acessar Firestore. Entrando em modo de teste. Os dados não serão salvos permanentemente.");
-    }
+        kind,
+        ...details,
+      })
+    );
+  }
+
+  // from a card form's tag picker; the id lets the form put the new tag on its card
+  async function createTag(name: string): Promise<string | null> {
+    let id: string | null = null;
+    await persist(async (s) => {
+      id = await s.addTag({ name, color: DEFAULT_TAG_COLOR });
+    });
+    return id;
   }
 
   async function updateColumnsOrder(newOrder: UniqueIdentifier[]) {
-    if (testMode) {
-      localUpdateColumnsOrder(newOrder);
-      return;
-    }
-    try {
-      await db.updateColumnsOrder(newOrder);
-    } catch (err) {
-      console.error(err);
-      enterTestMode();
-      localUpdateColumnsOrder(newOrder);
-      // keep silent to avoid spamming alerts on reorder, but log
-      console.warn("Falha ao atualizar ordem das colunas no Firestore. Modo de teste ativado.");
-    }
+    // keep silent to avoid spamming alerts on reorder
+    await persist((s) => s.updateColumnsOrder(newOrder), { quiet: true });
+  }
+
+  function tasksForColumn(columnId: ColumnId) {
+    const column = columns.find((col) => col.id === columnId);
+    return sortTasks(
+      tasks.filter((task) => task.columnId === columnId),
+      column?.sortMode,
+      tasksOrder[String(columnId)]
+    );
+  }
+
+  async function setColumnSortMode(columnId: ColumnId, sortMode: TaskSortMode) {
+    setColumns((cols) => cols.map((c) => (c.id === columnId ? { ...c, sortMode } : c)));
+    await persist((s) => s.editColumn(String(columnId), { sortMode }), { quiet: true });
+  }
+
+  // writes the manual order of a column after a card was dropped in it
+  async function updateTasksOrder(columnId: ColumnId, newOrder: UniqueIdentifier[]) {
+    setTasksOrder((curr) => ({ ...curr, [String(columnId)]: newOrder.map(String) }));
+    setColumns((cols) => cols.map((c) => (c.id === columnId ? { ...c, sortMode: "manual" } : c)));
+    await persist((s) => s.updateTasksOrder(String(columnId), newOrder), { quiet: true });
+  }
+
+  async function setColumnCurrency(columnId: ColumnId, currency: string) {
+    setColumns((cols) => cols.map((c) => (c.id === columnId ? { ...c, currency } : c)));
+    await persist((s) => s.editColumn(String(columnId), { currency }), { quiet: true });
   }
 
   // set/clear meta for a column
   async function setColumnMeta(columnId: ColumnId, value: number | null | undefined) {
-    if (testMode) {
-      localUpdateColumnMeta(columnId, value);
-      return;
-    }
-
-    try {
-      await db.editColumn(String(columnId), { meta: value });
-    } catch (err) {
-      console.error("failed to update column meta, switching to test mode", err);
-      enterTestMode();
-      localUpdateColumnMeta(columnId, value);
-      alert("Erro ao acessar Firestore. Entrando em modo de teste. Os dados não serão salvos permanentemente.");
-    }
+    await persist((s) => s.editColumn(String(columnId), { meta: value }));
   }
 
   function getDraggingTaskData(taskId: UniqueIdentifier, columnId: ColumnId) {
@@ -460,6 +349,9 @@ export function KanbanBoard() {
     };
   }
 
+  // read aloud in the language in use, with amounts in the card's own currency
+  const announcedAmount = (task: Task) => formatMoney(signedAmount(task), cardCurrency(task, columns.find((c) => c.id === task.columnId)));
+
   const announcements: Announcements = {
     onDragStart({ active }) {
       if (!hasDraggableData(active)) return;
@@ -467,11 +359,16 @@ export function KanbanBoard() {
       if (active.data.current?.type === "Column") {
         const startColumnIdx = columnsId.findIndex((id) => id === active.id);
         const startColumn = columns[startColumnIdx];
-        return `Picked up Column ${startColumn?.title} at position: ${startColumnIdx + 1} of ${columnsId.length}`;
+        return t("dnd.columnPickedUp", { title: startColumn?.title ?? "", position: startColumnIdx + 1, count: columnsId.length });
       } else if (active.data.current?.type === "Task") {
         pickedUpTaskColumn.current = active.data.current.task.columnId;
         const { tasksInColumn, taskPosition, column } = getDraggingTaskData(active.id, pickedUpTaskColumn.current);
-        return `Picked up Task ${active.data.current.task.content} at position: ${taskPosition + 1} of ${tasksInColumn.length} in column ${column?.title}`;
+        return t("dnd.cardPickedUp", {
+          amount: announcedAmount(active.data.current.task),
+          position: taskPosition + 1,
+          count: tasksInColumn.length,
+          column: column?.title ?? "",
+        });
       }
     },
     onDragOver({ active, over }) {
@@ -479,13 +376,23 @@ export function KanbanBoard() {
 
       if (active.data.current?.type === "Column" && over.data.current?.type === "Column") {
         const overColumnIdx = columnsId.findIndex((id) => id === over.id);
-        return `Column ${active.data.current.column.title} was moved over ${over.data.current.column.title} at position ${overColumnIdx + 1} of ${columnsId.length}`;
+        return t("dnd.columnMovedOver", {
+          title: active.data.current.column.title,
+          over: over.data.current.column.title,
+          position: overColumnIdx + 1,
+          count: columnsId.length,
+        });
       } else if (active.data.current?.type === "Task" && over.data.current?.type === "Task") {
         const { tasksInColumn, taskPosition, column } = getDraggingTaskData(over.id, over.data.current.task.columnId);
         if (over.data.current.task.columnId !== pickedUpTaskColumn.current) {
-          return `Task ${active.data.current.task.content} was moved over column ${column?.title} in position ${taskPosition + 1} of ${tasksInColumn.length}`;
+          return t("dnd.cardMovedToColumn", {
+            amount: announcedAmount(active.data.current.task),
+            column: column?.title ?? "",
+            position: taskPosition + 1,
+            count: tasksInColumn.length,
+          });
         }
-        return `Task was moved over position ${taskPosition + 1} of ${tasksInColumn.length} in column ${column?.title}`;
+        return t("dnd.cardMovedOver", { position: taskPosition + 1, count: tasksInColumn.length, column: column?.title ?? "" });
       }
     },
     onDragEnd({ active }) {
@@ -496,10 +403,14 @@ export function KanbanBoard() {
 
       if (active.data.current?.type === "Column") {
         const overColumnPosition = columnsId.findIndex((id) => id === active.id);
-        return `Column ${active.data.current.column.title} was dropped into position ${overColumnPosition + 1} of ${columnsId.length}`;
+        return t("dnd.columnDropped", {
+          title: active.data.current.column.title,
+          position: overColumnPosition + 1,
+          count: columnsId.length,
+        });
       } else if (active.data.current?.type === "Task") {
         const { tasksInColumn, taskPosition, column } = getDraggingTaskData(active.id, active.data.current.task.columnId);
-        return `Task was dropped into position ${taskPosition + 1} of ${tasksInColumn.length} in column ${column?.title}`;
+        return t("dnd.cardDropped", { position: taskPosition + 1, count: tasksInColumn.length, column: column?.title ?? "" });
       }
 
       pickedUpTaskColumn.current = null;
@@ -507,7 +418,7 @@ export function KanbanBoard() {
     onDragCancel({ active }) {
       pickedUpTaskColumn.current = null;
       if (!hasDraggableData(active)) return;
-      return `Dragging ${active.data.current?.type} cancelled.`;
+      return active.data.current?.type === "Column" ? t("dnd.columnCancelled") : t("dnd.cardCancelled");
     },
   };
 
@@ -515,20 +426,12 @@ export function KanbanBoard() {
     const normalized = next.map(normalizePlace).filter((p) => p.name.trim());
     setPlaces(normalized);
 
-    if (testMode) return;
-
-    try {
-      await db.upsertPlaces?.(normalized);
-    } catch (err) {
-      console.error("Failed to persist places", err);
-      enterTestMode();
-      alert("Erro ao acessar Firestore. Entrando em modo de teste. Os dados não serão salvos permanentemente.");
-    }
+    await persist((s) => s.upsertPlaces(normalized));
   }
 
   async function createPlace(data: Omit<Place, "id">) {
     const nextPlace: Place = {
-      id: uid("place"),
+      id: genId("place"),
       name: data.name,
       color: data.color,
       expectedValue: data.expectedValue ?? null,
@@ -557,51 +460,68 @@ export function KanbanBoard() {
   }
 
   async function removePlace(id: string) {
-    const next = places.filter((p) => p.id !== id);
-    await savePlacesToDb(next);
-
+    setPlaces((curr) => curr.filter((p) => p.id !== id));
     setColumns((cols) => cols.map((c) => (String(c.placeId) === id ? { ...c, placeId: undefined } : c)));
     setSelectedPlaceIds((curr) => curr.filter((item) => item !== id));
+    setFilter((curr) => (curr.placeId === id ? { ...curr, placeId: null } : curr));
     if (hoveredPlaceId === id) setHoveredPlaceId(null);
 
-    if (testMode) return;
-
-    try {
-      const affectedColumns = columns.filter((c) => String(c.placeId) === id);
-      await Promise.all(affectedColumns.map((c) => db.editColumn(String(c.id), { placeId: null })));
-      await db.removePlace?.(id);
-    } catch (err) {
-      console.error(err);
-      enterTestMode();
-      alert("Erro ao acessar Firestore. Entrando em modo de teste. Os dados não serão salvos permanentemente.");
-    }
+    await persist((s) => s.removePlace(id));
   }
 
+  // balances (no projections, withdrawals and fees subtracted) in the base currency, each card
+  // converted from its own currency
+  const balanceItems = useCallback(
+    (columnIds: ColumnId[]) =>
+      tasks
+        .filter((t) => columnIds.includes(t.columnId) && !isProjection(t))
+        .map((t) => ({ amount: signedAmount(t), currency: cardCurrency(t, columns.find((c) => c.id === t.columnId)) })),
+    [tasks, columns]
+  );
+
   const placeTotals = useMemo(() => {
-    const totals = new Map<string, number>();
-    places.forEach((p) => totals.set(p.id, 0));
+    const totals = new Map<string, ConvertedTotal>();
+    places.forEach((p) => {
+      const columnIds = columns.filter((col) => col.placeId === p.id).map((col) => col.id);
+      totals.set(p.id, sumConverted(balanceItems(columnIds), currencySettings.base, currencySettings));
+    });
+    return totals;
+  }, [places, columns, balanceItems, currencySettings]);
 
-    columns.forEach((col) => {
-      if (!col.placeId) return;
+  const boardTotal = useMemo(
+    () => sumConverted(balanceItems(columns.map((col) => col.id)), currencySettings.base, currencySettings),
+    [columns, balanceItems, currencySettings]
+  );
 
-      const totalForColumn = tasks
-        .filter((t) => t.columnId === col.id && !t.isProjection)
-        .reduce((sum, t) => sum + (typeof t.content === "number" ? t.content : Number(t.content) || 0), 0);
+  // closes by itself when the column goes away
+  const scheduleColumn = columns.find((col) => col.id === scheduleColumnId) ?? null;
 
-      totals.set(col.placeId, (totals.get(col.placeId) ?? 0) + totalForColumn);
+  const tagTotals = useMemo(() => {
+    const totals = new Map<string, ConvertedTotal>();
+    tags.forEach((tag) => {
+      const items = tasks
+        .filter((t) => !isProjection(t) && t.tagIds?.includes(tag.id))
+        .map((t) => ({ amount: signedAmount(t), currency: cardCurrency(t, columns.find((c) => c.id === t.columnId)) }));
+      totals.set(tag.id, sumConverted(items, currencySettings.base, currencySettings));
     });
-
     return totals;
-  }, [places, columns, tasks]);
+  }, [tags, tasks, columns, currencySettings]);
+
+  // the cards the filter lets through across the board, and their balance in the base currency
+  const matched = useMemo(() => {
+    const columnOf = (task: Task) => columns.find((c) => c.id === task.columnId);
+    const matching = tasks.filter((task) => taskMatchesFilter(task, filter, columnOf(task), currencySettings));
+    const balance = sumConverted(
+      matching.filter((task) => !isProjection(task)).map((task) => ({ amount: signedAmount(task), currency: cardCurrency(task, columnOf(task)) })),
+      currencySettings.base,
+      currencySettings
+    );
+    return { count: matching.length, of: tasks.length, balance };
+  }, [tasks, columns, filter, currencySettings]);
 
   function setColumnPlace(columnId: ColumnId, placeId?: string | null) {
     setColumns((cols) => cols.map((c) => (c.id === columnId ? { ...c, placeId: placeId ?? undefined } : c)));
-    if (!testMode) {
-      try {
-        // @ts-ignore
-        db.editColumn(String(columnId), { placeId: placeId ?? null }).catch(() => { });
-      } catch (e) { }
-    }
+    persist((s) => s.editColumn(String(columnId), { placeId: placeId ?? null }), { quiet: true });
   }
 
   function openPlacesManager(placeId: string | null = null) {
@@ -621,29 +541,121 @@ export function KanbanBoard() {
       onDragStart={onDragStart}
       onDragEnd={onDragEnd}
       onDragOver={onDragOver}
+      onDragCancel={onDragCancel}
     >
-      {testMode && (
-        <div className="mb-2 px-3 py-2 rounded bg-yellow-100 text-yellow-800 border border-yellow-200 text-sm">
-          <strong>Modo de teste:</strong> o Firestore não está acessível. Os dados não serão salvos quando fechar a janela.
+      {offlineMode && (
+        <div className="mb-2 px-3 py-2 rounded bg-yellow-100 text-yellow-800 border border-yellow-200 text-sm flex items-center gap-3">
+          <span>
+            <strong>{t("board.offlineTitle")}</strong>{" "}
+            {queuedWrites > 0 ? t("board.offlineQueued", { count: queuedWrites }) : t("board.offlineSaved")}
+          </span>
+          <button
+            onClick={() => syncNow()}
+            disabled={syncing}
+            className="ml-auto px-2 py-1 rounded border border-yellow-400 hover:bg-yellow-200 disabled:opacity-50"
+          >
+            {syncing ? t("board.syncing") : t("board.syncNow")}
+          </button>
         </div>
       )}
 
+      {toast && <UndoToast entry={toast} onUndo={() => undo()} onDismiss={() => setToast(null)} />}
+
+      {conflict && (
+        <SyncConflictModal
+          conflict={conflict}
+          remaining={queuedWrites}
+          onKeepLocal={() => resolveConflict("local")}
+          onKeepServer={() => resolveConflict("server")}
+        />
+      )}
+
       {/* top toolbar to add a column */}
       <div className="flex gap-2 items-center justify-center lg:mb-4 relative">
+        <div
+          className="absolute left-0 text-sm font-medium text-gray-500"
+          title={boardTotal.missing.length > 0 ? t("currency.missingRates", { codes: boardTotal.missing.join(", ") }) : undefined}
+        >
+          {t("board.total", { amount: formatMoney(boardTotal.total, currencySettings.base) })}
+          {boardTotal.missing.length > 0 ? " *" : ""}
+        </div>
         <AddColumnForm onAdd={addColumn} />
+        <FilterBar
+          filter={filter}
+          mode={filterMode}
+          places={places}
+          baseCurrency={currencySettings.base}
+          matched={matched}
+          onChange={setFilter}
+          onModeChange={setFilterMode}
+        />
+        <div className="absolute right-0 flex gap-1">
+          <Button variant="outline" size="icon" onClick={() => undo()} disabled={!canUndo} aria-label={t("board.undo")} title={t("board.undoHint")}>
+            <Undo2 className="w-4 h-4" />
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => redo()} disabled={!canRedo} aria-label={t("board.redo")} title={t("board.redoHint")}>
+            <Redo2 className="w-4 h-4" />
+          </Button>
+          <DataMenu
+            remote={remote}
+            current={current}
+            offline={offlineMode}
+            persist={persist}
+            snapshot={() => lastSnapshot.current}
+            boardName={boardName}
+          />
+        </div>
+      </div>
+
+      {/* Tag bar: picking tags filters the cards to those with any of them */}
+      <div className="flex items-center justify-center gap-2 mb-2 text-sm overflow-x-auto">
+        <button
+          onClick={() => setShowTagsModal(true)}
+          aria-label={t("tag.manage")}
+          title={t("tag.manage")}
+          className="p-1.5 rounded-full border border-slate-300 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800 shrink-0"
+        >
+          <Tags size={16} />
+        </button>
+        {tags.length === 0 ? (
+          <span className="text-gray-500">{t("tag.none")}</span>
+        ) : (
+          tags.map((tag) => {
+            const isActive = filter.tagIds.includes(tag.id);
+            return (
+              <button
+                key={tag.id}
+                type="button"
+                aria-pressed={isActive}
+                onClick={() =>
+                  setFilter((curr) => ({
+                    ...curr,
+                    tagIds: curr.tagIds.includes(tag.id) ? curr.tagIds.filter((id) => id !== tag.id) : [...curr.tagIds, tag.id],
+                  }))
+                }
+                className="px-2.5 py-0.5 rounded-full border font-medium shrink-0"
+                style={{
+                  color: tag.color,
+                  borderColor: isActive ? tag.color : "transparent",
+                  background: isActive ? `${tag.color}18` : undefined,
+                }}
+              >
+                {tag.name}
+              </button>
+            );
+          })
+        )}
+        {filter.tagIds.length > 0 && (
+          <button onClick={() => setFilter((curr) => ({ ...curr, tagIds: [] }))} className="px-2 py-0.5 rounded text-gray-500 hover:underline shrink-0">
+            {t("tag.clearFilter")}
+          </button>
+        )}
       </div>
 
       <BoardContainer>
         <SortableContext items={columnsId}>
           {columns.map((col) => {
-            const tasksForCol = tasks
-              .filter((task) => task.columnId === col.id)
-              .slice()
-              .sort((a, b) => {
-                const ta = a.dateISO ? new Date(a.dateISO).getTime() : 0;
-                const tb = b.dateISO ? new Date(b.dateISO).getTime() : 0;
-                return tb - ta;
-              });
+            const tasksForCol = tasksForColumn(col.id);
 
             return (
               <BoardColumn
@@ -652,16 +664,27 @@ export function KanbanBoard() {
                 tasks={tasksForCol}
                 allColumns={columns}
                 allPlaces={places}
+                currencySettings={currencySettings}
                 hoveredPlaceId={hoveredPlaceId}
                 selectedPlaceIds={selectedPlaceIds}
+                allTags={tags}
+                filter={isFilterActive(filter) ? filter : undefined}
+                filterMode={filterMode}
+                onCreateTag={createTag}
                 onSetPlace={(placeId) => setColumnPlace(col.id, placeId)}
-                onAddTask={(amount, dateISO, isProjection) => addTask(col.id, amount, dateISO, isProjection)}
+                onAddTask={(amount, dateISO, kind, details) => addTask(col.id, amount, dateISO, kind, details)}
+                onAddProjections={(projections) => addProjections(col.id, projections)}
                 onRemoveTask={(taskId) => removeTask(taskId)}
                 onRemoveColumn={() => removeColumn(col.id)}
-                onTransferTask={(taskId, amount, targetColumnId, dateISO) => transferTask(taskId, amount, targetColumnId, dateISO)}
+                onTransferTask={(taskId, amount, targetColumnId, dateISO, expectedContent) =>
+                  transferTask(taskId, amount, targetColumnId, dateISO, expectedContent)
+                }
                 onToggleProjection={(taskId) => toggleProjection(taskId)}
-                onEditTask={(taskId, amount, dateISO, isProjection) => editTask(taskId, amount, dateISO, isProjection)}
+                onEditTask={(taskId, amount, dateISO, kind, details) => editTask(taskId, amount, dateISO, kind, details)}
                 onSetMeta={(value) => setColumnMeta(col.id, value)}
+                onSetSortMode={(mode) => setColumnSortMode(col.id, mode)}
+                onSetCurrency={(currency) => setColumnCurrency(col.id, currency)}
+                onOpenSchedules={() => setScheduleColumnId(col.id)}
               />
             );
           })}
@@ -675,20 +698,52 @@ export function KanbanBoard() {
               <BoardColumn
                 isOverlay
                 column={activeColumn}
+                currencySettings={currencySettings}
+                allTags={tags}
                 tasks={tasks.filter((task) => task.columnId === activeColumn.id)}
                 onAddTask={() => { }}
                 onRemoveTask={() => { }}
                 onRemoveColumn={() => { }}
               />
             )}
-            {activeTask && <TaskCard task={activeTask} isOverlay />}
+            {activeTask && (
+              <TaskCard
+                task={activeTask}
+                currency={cardCurrency(activeTask, lastSnapshot.current.columns.find((c) => c.id === activeTask.columnId))}
+                tags={tagsOf(activeTask, tags)}
+                isOverlay
+              />
+            )}
           </DragOverlay>,
           document.body
         )}
 
+      {showTagsModal && (
+        <TagManagerModal
+          tags={tags}
+          totals={tagTotals}
+          baseCurrency={currencySettings.base}
+          persist={persist}
+          onClose={() => setShowTagsModal(false)}
+        />
+      )}
+
+      {scheduleColumn && (
+        <ScheduleModal
+          key={scheduleColumn.id}
+          columnId={String(scheduleColumn.id)}
+          columnTitle={scheduleColumn.title}
+          currency={columnCurrency(scheduleColumn)}
+          schedules={schedules.filter((schedule) => schedule.columnId === scheduleColumn.id)}
+          persist={persist}
+          onClose={() => setScheduleColumnId(null)}
+        />
+      )}
+
       {showPlacesModal && (
         <PlacesManagerModal
           places={places}
+          baseCurrency={currencySettings.base}
           initialPlaceId={placesModalInitialPlaceId}
           onClose={handleClosePlacesManager}
           onCreate={createPlace}
@@ -703,7 +758,7 @@ export function KanbanBoard() {
         <div className="p-1 flex items-center gap-2 overflow-x-auto pr-2">
           <button
             onClick={() => openPlacesManager(null)}
-            aria-label="Gerenciar lugares"
+            aria-label={t("places.manage")}
             className="w-8 h-8 p-6 flex items-center justify-center rounded-full bg-sky-700 text-white hover:opacity-90 transition"
           >
             <div>
@@ -712,13 +767,14 @@ export function KanbanBoard() {
           </button>
 
           {places.length === 0 ? (
-            <div className="text-sm text-gray-500">Nenhum lugar</div>
+            <div className="text-sm text-gray-500">{t("places.none")}</div>
           ) : (
             places.map((p) => (
               <PlaceChip
                 key={p.id}
                 place={p}
-                total={placeTotals.get(p.id) ?? 0}
+                total={placeTotals.get(p.id) ?? { total: 0, missing: [] }}
+                baseCurrency={currencySettings.base}
                 isActive={selectedPlaceIds.includes(p.id) || hoveredPlaceId === p.id}
                 onToggle={() => setSelectedPlaceIds((current) => (current.includes(p.id) ? current.filter((item) => item !== p.id) : [...current, p.id]))}
                 onHoverStart={() => setHoveredPlaceId(p.id)}
@@ -750,15 +806,19 @@ export function KanbanBoard() {
     setActiveTask(null);
 
     const { active, over } = event;
-    if (!over) return;
-
-    const activeId = active.id;
-    const overId = over.id;
-
     if (!hasDraggableData(active)) return;
 
+    const activeId = active.id;
     const activeData = active.data.current;
 
+    if (activeData?.type === "Task") {
+      if (over) onTaskDrop(activeId, over);
+      else restoreTaskColumn(activeId);
+      return;
+    }
+
+    if (!over) return;
+    const overId = over.id;
     if (activeId === overId) return;
 
     const isActiveAColumn = activeData?.type === "Column";
@@ -781,6 +841,67 @@ export function KanbanBoard() {
     });
   }
 
+  function onDragCancel(event: DragCancelEvent) {
+    setActiveTask(null);
+    setActiveColumn(null);
+    if (event.active.data.current?.type === "Task") restoreTaskColumn(event.active.id);
+  }
+
+  // moves a card back to the column it has on the server, after a drag that did not land
+  function restoreTaskColumn(taskId: UniqueIdentifier) {
+    const stored = lastSnapshot.current.tasks.find((t) => t.id === String(taskId));
+    if (!stored) return;
+    setTasks((curr) => curr.map((t) => (t.id === stored.id ? { ...t, columnId: stored.columnId } : t)));
+  }
+
+  // a card dropped inside its own column switches it to manual order; dropped in another column
+  // it only keeps its position there if that column is already sorted manually. The column it
+  // came from is the one on the server, since dragging over other columns only moves it locally.
+  function onTaskDrop(activeId: UniqueIdentifier, over: NonNullable<DragEndEvent["over"]>) {
+    const stored = lastSnapshot.current.tasks.find((t) => t.id === String(activeId));
+    const overData = over.data.current;
+    const targetColumnId =
+      over.id === activeId
+        ? tasks.find((t) => t.id === activeId)?.columnId
+        : overData?.type === "Task"
+          ? overData.task.columnId
+          : overData?.type === "Column"
+            ? over.id
+            : null;
+    const target = columns.find((col) => col.id === targetColumnId);
+    if (!stored || !target || targetColumnId === null || targetColumnId === undefined) {
+      restoreTaskColumn(activeId);
+      return;
+    }
+
+    const ids = tasksForColumn(targetColumnId).map((t) => t.id);
+    const overIndex = over.id === activeId ? -1 : ids.indexOf(over.id);
+
+    if (stored.columnId === String(targetColumnId)) {
+      const from = ids.indexOf(activeId);
+      const to = overData?.type === "Task" ? overIndex : ids.length - 1;
+      if (from === to || to === -1 || from === -1) return;
+      updateTasksOrder(targetColumnId, arrayMove(ids, from, to));
+      return;
+    }
+
+    let order: UniqueIdentifier[] | undefined;
+    if ((target.sortMode ?? DEFAULT_SORT_MODE) === "manual") {
+      const rest = ids.filter((id) => id !== activeId);
+      const at = overData?.type === "Task" && overIndex !== -1 ? rest.indexOf(over.id) : -1;
+      rest.splice(at === -1 ? rest.length : at, 0, activeId);
+      order = rest;
+      setTasksOrder((curr) => ({ ...curr, [String(targetColumnId)]: rest.map(String) }));
+    }
+
+    // a card still following its column's currency takes that one along before leaving
+    const fromColumn = lastSnapshot.current.columns.find((c) => c.id === stored.columnId);
+    const currency = stored.currency ? undefined : columnCurrency(fromColumn);
+    persist((s) => s.moveTask(stored.id, String(targetColumnId), { currency, order }), { quiet: true }).then((saved) => {
+      if (!saved) restoreTaskColumn(activeId);
+    });
+  }
+
   function onDragOver(event: DragOverEvent) {
     const { active, over } = event;
     if (!over) return;
@@ -795,47 +916,21 @@ export function KanbanBoard() {
     const activeData = active.data.current;
     const overData = over.data.current;
 
-    const isActiveATask = activeData?.type === "Task";
-    const isOverATask = overData?.type === "Task";
-
-    if (!isActiveATask) return;
-
-    async function updateTaskColumn(taskId: UniqueIdentifier, targetColumnId: ColumnId, dateISO?: string | null) {
-      const patch: any = { columnId: String(targetColumnId) };
-      if (dateISO) patch.dateISO = dateISO;
-
-      if (testMode) {
-        localEditTask(String(taskId), { columnId: String(targetColumnId), dateISO: dateISO ?? undefined });
-        return;
-      }
-
-      try {
-        await db.editTask(String(taskId), patch);
-      } catch (e) {
-        console.error("failed to edit task column, switching to test mode", e);
-        enterTestMode();
-        localEditTask(String(taskId), { columnId: String(targetColumnId), dateISO: dateISO ?? undefined });
-      }
-    }
+    if (activeData?.type !== "Task") return;
 
-    // dropping a Task over another Task
-    if (isActiveATask && isOverATask) {
-      // if changing column, update task columnId
-      if (overData.task.columnId !== activeData.task.columnId) {
-        updateTaskColumn(activeId, overData.task.columnId, activeData.task.dateISO ?? new Date().toISOString());
-      }
-    }
-
-    const isOverAColumn = overData?.type === "Column";
-
-    // dropping a Task over a column
-    if (isActiveATask && isOverAColumn) {
-      updateTaskColumn(activeId, overId, activeData.task.dateISO ?? new Date().toISOString());
-    }
+    // while dragging, the card only changes column in local state; onDragEnd writes the move once
+    const targetColumnId = overData?.type === "Task" ? overData.task.columnId : overData?.type === "Column" ? overId : null;
+    if (targetColumnId === null || targetColumnId === undefined) return;
+    setTasks((curr) =>
+      curr.some((t) => t.id === activeId && t.columnId !== targetColumnId)
+        ? curr.map((t) => (t.id === activeId ? { ...t, columnId: targetColumnId } : t))
+        : curr
+    );
   }
 }
 
 function AddColumnForm({ onAdd }: { onAdd: (title: string) => void }) {
+  const { t } = useI18n();
   const [value, setValue] = useState("");
 
   return (
@@ -859,7 +954,7 @@ function AddColumnForm({ onAdd }: { onAdd: (title: string) => void }) {
         type="submit"
         className="text-xs lg:text-base px-3 py-1 rounded bg-sky-700 text-white hover:ring ring-sky-700 transition-all duration-300 cursor-pointer"
       >
-        Adicionar investimento
+        {t("board.addColumn")}
       </button>
     </form>
   );
@@ -868,18 +963,22 @@ function AddColumnForm({ onAdd }: { onAdd: (title: string) => void }) {
 function PlaceChip({
   place,
   total,
+  baseCurrency,
   isActive,
   onToggle,
   onHoverStart,
   onHoverEnd,
 }: {
   place: Place;
-  total: number;
+  total: ConvertedTotal;
+  baseCurrency: string;
   isActive: boolean;
   onToggle: () => void;
   onHoverStart: () => void;
   onHoverEnd: () => void;
 }) {
+  const { t } = useI18n();
+
   return (
     <button
       type="button"
@@ -897,10 +996,14 @@ function PlaceChip({
     >
       <div className="flex flex-col leading-tight">
         <span className="truncate max-w-[220px]">{place.name}</span>
-        <span className="text-[11px] opacity-80">
-          Total: {new Intl.NumberFormat("pt-BR", { style: "currency", currency: "BRL" }).format(total)}
+        <span
+          className="text-[11px] opacity-80"
+          title={total.missing.length > 0 ? t("currency.missingRates", { codes: total.missing.join(", ") }) : undefined}
+        >
+          {t("board.total", { amount: formatMoney(total.total, baseCurrency) })}
+          {total.missing.length > 0 ? " *" : ""}
           {place.expectedValue !== undefined && place.expectedValue !== null
-            ? ` / ${new Intl.NumberFormat("pt-BR", { style: "currency", currency: "BRL" }).format(place.expectedValue)}`
+            ? ` / ${formatMoney(place.expectedValue, baseCurrency)}`
             : ""}
         </span>
       </div>
@@ -910,6 +1013,7 @@ function PlaceChip({
 
 function PlacesManagerModal({
   places,
+  baseCurrency,
   initialPlaceId,
   onClose,
   onCreate,
@@ -918,6 +1022,8 @@ function PlacesManagerModal({
   onMove,
 }: {
   places: Place[];
+  // place goals are in the board's base currency
+  baseCurrency: string;
   initialPlaceId: string | null;
   onClose: () => void;
   onCreate: (data: Omit<Place, "id">) => Promise<string> | string;
@@ -925,6 +1031,7 @@ function PlacesManagerModal({
   onDelete: (id: string) => Promise<void> | void;
   onMove: (id: string, direction: "up" | "down") => Promise<void> | void;
 }) {
+  const { t } = useI18n();
   const [selectedId, setSelectedId] = useState<string | null>(initialPlaceId);
   const [name, setName] = useState("");
   const [color, setColor] = useState("#06b6d4");
@@ -951,7 +1058,7 @@ function PlacesManagerModal({
       setColor(selectedPlace.color);
       setExpectedText(
         selectedPlace.expectedValue !== undefined && selectedPlace.expectedValue !== null
-          ? selectedPlace.expectedValue.toFixed(2)
+          ? moneyToInput(selectedPlace.expectedValue)
           : ""
       );
       setDateTimeLocal(toDateTimeLocalInputValue(selectedPlace.dateTimeISO));
@@ -974,16 +1081,16 @@ function PlacesManagerModal({
   async function handleSave() {
     const trimmed = name.trim();
     if (!trimmed) {
-      alert("Informe um nome");
+      alert(t("places.nameRequired"));
       return;
     }
 
-    let expectedValue: number | null = null;
+    let expectedValue: Money | null = null;
     if (expectedText.trim() !== "") {
       try {
-        expectedValue = parseCurrencyInput(expectedText);
+        expectedValue = parseMoneyInput(expectedText);
       } catch (e: any) {
-        alert(e?.message ?? "Valor esperado inválido");
+        alert(e?.message ?? t("places.expectedInvalid"));
         return;
       }
     }
@@ -1016,7 +1123,7 @@ function PlacesManagerModal({
     const place = places.find((p) => p.id === id);
     if (!place) return;
 
-    if (!window.confirm(`Excluir o lugar "${place.name}"?`)) return;
+    if (!window.confirm(t("places.confirmDelete", { name: place.name }))) return;
 
     await Promise.resolve(onDelete(id));
 
@@ -1037,33 +1144,33 @@ function PlacesManagerModal({
       >
         <div className="flex items-center justify-between px-5 py-4 border-b border-slate-200 dark:border-slate-800">
           <div>
-            <h3 className="text-lg font-semibold">Gerenciar lugares</h3>
-            <p className="text-sm text-slate-500">Visualize, adicione, edite, exclua e reorganize os lugares.</p>
+            <h3 className="text-lg font-semibold">{t("places.manage")}</h3>
+            <p className="text-sm text-slate-500">{t("places.subtitle")}</p>
           </div>
           <button
             onClick={onClose}
             className="px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800"
           >
-            Fechar
+            {t("common.close")}
           </button>
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-[1.1fr_0.9fr] gap-0">
           <div className="p-5 border-b md:border-b-0 md:border-r border-slate-200 dark:border-slate-800">
             <div className="flex items-center justify-between mb-3">
-              <h4 className="font-semibold">Lista de lugares</h4>
+              <h4 className="font-semibold">{t("places.list")}</h4>
               <button
                 onClick={clearFormForNewPlace}
                 className="px-3 py-2 rounded-lg bg-sky-700 text-white hover:opacity-90"
               >
-                Novo lugar
+                {t("places.new")}
               </button>
             </div>
 
             <div className="space-y-2 max-h-[60vh] overflow-auto pr-1">
               {places.length === 0 ? (
                 <div className="text-sm text-slate-500 p-3 rounded-lg border border-dashed border-slate-300 dark:border-slate-700">
-                  Nenhum lugar cadastrado.
+                  {t("places.empty")}
                 </div>
               ) : (
                 places.map((place, index) => {
@@ -1092,14 +1199,11 @@ function PlacesManagerModal({
                           </div>
                           <div className="text-xs text-slate-500 mt-1">
                             {place.expectedValue !== undefined && place.expectedValue !== null
-                              ? `Meta: ${new Intl.NumberFormat("pt-BR", {
-                                style: "currency",
-                                currency: "BRL",
-                              }).format(place.expectedValue)}`
-                              : "Sem meta"}
+                              ? t("places.goal", { amount: formatMoney(place.expectedValue, baseCurrency) })
+                              : t("places.noGoal")}
                           </div>
                           <div className="text-xs text-slate-500 mt-1">
-                            {place.dateTimeISO ? `Data/hora: ${formatDateTime(place.dateTimeISO)}` : ""}
+                            {place.dateTimeISO ? t("places.dateTime", { date: formatDateTime(place.dateTimeISO) }) : ""}
                           </div>
                         </button>
 
@@ -1108,7 +1212,7 @@ function PlacesManagerModal({
                             onClick={() => handleMove(place.id, "up")}
                             disabled={index === 0}
                             className="px-2 py-1 rounded border border-slate-300 dark:border-slate-700 disabled:opacity-40"
-                            title="Mover para cima"
+                            title={t("places.moveUp")}
                           >
                             ↑
                           </button>
@@ -1116,7 +1220,7 @@ function PlacesManagerModal({
                             onClick={() => handleMove(place.id, "down")}
                             disabled={index === places.length - 1}
                             className="px-2 py-1 rounded border border-slate-300 dark:border-slate-700 disabled:opacity-40"
-                            title="Mover para baixo"
+                            title={t("places.moveDown")}
                           >
                             ↓
                           </button>
@@ -1128,13 +1232,13 @@ function PlacesManagerModal({
                           onClick={() => setSelectedId(place.id)}
                           className="px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800"
                         >
-                          Editar
+                          {t("common.edit")}
                         </button>
                         <button
                           onClick={() => handleDelete(place.id)}
                           className="px-3 py-2 rounded-lg bg-rose-600 text-white hover:opacity-90"
                         >
-                          Excluir
+                          {t("common.delete")}
                         </button>
                       </div>
                     </div>
@@ -1145,21 +1249,21 @@ function PlacesManagerModal({
           </div>
 
           <div className="p-5">
-            <h4 className="font-semibold mb-3">{selectedId ? "Editar " + selectedPlace?.name : "Criar novo lugar"}</h4>
+            <h4 className="font-semibold mb-3">{selectedId ? t("places.editTitle", { name: selectedPlace?.name ?? "" }) : t("places.createTitle")}</h4>
 
             <div className="space-y-4">
               <div>
-                <label className="block text-sm mb-1">Nome</label>
+                <label className="block text-sm mb-1">{t("places.name")}</label>
                 <input
                   className="w-full px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-700 bg-transparent"
                   value={name}
                   onChange={(e) => setName(e.target.value)}
-                  placeholder="Ex: Caixa, Reserva, Carteira..."
+                  placeholder={t("places.namePlaceholder")}
                 />
               </div>
 
               <div>
-                <label className="block text-sm mb-1">Cor</label>
+                <label className="block text-sm mb-1">{t("places.color")}</label>
                 <div className="flex items-center gap-3">
                   <input
                     type="color"
@@ -1171,17 +1275,18 @@ function PlacesManagerModal({
               </div>
 
               <div>
-                <label className="block text-sm mb-1">Valor esperado</label>
-                <input
+                <label className="block text-sm mb-1">{t("places.expected", { currency: baseCurrency })}</label>
+                <MoneyInput
                   className="w-full px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-700 bg-transparent"
                   value={expectedText}
-                  onChange={(e) => setExpectedText(e.target.value)}
-                  placeholder="Ex: 1500,00"
+                  onChange={setExpectedText}
+                  currency={baseCurrency}
+                  placeholder={t("places.expectedPlaceholder")}
                 />
               </div>
 
               <div>
-                <label className="block text-sm mb-1">Data e hora</label>
+                <label className="block text-sm mb-1">{t("places.dateTimeLabel")}</label>
                 <input
                   type="datetime-local"
                   className="w-full px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-700 bg-transparent"
@@ -1195,10 +1300,10 @@ function PlacesManagerModal({
                   onClick={onClose}
                   className="px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800"
                 >
-                  Cancelar
+                  {t("common.cancel")}
                 </button>
                 <button onClick={handleSave} className="px-3 py-2 rounded-lg bg-sky-700 text-white hover:opacity-90">
-                  {selectedId ? "Atualizar" : "Salvar"}
+                  {selectedId ? t("common.update") : t("common.save")}
                 </button>
               </div>
             </div>
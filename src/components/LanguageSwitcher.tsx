@@ -0,0 +1,28 @@
+// File: LanguageSwitcher.tsx
+
+import { Languages } from "lucide-react";
+import { useI18n } from "../hooks/useI18n";
+import { LOCALE_NAMES, LOCALES, type Locale } from "../lib/i18n";
+
+// the choice is kept in this browser, outside any board, so it also applies to the sign-in screen
+export function LanguageSwitcher() {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <label className="flex items-center gap-1 text-sm text-slate-500" title={t("app.language")}>
+      <Languages className="w-4 h-4" aria-hidden />
+      <select
+        value={locale}
+        onChange={(e) => setLocale(e.target.value as Locale)}
+        aria-label={t("app.language")}
+        className="h-7 rounded border px-1 bg-white dark:bg-slate-800"
+      >
+        {LOCALES.map((code) => (
+          <option key={code} value={code}>
+            {LOCALE_NAMES[code]}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,110 @@
+// File: MigrationReportModal.tsx
+
+import { useEffect, useState } from "react";
+import { runMigrations, SCHEMA_VERSION, type MigrationReport } from "../lib/migrations";
+import type { TreeBackend } from "../lib/storage";
+import { useModalHotkeys } from "../hooks/useModalHotkeys";
+import { useI18n } from "../hooks/useI18n";
+
+const MAX_LISTED_CHANGES = 20;
+
+export function MigrationReportModal({ backend, onClose }: { backend: TreeBackend; onClose: () => void }) {
+  const { t } = useI18n();
+  const [report, setReport] = useState<MigrationReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [applying, setApplying] = useState(false);
+
+  async function load() {
+    setError(null);
+    try {
+      setReport(await runMigrations(backend, { dryRun: true }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [backend]);
+
+  async function apply() {
+    setApplying(true);
+    try {
+      await runMigrations(backend);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setApplying(false);
+    }
+  }
+
+  useModalHotkeys({ onCancel: onClose, onConfirm: onClose });
+
+  const pending = report?.steps ?? [];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-3" role="dialog" aria-modal>
+      <div className="w-full max-w-2xl rounded-2xl border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 shadow-2xl overflow-hidden">
+        <div className="px-5 py-4 border-b border-slate-200 dark:border-slate-800">
+          <h3 className="text-lg font-semibold">{t("migration.title")}</h3>
+          <p className="text-sm text-slate-500">{t("migration.subtitle", { version: SCHEMA_VERSION })}</p>
+        </div>
+
+        <div className="p-5 space-y-3 max-h-[60vh] overflow-auto text-sm">
+          {error && <div className="text-rose-600">{error}</div>}
+          {!report && !error && <div className="text-slate-500">{t("migration.analyzing")}</div>}
+
+          {report && (
+            <div>
+              {t("migration.stored")} <strong>{report.from}</strong>
+              {report.from > SCHEMA_VERSION && ` ${t("migration.newer")}`}
+            </div>
+          )}
+
+          {report && pending.length === 0 && <div className="text-emerald-600">{t("migration.upToDate")}</div>}
+
+          {pending.map((step) => (
+            <div key={step.version} className="rounded-xl border border-slate-200 dark:border-slate-800 p-3">
+              <div className="font-semibold">
+                v{step.version}: {step.description}
+              </div>
+              <div className="text-slate-500">
+                {step.changes.length === 0
+                  ? t("migration.noChanges")
+                  : t("migration.changes", { count: step.changes.length })}
+              </div>
+              {step.changes.length > 0 && (
+                <ul className="mt-2 text-xs font-mono text-slate-500 space-y-0.5">
+                  {step.changes.slice(0, MAX_LISTED_CHANGES).map((path) => (
+                    <li key={path}>{path}</li>
+                  ))}
+                  {step.changes.length > MAX_LISTED_CHANGES && (
+                    <li>{t("migration.more", { count: step.changes.length - MAX_LISTED_CHANGES })}</li>
+                  )}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2 justify-end px-5 py-4 border-t border-slate-200 dark:border-slate-800">
+          <button
+            onClick={onClose}
+            className="px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800"
+          >
+            {t("common.close")}
+          </button>
+          <button
+            onClick={apply}
+            disabled={applying || pending.length === 0}
+            className="px-3 py-2 rounded-lg bg-sky-700 text-white hover:opacity-90 disabled:opacity-50"
+          >
+            {applying ? t("migration.applying") : t("migration.apply")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
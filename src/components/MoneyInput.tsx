@@ -0,0 +1,48 @@
+// File: MoneyInput.tsx
+
+import { forwardRef, type InputHTMLAttributes } from "react";
+import { formatMoney, isMoneyExpression, parseMoneyInput } from "../lib/money";
+
+type MoneyInputProps = Omit<InputHTMLAttributes<HTMLInputElement>, "value" | "onChange"> & {
+  value: string;
+  onChange: (text: string) => void;
+  // used for the result preview
+  currency?: string;
+};
+
+// the text field every money form uses: takes "1.234,56", "1,234.56" or an expression like
+// "1.200 + 350,50*2" and shows what it adds up to; the form reads the value with parseMoneyInput
+export const MoneyInput = forwardRef<HTMLInputElement, MoneyInputProps>(function MoneyInput(
+  { value, onChange, currency, className = "w-full px-3 py-2 rounded border", ...props },
+  ref
+) {
+  let preview: { text: string; error: boolean } | null = null;
+  if (value.trim()) {
+    try {
+      const cents = parseMoneyInput(value);
+      if (isMoneyExpression(value)) preview = { text: `= ${formatMoney(cents, currency)}`, error: false };
+    } catch (err) {
+      preview = { text: (err as Error).message, error: true };
+    }
+  }
+
+  return (
+    <>
+      <input
+        ref={ref}
+        inputMode="decimal"
+        autoComplete="off"
+        {...props}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        aria-invalid={preview?.error || undefined}
+        className={className}
+      />
+      {preview && (
+        <div className={`text-xs mt-1 ${preview.error ? "text-rose-600" : "text-gray-500"}`} aria-live="polite">
+          {preview.text}
+        </div>
+      )}
+    </>
+  );
+});
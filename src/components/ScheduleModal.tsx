@@ -0,0 +1,238 @@
+// File: ScheduleModal.tsx
+
+import { useState } from "react";
+import { Pause, Pencil, Play, Trash } from "lucide-react";
+import { SCHEDULE_FREQUENCIES, TASK_KINDS, type Schedule, type ScheduleFrequency, type StorageAdapter, type TaskKind } from "../lib/storage";
+import { FREQUENCY_LABELS, nextOccurrence, occurrenceISO, toDateKey } from "../lib/schedules";
+import { TASK_KIND_LABELS } from "../lib/taskKinds";
+import { formatMoney, moneyToInput, parseMoneyInput } from "../lib/money";
+import { formatDate } from "../lib/i18n";
+import { MoneyInput } from "./MoneyInput";
+import { useModalHotkeys } from "../hooks/useModalHotkeys";
+import { useI18n } from "../hooks/useI18n";
+
+type ScheduleDraft = {
+  amountText: string;
+  frequency: ScheduleFrequency;
+  startDate: string;
+  endDate: string;
+  kind: TaskKind;
+  description: string;
+};
+
+function emptyDraft(): ScheduleDraft {
+  return { amountText: "", frequency: "monthly", startDate: toDateKey(new Date()), endDate: "", kind: "deposit", description: "" };
+}
+
+function draftOf(schedule: Schedule): ScheduleDraft {
+  return {
+    amountText: moneyToInput(schedule.amount),
+    frequency: schedule.frequency,
+    startDate: schedule.startDate,
+    endDate: schedule.endDate ?? "",
+    kind: schedule.kind,
+    description: schedule.description ?? "",
+  };
+}
+
+// the schedules of one column, with the form for a new one or the one being edited below the list
+export function ScheduleModal({
+  columnId,
+  columnTitle,
+  currency,
+  schedules,
+  persist,
+  onClose,
+}: {
+  columnId: string;
+  columnTitle: string;
+  currency: string;
+  schedules: Schedule[];
+  persist: (change: (target: StorageAdapter) => Promise<unknown>) => Promise<boolean>;
+  onClose: () => void;
+}) {
+  const { t } = useI18n();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ScheduleDraft>(emptyDraft);
+  const today = toDateKey(new Date());
+
+  function edit(schedule: Schedule) {
+    setEditingId(schedule.id);
+    setDraft(draftOf(schedule));
+  }
+
+  function reset() {
+    setEditingId(null);
+    setDraft(emptyDraft());
+  }
+
+  async function save() {
+    let amount;
+    try {
+      amount = parseMoneyInput(draft.amountText);
+    } catch (err) {
+      return alert((err as Error).message);
+    }
+    if (amount <= 0) return alert(t("schedule.amountRequired"));
+    if (!draft.startDate) return alert(t("schedule.startRequired"));
+    if (draft.endDate && draft.endDate < draft.startDate) return alert(t("schedule.endBeforeStart"));
+
+    const input = {
+      amount,
+      frequency: draft.frequency,
+      startDate: draft.startDate,
+      endDate: draft.endDate || null,
+      kind: draft.kind,
+      description: draft.description.trim() || null,
+    };
+    const saved = await persist((s) => (editingId ? s.editSchedule(editingId, input) : s.addSchedule({ ...input, columnId })));
+    if (saved) reset();
+  }
+
+  async function remove(schedule: Schedule) {
+    if (!window.confirm(t("schedule.confirmDelete"))) return;
+    if (editingId === schedule.id) reset();
+    await persist((s) => s.removeSchedule(schedule.id));
+  }
+
+  useModalHotkeys({ onCancel: onClose, onConfirm: save });
+
+  const fieldStyle = "w-full px-2 py-1 rounded border bg-white dark:bg-slate-800";
+  const iconButtonStyle = "p-1.5 rounded border border-slate-300 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-3" role="dialog" aria-modal onClick={onClose}>
+      <div
+        className="w-full max-w-lg rounded-2xl border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 shadow-2xl overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-5 py-4 border-b border-slate-200 dark:border-slate-800">
+          <h3 className="text-lg font-semibold">{t("schedule.title", { title: columnTitle })}</h3>
+          <p className="text-sm text-slate-500">{t("schedule.subtitle")}</p>
+        </div>
+
+        <div className="p-5 space-y-2 max-h-[40vh] overflow-auto text-sm">
+          {schedules.length === 0 && <div className="text-slate-500">{t("schedule.empty")}</div>}
+          {schedules.map((schedule) => {
+            const next = schedule.paused ? null : nextOccurrence(schedule, today);
+            return (
+              <div
+                key={schedule.id}
+                className={`flex items-center gap-2 rounded-lg border p-2 ${editingId === schedule.id ? "border-sky-600" : "border-slate-200 dark:border-slate-800"} ${schedule.paused ? "opacity-60" : ""}`}
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium">
+                    {formatMoney(schedule.amount, currency)} · {t(FREQUENCY_LABELS[schedule.frequency])} · {t(TASK_KIND_LABELS[schedule.kind])}
+                  </div>
+                  {schedule.description && <div className="truncate">{schedule.description}</div>}
+                  <div className="text-xs text-slate-500">
+                    {schedule.endDate
+                      ? t("schedule.range", { start: formatDate(occurrenceISO(schedule.startDate)), end: formatDate(occurrenceISO(schedule.endDate)) })
+                      : t("schedule.since", { start: formatDate(occurrenceISO(schedule.startDate)) })}
+                    {" · "}
+                    {schedule.paused
+                      ? t("schedule.paused")
+                      : next
+                        ? t("schedule.next", { date: formatDate(occurrenceISO(next)) })
+                        : t("schedule.ended")}
+                  </div>
+                </div>
+                <button
+                  onClick={() => persist((s) => s.editSchedule(schedule.id, { paused: !schedule.paused }))}
+                  className={iconButtonStyle}
+                  title={schedule.paused ? t("schedule.resume") : t("schedule.pause")}
+                  aria-label={schedule.paused ? t("schedule.resume") : t("schedule.pause")}
+                >
+                  {schedule.paused ? <Play size={14} /> : <Pause size={14} />}
+                </button>
+                <button onClick={() => edit(schedule)} className={iconButtonStyle} title={t("common.edit")} aria-label={t("common.edit")}>
+                  <Pencil size={14} />
+                </button>
+                <button onClick={() => remove(schedule)} className={iconButtonStyle} title={t("common.delete")} aria-label={t("common.delete")}>
+                  <Trash size={14} />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="px-5 py-4 space-y-3 border-t border-slate-200 dark:border-slate-800 text-sm">
+          <div className="font-medium">{editingId ? t("schedule.editTitle") : t("schedule.newTitle")}</div>
+          <div className="grid grid-cols-2 gap-2">
+            <label>
+              <span className="block mb-1">{t("schedule.amount")}</span>
+              <MoneyInput
+                className={fieldStyle}
+                value={draft.amountText}
+                onChange={(amountText) => setDraft({ ...draft, amountText })}
+                currency={currency}
+              />
+            </label>
+            <label>
+              <span className="block mb-1">{t("schedule.frequency")}</span>
+              <select
+                value={draft.frequency}
+                onChange={(e) => setDraft({ ...draft, frequency: e.target.value as ScheduleFrequency })}
+                className={fieldStyle}
+              >
+                {SCHEDULE_FREQUENCIES.map((frequency) => (
+                  <option key={frequency} value={frequency}>
+                    {t(FREQUENCY_LABELS[frequency])}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              <span className="block mb-1">{t("schedule.start")}</span>
+              <input type="date" value={draft.startDate} onChange={(e) => setDraft({ ...draft, startDate: e.target.value })} className={fieldStyle} />
+            </label>
+            <label>
+              <span className="block mb-1">{t("schedule.end")}</span>
+              <input type="date" value={draft.endDate} onChange={(e) => setDraft({ ...draft, endDate: e.target.value })} className={fieldStyle} />
+            </label>
+            <label>
+              <span className="block mb-1">{t("schedule.kind")}</span>
+              <select value={draft.kind} onChange={(e) => setDraft({ ...draft, kind: e.target.value as TaskKind })} className={fieldStyle}>
+                {TASK_KINDS.map((kind) => (
+                  <option key={kind} value={kind}>
+                    {t(TASK_KIND_LABELS[kind])}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              <span className="block mb-1">{t("schedule.description")}</span>
+              <input
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                placeholder={t("schedule.descriptionPlaceholder")}
+                className={fieldStyle}
+              />
+            </label>
+          </div>
+          <p className="text-slate-500">{draft.kind === "projection" ? t("schedule.projectionHint") : t("schedule.balanceHint")}</p>
+
+          <div className="flex justify-end gap-2">
+            {editingId && (
+              <button
+                onClick={reset}
+                className="px-3 py-1.5 rounded-lg border border-slate-300 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800"
+              >
+                {t("common.cancel")}
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              className="px-3 py-1.5 rounded-lg border border-slate-300 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800"
+            >
+              {t("common.close")}
+            </button>
+            <button onClick={save} className="px-3 py-1.5 rounded-lg bg-sky-700 text-white hover:opacity-90">
+              {editingId ? t("common.save") : t("schedule.add")}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
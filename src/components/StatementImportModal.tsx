@@ -0,0 +1,262 @@
+// File: StatementImportModal.tsx
+
+import { useMemo, useState } from "react";
+import {
+  csvRows,
+  guessMapping,
+  likelyDuplicates,
+  readStatement,
+  rowProblem,
+  StatementError,
+  type CsvMapping,
+  type DateFormat,
+  type StatementFile,
+} from "../lib/statementImport";
+import { formatMoney } from "../lib/money";
+import { columnCurrency } from "../lib/currency";
+import type { BoardSnapshot, StorageAdapter } from "../lib/storage";
+import { formatDate, type MessageKey } from "../lib/i18n";
+import { useModalHotkeys } from "../hooks/useModalHotkeys";
+import { useI18n } from "../hooks/useI18n";
+
+const DATE_FORMAT_LABELS: Record<DateFormat, MessageKey> = {
+  dmy: "statement.dateFormat.dmy",
+  ymd: "statement.dateFormat.ymd",
+  mdy: "statement.dateFormat.mdy",
+};
+
+export function StatementImportModal({
+  snapshot,
+  persist,
+  onClose,
+}: {
+  snapshot: BoardSnapshot;
+  persist: (change: (target: StorageAdapter) => Promise<unknown>) => Promise<boolean>;
+  onClose: () => void;
+}) {
+  const { t } = useI18n();
+  const [file, setFile] = useState<StatementFile | null>(null);
+  const [mapping, setMapping] = useState<CsvMapping | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [columnId, setColumnId] = useState(snapshot.columns[0]?.id ?? "");
+  // lines the user ticked or unticked by hand; everything else follows the default
+  const [toggled, setToggled] = useState<Set<number>>(new Set());
+  const [busy, setBusy] = useState(false);
+
+  async function readFile(picked: File | undefined) {
+    setFile(null);
+    setMapping(null);
+    setError(null);
+    setToggled(new Set());
+    if (!picked) return;
+    try {
+      const read = readStatement(await picked.text());
+      setFile(read);
+      if (read.kind === "csv") setMapping(guessMapping(read.cells));
+    } catch (err) {
+      setError(err instanceof StatementError ? err.message : t("file.unreadable"));
+    }
+  }
+
+  const rows = useMemo(() => {
+    if (!file) return [];
+    return file.kind === "ofx" ? file.rows : mapping ? csvRows(file.cells, mapping) : [];
+  }, [file, mapping]);
+
+  const duplicates = useMemo(
+    () => likelyDuplicates(rows, snapshot.tasks.filter((task) => task.columnId === columnId)),
+    [rows, snapshot.tasks, columnId]
+  );
+
+  // valid rows are imported unless they look like a card already in the column
+  const isSelected = (line: number) => {
+    const row = rows.find((r) => r.line === line);
+    if (!row || rowProblem(row)) return false;
+    return duplicates.has(line) === toggled.has(line);
+  };
+  const selected = rows.filter((r) => isSelected(r.line));
+
+  function toggle(line: number) {
+    const next = new Set(toggled);
+    if (next.has(line)) next.delete(line);
+    else next.add(line);
+    setToggled(next);
+  }
+
+  const currency = columnCurrency(snapshot.columns.find((c) => c.id === columnId));
+
+  async function confirmImport() {
+    if (busy || !columnId || selected.length === 0) return;
+    setBusy(true);
+    const done = await persist((s) =>
+      s.addTasks(
+        selected.map((r) => ({ columnId, content: r.amount ?? 0, dateISO: r.dateISO, kind: "deposit", currency, description: r.description }))
+      )
+    );
+    setBusy(false);
+    if (done) onClose();
+  }
+
+  useModalHotkeys({ onCancel: onClose, onConfirm: confirmImport });
+
+  const header = file?.kind === "csv" ? file.cells[0] : [];
+  const columnOptions = header.map((cell, i) => (
+    <option key={i} value={i}>
+      {mapping?.hasHeader
+        ? cell || t("statement.fileColumn", { n: i + 1 })
+        : t("statement.fileColumnSample", { n: i + 1, sample: cell })}
+    </option>
+  ));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-3" role="dialog" aria-modal>
+      <div className="w-full max-w-3xl rounded-2xl border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 shadow-2xl overflow-hidden">
+        <div className="px-5 py-4 border-b border-slate-200 dark:border-slate-800">
+          <h3 className="text-lg font-semibold">{t("statement.title")}</h3>
+          <p className="text-sm text-slate-500">{t("statement.subtitle")}</p>
+        </div>
+
+        <div className="p-5 space-y-4 max-h-[60vh] overflow-auto text-sm">
+          <div className="flex flex-wrap items-center gap-3">
+            <input type="file" accept=".ofx,.csv,.txt,text/csv" onChange={(e) => readFile(e.target.files?.[0])} />
+            <label className="flex items-center gap-2">
+              {t("statement.column")}
+              <select
+                value={columnId}
+                onChange={(e) => setColumnId(e.target.value)}
+                className="px-2 py-1 rounded border bg-white dark:bg-slate-800"
+              >
+                {snapshot.columns.map((c) => (
+                  <option key={c.id} value={c.id}>
+                    {c.title}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          {error && <div className="text-rose-600">{error}</div>}
+
+          {file?.kind === "csv" && mapping && (
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+              <label className="col-span-full flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={mapping.hasHeader}
+                  onChange={(e) => setMapping({ ...mapping, hasHeader: e.target.checked })}
+                />
+                {t("statement.hasHeader")}
+              </label>
+              <label className="space-y-1">
+                <span className="block">{t("statement.date")}</span>
+                <select
+                  value={mapping.date}
+                  onChange={(e) => setMapping({ ...mapping, date: Number(e.target.value) })}
+                  className="w-full px-2 py-1 rounded border bg-white dark:bg-slate-800"
+                >
+                  {columnOptions}
+                </select>
+              </label>
+              <label className="space-y-1">
+                <span className="block">{t("statement.amount")}</span>
+                <select
+                  value={mapping.amount}
+                  onChange={(e) => setMapping({ ...mapping, amount: Number(e.target.value) })}
+                  className="w-full px-2 py-1 rounded border bg-white dark:bg-slate-800"
+                >
+                  {columnOptions}
+                </select>
+              </label>
+              <label className="space-y-1">
+                <span className="block">{t("statement.description")}</span>
+                <select
+                  value={mapping.description}
+                  onChange={(e) => setMapping({ ...mapping, description: Number(e.target.value) })}
+                  className="w-full px-2 py-1 rounded border bg-white dark:bg-slate-800"
+                >
+                  <option value={-1}>{t("statement.none")}</option>
+                  {columnOptions}
+                </select>
+              </label>
+              <label className="space-y-1">
+                <span className="block">{t("statement.dateFormat")}</span>
+                <select
+                  value={mapping.dateFormat}
+                  onChange={(e) => setMapping({ ...mapping, dateFormat: e.target.value as DateFormat })}
+                  className="w-full px-2 py-1 rounded border bg-white dark:bg-slate-800"
+                >
+                  {(Object.keys(DATE_FORMAT_LABELS) as DateFormat[]).map((f) => (
+                    <option key={f} value={f}>
+                      {t(DATE_FORMAT_LABELS[f])}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          )}
+
+          {rows.length > 0 && (
+            <table className="w-full">
+              <thead className="text-left text-slate-500">
+                <tr>
+                  <th className="w-8"></th>
+                  <th className="py-1">{t("statement.date")}</th>
+                  <th className="py-1">{t("statement.description")}</th>
+                  <th className="py-1 text-right">{t("statement.amount")}</th>
+                  <th className="py-1 pl-3">{t("statement.status")}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => {
+                  const problem = rowProblem(row);
+                  return (
+                    <tr key={row.line} className={`border-t border-slate-100 dark:border-slate-800 ${problem ? "opacity-50" : ""}`}>
+                      <td>
+                        <input
+                          type="checkbox"
+                          checked={isSelected(row.line)}
+                          disabled={!!problem}
+                          onChange={() => toggle(row.line)}
+                          aria-label={t("statement.importLine", { line: row.line })}
+                        />
+                      </td>
+                      <td className="py-1 whitespace-nowrap">
+                        {formatDate(row.dateISO)}
+                      </td>
+                      <td className="py-1 truncate max-w-[16rem]">{row.description}</td>
+                      <td className="py-1 text-right whitespace-nowrap">{row.amount === null ? "—" : formatMoney(row.amount, currency)}</td>
+                      <td className="py-1 pl-3">
+                        {problem ?? (duplicates.has(row.line) ? <span className="text-amber-600">{t("statement.duplicate")}</span> : "")}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="flex gap-2 items-center justify-end px-5 py-4 border-t border-slate-200 dark:border-slate-800">
+          {rows.length > 0 && (
+            <span className="mr-auto text-sm text-slate-500">
+              {t("statement.selected", { selected: selected.length, count: rows.length })}
+            </span>
+          )}
+          <button
+            onClick={onClose}
+            className="px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800"
+          >
+            {t("common.cancel")}
+          </button>
+          <button
+            onClick={confirmImport}
+            disabled={busy || !columnId || selected.length === 0}
+            className="px-3 py-2 rounded-lg bg-sky-700 text-white hover:opacity-90 disabled:opacity-50"
+          >
+            {t("common.import")} {selected.length > 0 ? selected.length : ""}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
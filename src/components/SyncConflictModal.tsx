@@ -0,0 +1,73 @@
+// File: SyncConflictModal.tsx
+
+import type { SyncConflict } from "../lib/sync";
+import { formatDateTime, t } from "../lib/i18n";
+import { useI18n } from "../hooks/useI18n";
+
+function describe(value: unknown) {
+  if (value === null || value === undefined) return t("sync.removed");
+  return JSON.stringify(value, null, 2);
+}
+
+export function SyncConflictModal({
+  conflict,
+  remaining,
+  onKeepLocal,
+  onKeepServer,
+}: {
+  conflict: SyncConflict;
+  remaining: number;
+  onKeepLocal: () => void;
+  onKeepServer: () => void;
+}) {
+  const { t } = useI18n();
+  const queuedAt = formatDateTime(conflict.write.at);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-3" role="dialog" aria-modal>
+      <div className="w-full max-w-3xl rounded-2xl border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 shadow-2xl overflow-hidden">
+        <div className="px-5 py-4 border-b border-slate-200 dark:border-slate-800">
+          <h3 className="text-lg font-semibold">{t("sync.title")}</h3>
+          <p className="text-sm text-slate-500">
+            {t("sync.description", { date: queuedAt })}
+            {remaining > 1 ? ` ${t("sync.othersQueued", { count: remaining - 1 })}` : ""}
+          </p>
+        </div>
+
+        <div className="p-5 space-y-4 max-h-[60vh] overflow-auto">
+          {conflict.paths.map((path) => (
+            <div key={path} className="rounded-xl border border-slate-200 dark:border-slate-800 p-3">
+              <div className="text-xs font-mono text-slate-500 mb-2">{path}</div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div>
+                  <div className="text-sm font-semibold mb-1">{t("sync.yours")}</div>
+                  <pre className="text-xs bg-slate-100 dark:bg-slate-800 rounded p-2 whitespace-pre-wrap">
+                    {describe(conflict.write.updates[path])}
+                  </pre>
+                </div>
+                <div>
+                  <div className="text-sm font-semibold mb-1">{t("sync.server")}</div>
+                  <pre className="text-xs bg-slate-100 dark:bg-slate-800 rounded p-2 whitespace-pre-wrap">
+                    {describe(conflict.server[path])}
+                  </pre>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2 justify-end px-5 py-4 border-t border-slate-200 dark:border-slate-800">
+          <button
+            onClick={onKeepServer}
+            className="px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800"
+          >
+            {t("sync.keepServer")}
+          </button>
+          <button onClick={onKeepLocal} className="px-3 py-2 rounded-lg bg-sky-700 text-white hover:opacity-90">
+            {t("sync.keepLocal")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+// File: TagManagerModal.tsx
+
+import { useState } from "react";
+import { DEFAULT_TAG_COLOR, type StorageAdapter, type Tag } from "../lib/storage";
+import type { ConvertedTotal } from "../lib/currency";
+import { formatMoney } from "../lib/money";
+import { findTagByName } from "../lib/tags";
+import { useModalHotkeys } from "../hooks/useModalHotkeys";
+import { useI18n } from "../hooks/useI18n";
+
+// each tag saves on its own, when its name or color field loses focus
+export function TagManagerModal({
+  tags,
+  totals,
+  baseCurrency,
+  persist,
+  onClose,
+}: {
+  tags: Tag[];
+  // board-wide balance per tag id, in the base currency
+  totals: Map<string, ConvertedTotal>;
+  baseCurrency: string;
+  persist: (change: (target: StorageAdapter) => Promise<unknown>) => Promise<boolean>;
+  onClose: () => void;
+}) {
+  const { t } = useI18n();
+  // unsaved edits per tag id
+  const [drafts, setDrafts] = useState<Record<string, Partial<Pick<Tag, "name" | "color">>>>({});
+  const [newName, setNewName] = useState("");
+  const [newColor, setNewColor] = useState(DEFAULT_TAG_COLOR);
+
+  async function create() {
+    const name = newName.trim();
+    if (!name) return;
+    if (findTagByName(tags, name)) return alert(t("tag.exists", { name }));
+    if (await persist((s) => s.addTag({ name, color: newColor }))) setNewName("");
+  }
+
+  function draft(tag: Tag, patch: Partial<Pick<Tag, "name" | "color">>) {
+    setDrafts({ ...drafts, [tag.id]: { ...drafts[tag.id], ...patch } });
+  }
+
+  async function save(tag: Tag) {
+    const edit = drafts[tag.id];
+    if (!edit) return;
+    setDrafts((curr) => {
+      const next = { ...curr };
+      delete next[tag.id];
+      return next;
+    });
+
+    const name = (edit.name ?? tag.name).trim();
+    const color = edit.color ?? tag.color;
+    if (!name || (name === tag.name && color === tag.color)) return;
+    const clash = findTagByName(tags, name);
+    if (clash && clash.id !== tag.id) return alert(t("tag.exists", { name }));
+    await persist((s) => s.editTag(tag.id, { name, color }));
+  }
+
+  async function remove(tag: Tag) {
+    if (!window.confirm(t("tag.confirmDelete", { name: tag.name }))) return;
+    await persist((s) => s.removeTag(tag.id));
+  }
+
+  useModalHotkeys({ onCancel: onClose, onConfirm: create });
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-3" role="dialog" aria-modal onClick={onClose}>
+      <div
+        className="w-full max-w-lg rounded-2xl border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 shadow-2xl overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-5 py-4 border-b border-slate-200 dark:border-slate-800">
+          <h3 className="text-lg font-semibold">{t("tag.manage")}</h3>
+          <p className="text-sm text-slate-500">{t("tag.subtitle")}</p>
+        </div>
+
+        <div className="p-5 space-y-2 max-h-[60vh] overflow-auto text-sm">
+          {tags.length === 0 && <div className="text-slate-500">{t("tag.empty")}</div>}
+          {tags.map((tag) => {
+            const total = totals.get(tag.id) ?? { total: 0, missing: [] };
+            return (
+              <div key={tag.id} className="flex items-center gap-2">
+                <input
+                  type="color"
+                  value={drafts[tag.id]?.color ?? tag.color}
+                  onChange={(e) => draft(tag, { color: e.target.value })}
+                  onBlur={() => save(tag)}
+                  aria-label={t("tag.color")}
+                  className="w-8 h-8 p-0 border-0 bg-transparent shrink-0"
+                />
+                <input
+                  value={drafts[tag.id]?.name ?? tag.name}
+                  onChange={(e) => draft(tag, { name: e.target.value })}
+                  onBlur={() => save(tag)}
+                  onKeyDown={(e) => {
+                    if (e.key !== "Enter") return;
+                    // saves this rename rather than creating a tag
+                    e.stopPropagation();
+                    e.currentTarget.blur();
+                  }}
+                  aria-label={t("tag.name")}
+                  className="flex-1 min-w-0 px-2 py-1 rounded border"
+                />
+                <span
+                  className="w-28 text-right text-slate-500 shrink-0"
+                  title={total.missing.length > 0 ? t("currency.missingRates", { codes: total.missing.join(", ") }) : undefined}
+                >
+                  {formatMoney(total.total, baseCurrency)}
+                  {total.missing.length > 0 ? " *" : ""}
+                </span>
+                <button
+                  onClick={() => remove(tag)}
+                  className="px-2 py-1 rounded border border-slate-300 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800"
+                >
+                  {t("common.delete")}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex items-center gap-2 px-5 py-4 border-t border-slate-200 dark:border-slate-800 text-sm">
+          <input
+            type="color"
+            value={newColor}
+            onChange={(e) => setNewColor(e.target.value)}
+            aria-label={t("tag.color")}
+            className="w-8 h-8 p-0 border-0 bg-transparent shrink-0"
+          />
+          <input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder={t("tag.namePlaceholder")}
+            aria-label={t("tag.name")}
+            className="flex-1 min-w-0 px-2 py-1 rounded border"
+          />
+          <button onClick={create} className="px-3 py-1.5 rounded-lg bg-sky-700 text-white hover:opacity-90">
+            {t("tag.add")}
+          </button>
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 rounded-lg border border-slate-300 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800"
+          >
+            {t("common.close")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -10,17 +10,38 @@ import { ColumnId } from "./KanbanBoard";
 import { Badge } from "./ui/badge";
 import { GripVertical } from "lucide-react";
 import { Button } from "./ui/button";
+import { formatMoney, type Money } from "../lib/money";
+import { formatDate } from "../lib/i18n";
+import type { Tag, TaskKind } from "../lib/storage";
+import { isProjection, signedAmount, TASK_KIND_LABELS, taskKind } from "../lib/taskKinds";
+import { useI18n } from "../hooks/useI18n";
 
 export interface Task {
   id: UniqueIdentifier;
   columnId: ColumnId;
-  content: number;
+  content: Money;
   dateISO?: string;
-  isProjection: boolean;
+  kind: TaskKind;
+  currency?: string;
+  description?: string;
+  notes?: string;
+  tagIds?: string[];
 }
 
+const KIND_BADGE_STYLES: Record<TaskKind, string> = {
+  deposit: "border-emerald-500 text-emerald-600",
+  yield: "border-sky-500 text-sky-600",
+  withdrawal: "border-amber-500 text-amber-600",
+  fee: "border-rose-500 text-rose-600",
+  projection: "border-slate-400 text-slate-500",
+};
+
 interface TaskCardProps {
   task: Task;
+  // the card's own currency, or its column's for cards that have none
+  currency?: string;
+  // the card's tags, looked up by the column
+  tags?: Tag[];
   isOverlay?: boolean;
 }
 
@@ -44,7 +65,8 @@ function useIsMobile() {
   return isMobile;
 }
 
-export function TaskCard({ task, isOverlay }: TaskCardProps) {
+export function TaskCard({ task, currency, tags = [], isOverlay }: TaskCardProps) {
+  const { t } = useI18n();
   const isMobile = useIsMobile();
 
   const {
@@ -57,7 +79,7 @@ export function TaskCard({ task, isOverlay }: TaskCardProps) {
   } = useSortable({
     id: task.id,
     data: { type: "Task", task },
-    attributes: { roleDescription: "Task" },
+    attributes: { roleDescription: t("dnd.cardRole") },
   });
 
   const style = { transition, transform: CSS.Translate.toString(transform) };
@@ -71,16 +93,11 @@ export function TaskCard({ task, isOverlay }: TaskCardProps) {
     },
   });
 
-  const formattedDate = task.dateISO
-    ? new Date(task.dateISO).toLocaleDateString()
-    : "--";
+  const formattedDate = formatDate(task.dateISO);
 
-  const formattedAmount = new Intl.NumberFormat("pt-BR", {
-    style: "currency",
-    currency: "BRL",
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
-  }).format(task.content);
+  // withdrawals and fees show as negative, the way they count in the totals
+  const formattedAmount = formatMoney(signedAmount(task), currency ?? task.currency);
+  const kind = taskKind(task);
 
   return (
     <Card
@@ -88,7 +105,7 @@ export function TaskCard({ task, isOverlay }: TaskCardProps) {
       style={style}
       className={`
         ${variants({ dragging: isOverlay ? "overlay" : isDragging ? "over" : undefined })}
-        ${task.isProjection ? "opacity-60" : ""}
+        ${isProjection(task) ? "opacity-60" : ""}
       `}
     >
 
@@ -105,15 +122,15 @@ export function TaskCard({ task, isOverlay }: TaskCardProps) {
               {...listeners}
               className="absolute left-2 top-2 p-1.5 text-secondary-foreground/50 h-auto cursor-grab"
             >
-              <span className="sr-only">Mover tarefa</span>
+              <span className="sr-only">{t("card.move")}</span>
               <GripVertical />
             </Button>
           )}
 
           <div className={`text-xl ${isMobile ? "ml-8 -translate-y-0.5" : ""}`}>{formattedAmount}</div>
 
-          <Badge variant={"outline"} className="ml-auto font-semibold h-6">
-            {task.isProjection ? "Projeção" : "Saldo"}
+          <Badge variant={"outline"} className={`ml-auto font-semibold h-6 ${KIND_BADGE_STYLES[kind]}`}>
+            {t(TASK_KIND_LABELS[kind])}
           </Badge>
 
         </div>
@@ -121,6 +138,29 @@ export function TaskCard({ task, isOverlay }: TaskCardProps) {
       </CardHeader>
 
       <CardContent className="px-3 pt-3 pb-6 text-left whitespace-pre-wrap">
+        {task.description && (
+          <p className="font-medium truncate" title={task.description}>
+            {task.description}
+          </p>
+        )}
+        {task.notes && (
+          <p className="text-sm text-gray-500 line-clamp-2" title={task.notes}>
+            {task.notes}
+          </p>
+        )}
+        {tags.length > 0 && (
+          <div className="flex flex-wrap gap-1 my-1 whitespace-normal">
+            {tags.map((tag) => (
+              <span
+                key={tag.id}
+                className="px-2 py-0.5 rounded-full text-xs font-medium border"
+                style={{ color: tag.color, borderColor: tag.color, background: `${tag.color}18` }}
+              >
+                {tag.name}
+              </span>
+            ))}
+          </div>
+        )}
         <p className="text-gray-400">{formattedDate}</p>
       </CardContent>
 
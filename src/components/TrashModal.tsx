@@ -0,0 +1,145 @@
+// File: TrashModal.tsx
+
+import { useEffect, useState } from "react";
+import { subscribeSettings, subscribeTrash } from "../lib/trash";
+import { formatMoney } from "../lib/money";
+import {
+  DEFAULT_SETTINGS,
+  normalizeCurrencyCode,
+  type Column,
+  type Place,
+  type StorageAdapter,
+  type Task,
+  type TrashEntry,
+  type TreeBackend,
+} from "../lib/storage";
+import { formatDateTime, t } from "../lib/i18n";
+import { useModalHotkeys } from "../hooks/useModalHotkeys";
+import { useI18n } from "../hooks/useI18n";
+
+type Persist = (change: (target: StorageAdapter) => Promise<unknown>) => Promise<boolean>;
+
+function describe(entry: TrashEntry) {
+  if (entry.kind === "column") {
+    const count = Object.keys(entry.tasks ?? {}).length;
+    return t("trash.column", { title: (entry.record as Column).title, cards: t("count.cards", { count }) });
+  }
+  if (entry.kind === "place") return t("trash.place", { name: (entry.record as Place).name });
+  const task = entry.record as Task;
+  return t("trash.card", { amount: formatMoney(task.content, normalizeCurrencyCode(task.currency)) });
+}
+
+export function TrashModal({ backend, persist, onClose }: { backend: TreeBackend; persist: Persist; onClose: () => void }) {
+  const { t } = useI18n();
+  const [entries, setEntries] = useState<TrashEntry[] | null>(null);
+  const [retentionDays, setRetentionDays] = useState(DEFAULT_SETTINGS.trashRetentionDays);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    const fail = (err: unknown) => setError(err instanceof Error ? err.message : String(err));
+    const unsubs = [
+      subscribeTrash(backend, setEntries, fail),
+      subscribeSettings(backend, (settings) => setRetentionDays(settings.trashRetentionDays), fail),
+    ];
+    return () => unsubs.forEach((unsub) => unsub());
+  }, [backend]);
+
+  useModalHotkeys({ onCancel: onClose, onConfirm: onClose });
+
+  async function run(change: (target: StorageAdapter) => Promise<unknown>) {
+    setBusy(true);
+    try {
+      await persist(change);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function purge(ids: string[], message: string) {
+    if (ids.length === 0 || !confirm(message)) return;
+    run((s) => s.purgeTrash(ids));
+  }
+
+  function saveRetention(value: string) {
+    const days = Number(value);
+    if (!Number.isInteger(days) || days <= 0) {
+      alert(t("trash.retentionInvalid"));
+      return;
+    }
+    if (days !== retentionDays) run((s) => s.editSettings({ trashRetentionDays: days }));
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-3" role="dialog" aria-modal>
+      <div className="w-full max-w-2xl rounded-2xl border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 shadow-2xl overflow-hidden">
+        <div className="px-5 py-4 border-b border-slate-200 dark:border-slate-800 space-y-2">
+          <div>
+            <h3 className="text-lg font-semibold">{t("trash.title")}</h3>
+            <p className="text-sm text-slate-500">{t("trash.subtitle")}</p>
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            {t("trash.retentionBefore")}
+            <input
+              key={retentionDays}
+              type="number"
+              min={1}
+              step={1}
+              defaultValue={retentionDays}
+              onBlur={(e) => saveRetention(e.target.value)}
+              className="w-20 px-2 py-1 rounded border"
+            />
+            {t("trash.retentionAfter")}
+          </label>
+        </div>
+
+        <div className="p-5 space-y-3 max-h-[60vh] overflow-auto text-sm">
+          {error && <div className="text-rose-600">{error}</div>}
+          {!entries && !error && <div className="text-slate-500">{t("common.loading")}</div>}
+          {entries && entries.length === 0 && <div className="text-slate-500">{t("trash.empty")}</div>}
+
+          {entries?.map((entry) => (
+            <div
+              key={entry.id}
+              className="flex flex-wrap items-center gap-2 rounded-xl border border-slate-200 dark:border-slate-800 p-3"
+            >
+              <div className="flex-1 min-w-0">
+                <div className="truncate">{describe(entry)}</div>
+                <div className="text-xs text-slate-500">
+                  {t("trash.deletedAt", { date: formatDateTime(entry.deletedAt) })}
+                </div>
+              </div>
+              <button
+                onClick={() => run((s) => s.restoreFromTrash(entry.id))}
+                disabled={busy}
+                className="px-2 py-1 rounded border text-sm hover:bg-slate-50 dark:hover:bg-slate-800 disabled:opacity-50"
+              >
+                {t("trash.restore")}
+              </button>
+              <button
+                onClick={() => purge([entry.id], t("trash.confirmPurge", { item: describe(entry) }))}
+                disabled={busy}
+                className="px-2 py-1 rounded border text-sm text-rose-600 hover:bg-rose-50 dark:hover:bg-rose-950 disabled:opacity-50"
+              >
+                {t("common.delete")}
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2 justify-end px-5 py-4 border-t border-slate-200 dark:border-slate-800">
+          <button
+            onClick={() => purge(entries?.map((e) => e.id) ?? [], t("trash.confirmEmpty"))}
+            disabled={busy || !entries?.length}
+            className="px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-700 text-rose-600 hover:bg-rose-50 dark:hover:bg-rose-950 disabled:opacity-50"
+          >
+            {t("trash.emptyAll")}
+          </button>
+          <button onClick={onClose} className="px-3 py-2 rounded-lg bg-sky-700 text-white hover:opacity-90">
+            {t("common.close")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
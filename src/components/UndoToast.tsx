@@ -0,0 +1,48 @@
+// File: UndoToast.tsx
+
+import { useEffect } from "react";
+import { ACTIVITY_OP_LABELS, type ActivityEntry } from "../lib/activity";
+import { useI18n } from "../hooks/useI18n";
+
+const TOAST_DURATION_MS = 6000;
+
+export function UndoToast({
+  entry,
+  onUndo,
+  onDismiss,
+}: {
+  entry: ActivityEntry;
+  onUndo: () => void;
+  onDismiss: () => void;
+}) {
+  const { t } = useI18n();
+
+  useEffect(() => {
+    const timer = window.setTimeout(onDismiss, TOAST_DURATION_MS);
+    return () => window.clearTimeout(timer);
+    // a new entry restarts the timer
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [entry.id]);
+
+  return (
+    <div
+      className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 rounded-xl border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 shadow-2xl px-4 py-3 text-sm"
+      role="status"
+      aria-live="polite"
+    >
+      <span>{t(ACTIVITY_OP_LABELS[entry.op])}.</span>
+      <button
+        onClick={() => {
+          onUndo();
+          onDismiss();
+        }}
+        className="font-medium text-sky-700 dark:text-sky-400 hover:underline"
+      >
+        {t("board.undo")}
+      </button>
+      <button onClick={onDismiss} className="text-slate-500 hover:text-slate-700" aria-label={t("common.close")}>
+        ×
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from "react";
+import { getAuthState, subscribeAuth } from "../lib/auth";
+
+export function useAuth() {
+  return useSyncExternalStore(subscribeAuth, getAuthState);
+}
@@ -0,0 +1,356 @@
+import { useEffect, useRef, useState } from "react";
+import { createFirebaseStorage } from "../lib/db";
+import { createMemoryBackend } from "../lib/memoryStorage";
+import { localStoreName, openLocalStore, type LocalStore } from "../lib/idbStorage";
+import { replayQueue, resolveConflict, type SyncConflict } from "../lib/sync";
+import { getConnectionState, reportError, reportQueue, reportSyncing, subscribeConnection } from "../lib/connection";
+import { currentActor, userRoot } from "../lib/auth";
+import { boardRoot } from "../lib/boards";
+import {
+  createStorage,
+  snapshotToTree,
+  TransferError,
+  TrashError,
+  UndoError,
+  type BoardSnapshot,
+  type StorageAdapter,
+  type TreeBackend,
+} from "../lib/storage";
+import { runMigrations } from "../lib/migrations";
+import { purgeExpiredTrash } from "../lib/trash";
+import { t } from "../lib/i18n";
+import type { ActivityEntry, ActivityLogOptions } from "../lib/activity";
+
+const CONNECT_TIMEOUT_MS = 10000;
+const MIRROR_DELAY_MS = 500;
+const MAX_HISTORY = 50;
+
+type PersistOptions = { quiet?: boolean; failureMessage?: string };
+
+type History = { undo: ActivityEntry[]; redo: ActivityEntry[] };
+
+// picks the adapter the board talks to: Firebase while it works, the IndexedDB store while it doesn't.
+// Offline writes are queued and replayed once Firebase is reachable again.
+// Everything is scoped to one board of the signed-in user: remount the caller when either changes.
+export function useBoardStorage({
+  uid,
+  boardId,
+  seed,
+  onSnapshot,
+}: {
+  uid: string;
+  boardId: string;
+  seed: () => Partial<BoardSnapshot>;
+  onSnapshot: (snapshot: BoardSnapshot) => void;
+}) {
+  const [history, setHistory] = useState<History>({ undo: [], redo: [] });
+
+  // every change made in this session becomes an undo step; undoing and redoing move steps
+  // between the stacks themselves
+  const [activity] = useState<ActivityLogOptions>(() => ({
+    actor: currentActor,
+    onCommit(entry) {
+      // purges and schedule runs happen on their own when a board opens and are not something to undo
+      if (entry.op === "undo" || entry.op === "redo" || entry.op === "purgeTrash" || entry.op === "runSchedules") return;
+      setHistory((h) => ({ undo: [...h.undo, entry].slice(-MAX_HISTORY), redo: [] }));
+    },
+  }));
+  const [{ backend: firebaseBackend, storage: firebaseStorage }] = useState(() =>
+    createFirebaseStorage(`${userRoot(uid)}/${boardRoot(boardId)}`, activity)
+  );
+  const [storage, setStorageState] = useState<StorageAdapter>(firebaseStorage);
+  const [offlineMode, setOfflineMode] = useState(false);
+  const [offlineBackend, setOfflineBackend] = useState<TreeBackend | null>(null);
+  const [queuedWrites, setQueuedWrites] = useState(0);
+  const [syncing, setSyncing] = useState(false);
+  const [conflict, setConflict] = useState<SyncConflict | null>(null);
+
+  const localStore = useRef<Promise<LocalStore | null> | null>(null);
+  const fallback = useRef<{ backend: TreeBackend; storage: StorageAdapter } | null>(null);
+  const offlineRef = useRef(false);
+  const syncingRef = useRef(false);
+  const mirrorTimer = useRef<number | undefined>(undefined);
+  const storageRef = useRef<StorageAdapter>(firebaseStorage);
+  const onSnapshotRef = useRef(onSnapshot);
+  onSnapshotRef.current = onSnapshot;
+
+  function setStorage(next: StorageAdapter) {
+    storageRef.current = next;
+    setStorageState(next);
+  }
+
+  function openLocal() {
+    if (!localStore.current) {
+      localStore.current = openLocalStore(localStoreName(uid, boardId), snapshotToTree(seed()), activity).catch((err) => {
+        console.error("IndexedDB unavailable, offline changes will not survive a reload:", err);
+        return null;
+      });
+    }
+    return localStore.current;
+  }
+
+  async function enterOfflineMode() {
+    if (!offlineRef.current) {
+      console.warn("Entering offline mode: Firebase inaccessible. Changes are kept in this browser.");
+    }
+    offlineRef.current = true;
+
+    const local = await openLocal();
+    if (!local && !fallback.current) {
+      const backend = createMemoryBackend(snapshotToTree(seed()));
+      fallback.current = { backend, storage: createStorage(backend) };
+    }
+    const offline = local ?? (fallback.current as NonNullable<typeof fallback.current>);
+
+    setOfflineMode(true);
+    setOfflineBackend(offline.backend);
+    setStorage(offline.storage);
+    return offline.storage;
+  }
+
+  function leaveOfflineMode() {
+    offlineRef.current = false;
+    setOfflineMode(false);
+    setStorage(firebaseStorage);
+  }
+
+  async function syncNow() {
+    const local = await openLocal();
+    if (!local || syncingRef.current) return;
+
+    syncingRef.current = true;
+    setSyncing(true);
+    reportSyncing(true);
+    try {
+      const found = await replayQueue(local, firebaseBackend);
+      setConflict(found);
+      if (!found) {
+        reportError(null);
+        leaveOfflineMode();
+      }
+    } catch (err) {
+      console.warn("Sync failed, staying offline:", err);
+      reportError(err);
+    } finally {
+      syncingRef.current = false;
+      setSyncing(false);
+      reportSyncing(false);
+    }
+  }
+
+  async function resolve(keep: "local" | "server") {
+    const local = await openLocal();
+    if (!local || !conflict) return;
+
+    try {
+      await resolveConflict(local, firebaseBackend, conflict, keep);
+      setConflict(null);
+    } catch (err) {
+      console.warn("Could not resolve conflict, staying offline:", err);
+      return;
+    }
+    await syncNow();
+  }
+
+  // queued writes from a previous session go out first; retry whenever the RTDB reconnects
+  // or the browser is back online. A disconnect switches to the offline store right away: Firebase
+  // writes neither fail nor finish while disconnected, and the SDK only keeps them in memory
+  useEffect(() => {
+    let cancelled = false;
+    let unsubQueue: (() => void) | undefined;
+
+    openLocal().then(async (local) => {
+      if (!local || cancelled) return;
+      unsubQueue = local.subscribeQueue((count) => {
+        setQueuedWrites(count);
+        reportQueue(count);
+      });
+      if ((await local.pendingWrites()).length > 0) {
+        await enterOfflineMode();
+        await syncNow();
+      }
+    });
+
+    const onOnline = () => {
+      if (offlineRef.current) syncNow();
+    };
+    window.addEventListener("online", onOnline);
+
+    let wasConnected = getConnectionState().connected;
+    const unsubConnection = subscribeConnection(() => {
+      const { connected } = getConnectionState();
+      if (connected && !wasConnected) onOnline();
+      if (!connected && wasConnected && !offlineRef.current) enterOfflineMode();
+      wasConnected = connected;
+    });
+
+    return () => {
+      cancelled = true;
+      unsubQueue?.();
+      // lets the database be deleted together with its board
+      localStore.current?.then((local) => local?.close());
+      unsubConnection();
+      window.removeEventListener("online", onOnline);
+      window.clearTimeout(mirrorTimer.current);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // subscribe to the active adapter; while online the local store mirrors the server
+  useEffect(() => {
+    let unsubs: (() => void)[] = [];
+    let received = false;
+    let failed = false;
+    let cancelled = false;
+    const online = storage === firebaseStorage;
+
+    const fail = (err: unknown) => {
+      if (failed || !online) return;
+      failed = true;
+      console.error("Failed to read from Firebase, entering offline mode:", err);
+      reportError(err);
+      enterOfflineMode();
+    };
+
+    // the RTDB neither errors nor answers while the network is down, so give up after a while
+    const timer = online
+      ? window.setTimeout(() => {
+        if (!received) fail(new Error("Timed out waiting for the first snapshot"));
+      }, CONNECT_TIMEOUT_MS)
+      : undefined;
+
+    // the trash and the settings are not part of the snapshot, so they are followed on their own
+    // for the mirror; it waits until all three have answered so it never blanks one of them
+    const mirrored: { snapshot?: BoardSnapshot; trash?: unknown; settings?: unknown } = {};
+    const scheduleMirror = () => {
+      const { snapshot } = mirrored;
+      if (!snapshot || !("trash" in mirrored) || !("settings" in mirrored)) return;
+      window.clearTimeout(mirrorTimer.current);
+      mirrorTimer.current = window.setTimeout(() => {
+        const tree = { ...snapshotToTree(snapshot), trash: mirrored.trash, settings: mirrored.settings };
+        openLocal().then((local) => local?.mirror(tree));
+      }, MIRROR_DELAY_MS);
+    };
+
+    const subscribe = () => {
+      if (cancelled) return;
+      try {
+        unsubs.push(
+          storage.subscribeAll((snapshot) => {
+            received = true;
+            onSnapshotRef.current(snapshot);
+            if (!online) return;
+            mirrored.snapshot = snapshot;
+            scheduleMirror();
+          }, fail)
+        );
+        if (!online) return;
+        (["trash", "settings"] as const).forEach((key) => {
+          unsubs.push(
+            firebaseBackend.subscribe(
+              key,
+              (value) => {
+                mirrored[key] = value;
+                scheduleMirror();
+              },
+              fail
+            )
+          );
+        });
+      } catch (err) {
+        fail(err);
+      }
+    };
+
+    // the server tree is upgraded before anyone reads it; the local store upgrades itself on open
+    if (online) {
+      runMigrations(firebaseBackend).then(() => {
+        subscribe();
+        purgeExpiredTrash(firebaseBackend, firebaseStorage).catch((err) => {
+          console.warn("Could not purge the trash:", err);
+        });
+        firebaseStorage.runSchedules().catch((err) => {
+          console.warn("Could not run the schedules:", err);
+        });
+      }, fail);
+    } else {
+      subscribe();
+    }
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+      try {
+        unsubs.forEach((unsub) => unsub());
+        unsubs = [];
+      } catch (e) {
+        console.error("Error clearing subscription:", e);
+      }
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [storage]);
+
+  // runs a change against the active adapter; if Firebase fails, the change is replayed on the
+  // offline store, which queues it for later. Resolves to whether the change was kept somewhere.
+  async function persist(change: (target: StorageAdapter) => Promise<unknown>, { quiet = false, failureMessage }: PersistOptions = {}) {
+    try {
+      await change(storageRef.current);
+      return true;
+    } catch (err) {
+      console.error(err);
+
+      // a rejected transfer, undo or restore is an answer, not a connectivity problem
+      if (err instanceof TransferError || err instanceof UndoError || err instanceof TrashError || offlineRef.current) {
+        alert(err instanceof Error ? err.message : t("persist.failed"));
+        return false;
+      }
+
+      const offline = await enterOfflineMode();
+      try {
+        await change(offline);
+      } catch (localErr) {
+        console.error(localErr);
+        return false;
+      }
+
+      if (quiet) {
+        console.warn("Could not save to Firebase. The change is kept to sync later.");
+        return true;
+      }
+      alert(failureMessage ?? t("persist.queued"));
+      return true;
+    }
+  }
+
+  async function undo() {
+    const step = history.undo[history.undo.length - 1];
+    if (!step || !(await persist((s) => s.revert(step.changes, "undo"), { quiet: true }))) return;
+    setHistory((h) => ({ undo: h.undo.filter((e) => e.id !== step.id), redo: [...h.redo, step] }));
+  }
+
+  async function redo() {
+    const step = history.redo[history.redo.length - 1];
+    if (!step || !(await persist((s) => s.revert(step.changes, "redo"), { quiet: true }))) return;
+    setHistory((h) => ({ undo: [...h.undo, step], redo: h.redo.filter((e) => e.id !== step.id) }));
+  }
+
+  return {
+    // the board on the server, for tools that work on the raw tree
+    remote: firebaseBackend,
+    // the tree behind the adapter in use: the server, or the local store while offline
+    current: offlineMode && offlineBackend ? offlineBackend : firebaseBackend,
+    offlineMode,
+    queuedWrites,
+    syncing,
+    conflict,
+    persist,
+    // the most recent undoable change, if any
+    lastChange: history.undo.length > 0 ? history.undo[history.undo.length - 1] : null,
+    canUndo: history.undo.length > 0,
+    canRedo: history.redo.length > 0,
+    undo,
+    redo,
+    syncNow,
+    resolveConflict: resolve,
+  };
+}
@@ -0,0 +1,107 @@
+import { useEffect, useState } from "react";
+import { createFirebaseBackend } from "../lib/db";
+import { userRoot } from "../lib/auth";
+import { createBoardDirectory, type BoardInfo } from "../lib/boards";
+import { adoptLegacyQueue, deleteLocalStore, localStoreName } from "../lib/idbStorage";
+import { t } from "../lib/i18n";
+
+// the board list and the last opened board are cached per user, so the app can still open
+// the right board when Firebase is unreachable
+function cacheKey(uid: string, key: "boards" | "active-board") {
+  return `dnd-investments:${key}:${uid}`;
+}
+
+function readCachedBoards(uid: string): BoardInfo[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(cacheKey(uid, "boards")) ?? "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function useBoards(uid: string) {
+  const [directory] = useState(() =>
+    createBoardDirectory(createFirebaseBackend(userRoot(uid)), { backend: createFirebaseBackend(""), userPath: userRoot(uid) })
+  );
+  const [boards, setBoards] = useState<BoardInfo[]>(() => readCachedBoards(uid));
+  const [activeId, setActiveId] = useState<string | null>(() => localStorage.getItem(cacheKey(uid, "active-board")));
+
+  useEffect(() => {
+    // data from before accounts existed comes first, so a new account gets it as its first board;
+    // named in the language in use when the account gets its first board
+    directory
+      .claimLegacyData(t("boards.legacyName"))
+      .then((legacyId) => (legacyId ? adoptLegacyQueue(localStoreName(uid, legacyId)) : undefined))
+      .catch((err) => {
+        console.warn("Could not move the data saved before accounts existed:", err);
+      })
+      .then(() => directory.ensureDefaultBoard(t("boards.defaultName")))
+      .catch((err) => {
+        console.warn("Could not check for a default board:", err);
+      });
+
+    return directory.subscribeBoards(
+      (list) => {
+        setBoards(list);
+        localStorage.setItem(cacheKey(uid, "boards"), JSON.stringify(list));
+      },
+      (err) => console.error("Failed to read the board list:", err)
+    );
+  }, [directory, uid]);
+
+  const activeBoard = boards.find((b) => b.id === activeId) ?? boards[0] ?? null;
+
+  function selectBoard(id: string) {
+    setActiveId(id);
+    localStorage.setItem(cacheKey(uid, "active-board"), id);
+  }
+
+  async function run<T>(action: () => Promise<T>, failureMessage: string) {
+    try {
+      return await action();
+    } catch (err) {
+      console.error(err);
+      alert(failureMessage);
+      return null;
+    }
+  }
+
+  async function createBoard(name: string) {
+    const id = await run(() => directory.createBoard(name), t("boards.createFailed"));
+    if (id) selectBoard(id);
+  }
+
+  async function renameBoard(id: string, name: string) {
+    await run(() => directory.renameBoard(id, name), t("boards.renameFailed"));
+  }
+
+  async function duplicateBoard(id: string, name: string) {
+    const newId = await run(() => directory.duplicateBoard(id, name), t("boards.duplicateFailed"));
+    if (newId) selectBoard(newId);
+  }
+
+  async function deleteBoard(id: string) {
+    if (boards.length <= 1) {
+      alert(t("boards.deleteLast"));
+      return;
+    }
+    const done = await run(() => directory.deleteBoard(id).then(() => true), t("boards.deleteFailed"));
+    if (!done) return;
+
+    if (id === activeBoard?.id) selectBoard(boards.find((b) => b.id !== id)!.id);
+    deleteLocalStore(localStoreName(uid, id)).catch((err) => {
+      console.warn("Could not delete the local copy of the board:", err);
+    });
+  }
+
+  return {
+    boards,
+    activeBoard,
+    selectBoard,
+    createBoard,
+    renameBoard,
+    duplicateBoard,
+    deleteBoard,
+  };
+}
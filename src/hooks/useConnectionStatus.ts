@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from "react";
+import { getConnectionState, getConnectionStatus, subscribeConnection } from "../lib/connection";
+
+export function useConnectionStatus() {
+  const state = useSyncExternalStore(subscribeConnection, getConnectionState);
+  return { ...state, status: getConnectionStatus(state) };
+}
@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from "react";
+import { getLocale, setLocale, subscribeLocale, t } from "../lib/i18n";
+
+// re-renders the caller when the language changes; t itself always reads the current locale
+export function useI18n() {
+  const locale = useSyncExternalStore(subscribeLocale, getLocale);
+  return { locale, setLocale, t };
+}
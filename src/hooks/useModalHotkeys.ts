@@ -17,6 +17,8 @@ export function useModalHotkeys({
         e.preventDefault();
         onCancel();
       } else if (e.key === "Enter") {
+        // Enter makes a new line in a textarea; Ctrl+Enter still confirms from there
+        if (e.target instanceof HTMLTextAreaElement && !(e.ctrlKey || e.metaKey)) return;
         e.preventDefault();
         onConfirm();
       }
@@ -0,0 +1,260 @@
+// src/lib/activity.ts
+import { readPath, writePath } from "./memoryStorage";
+import { genId, sameValue, type TreeBackend, type TreeUpdates } from "./storage";
+import type { MessageKey } from "./i18n";
+
+type Tree = Record<string, unknown>;
+
+// the storage adapter operations that end up in the log
+export type ActivityOp =
+  | "addColumn"
+  | "editColumn"
+  | "removeColumn"
+  | "updateColumnsOrder"
+  | "updateTasksOrder"
+  | "addTask"
+  | "addTasks"
+  | "editTask"
+  | "moveTask"
+  | "removeTask"
+  | "transferTask"
+  | "addPlace"
+  | "editPlace"
+  | "removePlace"
+  | "reorderPlaces"
+  | "upsertPlaces"
+  | "addTag"
+  | "editTag"
+  | "removeTag"
+  | "addSchedule"
+  | "editSchedule"
+  | "removeSchedule"
+  | "runSchedules"
+  | "restoreFromTrash"
+  | "purgeTrash"
+  | "editSettings"
+  | "editCurrency"
+  | "importBackup"
+  | "repair"
+  | "undo"
+  | "redo";
+
+// catalog keys; screens run them through t()
+export const ACTIVITY_OP_LABELS: Record<ActivityOp, MessageKey> = {
+  addColumn: "activity.op.addColumn",
+  editColumn: "activity.op.editColumn",
+  removeColumn: "activity.op.removeColumn",
+  updateColumnsOrder: "activity.op.updateColumnsOrder",
+  updateTasksOrder: "activity.op.updateTasksOrder",
+  addTask: "activity.op.addTask",
+  addTasks: "activity.op.addTasks",
+  editTask: "activity.op.editTask",
+  moveTask: "activity.op.moveTask",
+  removeTask: "activity.op.removeTask",
+  transferTask: "activity.op.transferTask",
+  addPlace: "activity.op.addPlace",
+  editPlace: "activity.op.editPlace",
+  removePlace: "activity.op.removePlace",
+  reorderPlaces: "activity.op.reorderPlaces",
+  upsertPlaces: "activity.op.upsertPlaces",
+  addTag: "activity.op.addTag",
+  editTag: "activity.op.editTag",
+  removeTag: "activity.op.removeTag",
+  addSchedule: "activity.op.addSchedule",
+  editSchedule: "activity.op.editSchedule",
+  removeSchedule: "activity.op.removeSchedule",
+  runSchedules: "activity.op.runSchedules",
+  restoreFromTrash: "activity.op.restoreFromTrash",
+  purgeTrash: "activity.op.purgeTrash",
+  editSettings: "activity.op.editSettings",
+  editCurrency: "activity.op.editCurrency",
+  importBackup: "activity.op.importBackup",
+  repair: "activity.op.repair",
+  undo: "activity.op.undo",
+  redo: "activity.op.redo",
+};
+
+// changes that lose data or move money; the board offers to undo them right away
+export const DESTRUCTIVE_OPS: ActivityOp[] = ["removeColumn", "removeTask", "transferTask", "removePlace", "removeTag", "removeSchedule"];
+
+export type ActivityActor = {
+  uid: string;
+  name: string;
+};
+
+// one record before and after the operation; null means it did not exist
+export type ActivityChange = {
+  path: string;
+  before: unknown;
+  after: unknown;
+};
+
+export type ActivityEntry = {
+  id: string;
+  at: string;
+  actor: ActivityActor | null;
+  op: ActivityOp;
+  changes: ActivityChange[];
+  // what the entry is about, resolved when it was written so filters survive later moves
+  columnIds: string[];
+  placeIds: string[];
+};
+
+// builds the log entry that goes out in the same multi-path update as the operation itself
+export interface ActivityLog {
+  record(op: ActivityOp, updates: TreeUpdates): Promise<TreeUpdates>;
+  // for operations that ran as a transaction and already know their before and after values
+  entry(op: ActivityOp, changes: ActivityChange[]): Promise<TreeUpdates>;
+  // to be called once updates built by record/entry were written
+  committed(updates: TreeUpdates): void;
+}
+
+export type ActivityLogOptions = {
+  actor?: () => ActivityActor | null;
+  // sees every entry that made it to the backend, e.g. to build an undo history
+  onCommit?: (entry: ActivityEntry) => void;
+};
+
+// the log lives next to the board data, one child per entry, never edited after it is written
+export const ACTIVITY_PATH = "activity";
+
+// collections keyed by id, logged one record at a time
+const KEYED = ["columns", "tasks", "places", "tags", "schedules", "tasksOrder", "trash", "settings"];
+
+// the record an update path belongs to: tasks/t1/content -> tasks/t1, columnsOrder -> columnsOrder
+function recordPath(path: string) {
+  const keys = path.split("/").filter(Boolean);
+  return KEYED.includes(keys[0]) && keys.length > 1 ? keys.slice(0, 2).join("/") : keys[0] ?? "";
+}
+
+function asTree(value: unknown): Tree | null {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as Tree) : null;
+}
+
+function idsOf(values: unknown[], field: string) {
+  return values.map((value) => asTree(value)?.[field]).filter((id): id is string => typeof id === "string" && id !== "");
+}
+
+export function createActivityLog(backend: TreeBackend, { actor = () => null, onCommit }: ActivityLogOptions = {}): ActivityLog {
+  async function changesFor(updates: TreeUpdates): Promise<ActivityChange[]> {
+    const paths = [...new Set(Object.keys(updates).map(recordPath))].filter(Boolean);
+    const before = await Promise.all(paths.map((path) => backend.read(path)));
+
+    // replay the updates on a scratch tree holding only the touched records
+    const scratch: Tree = {};
+    paths.forEach((path, i) => writePath(scratch, path, before[i]));
+    Object.entries(updates).forEach(([path, value]) => writePath(scratch, path, value));
+
+    return paths
+      .map((path, i) => ({ path, before: before[i] ?? null, after: readPath(scratch, path) }))
+      .filter((change) => !sameValue(change.before, change.after));
+  }
+
+  async function entry(op: ActivityOp, changes: ActivityChange[]): Promise<TreeUpdates> {
+    if (changes.length === 0) return {};
+
+    const columnIds = new Set<string>();
+    const placeIds = new Set<string>();
+    changes.forEach(({ path, before, after }) => {
+      const [collection, id] = path.split("/");
+      if (collection === "columns" || collection === "tasksOrder") columnIds.add(id);
+      if (collection === "places") placeIds.add(id);
+      if (collection === "tasks" || collection === "schedules") idsOf([before, after], "columnId").forEach((c) => columnIds.add(c));
+      if (collection === "columns") idsOf([before, after], "placeId").forEach((p) => placeIds.add(p));
+    });
+
+    // cards belong to a place through their column
+    const touchedColumns = new Set(changes.filter((c) => c.path.startsWith("columns/")).map((c) => c.path.split("/")[1]));
+    const others = [...columnIds].filter((id) => !touchedColumns.has(id));
+    const placeOfColumn = await Promise.all(others.map((id) => backend.read(`columns/${id}/placeId`)));
+    placeOfColumn.forEach((placeId) => {
+      if (typeof placeId === "string" && placeId) placeIds.add(placeId);
+    });
+
+    const id = genId("act");
+    const logged: ActivityEntry = {
+      id,
+      at: new Date().toISOString(),
+      actor: actor(),
+      op,
+      changes,
+      columnIds: [...columnIds],
+      placeIds: [...placeIds],
+    };
+    return { [`${ACTIVITY_PATH}/${id}`]: logged };
+  }
+
+  async function record(op: ActivityOp, updates: TreeUpdates) {
+    return { ...updates, ...(await entry(op, await changesFor(updates))) };
+  }
+
+  function committed(updates: TreeUpdates) {
+    if (!onCommit) return;
+    Object.entries(updates).forEach(([path, value]) => {
+      const [root, id] = path.split("/");
+      if (root === ACTIVITY_PATH && id) onCommit(value as ActivityEntry);
+    });
+  }
+
+  return { record, entry, committed };
+}
+
+function stringArray(value: unknown): string[] {
+  const list = Array.isArray(value) ? value : asTree(value) ? Object.values(value as Tree) : [];
+  return list.filter((item): item is string => typeof item === "string");
+}
+
+// the RTDB drops nulls and may hand arrays back as objects
+export function normalizeActivityEntry(id: string, raw: unknown): ActivityEntry {
+  const value = asTree(raw) ?? {};
+  const actor = asTree(value.actor);
+  const changes = Array.isArray(value.changes) ? value.changes : Object.values(asTree(value.changes) ?? {});
+  return {
+    id,
+    at: String(value.at ?? ""),
+    actor: actor ? { uid: String(actor.uid ?? ""), name: String(actor.name ?? "") } : null,
+    op: String(value.op ?? "") as ActivityOp,
+    changes: changes.map((change) => {
+      const c = asTree(change) ?? {};
+      return { path: String(c.path ?? ""), before: c.before ?? null, after: c.after ?? null };
+    }),
+    columnIds: stringArray(value.columnIds),
+    placeIds: stringArray(value.placeIds),
+  };
+}
+
+// newest first
+export function subscribeActivity(
+  backend: TreeBackend,
+  cb: (entries: ActivityEntry[]) => void,
+  onError?: (err: Error) => void
+) {
+  return backend.subscribe(
+    ACTIVITY_PATH,
+    (val) => {
+      const entries = Object.entries(asTree(val) ?? {}).map(([id, raw]) => normalizeActivityEntry(id, raw));
+      cb(entries.sort((a, b) => b.at.localeCompare(a.at)));
+    },
+    onError
+  );
+}
+
+export type ActivityFilter = {
+  columnId?: string;
+  placeId?: string;
+  // yyyy-mm-dd, inclusive, in local time
+  from?: string;
+  to?: string;
+};
+
+export function filterActivity(entries: ActivityEntry[], filter: ActivityFilter) {
+  const from = filter.from ? new Date(`${filter.from}T00:00:00`).getTime() : -Infinity;
+  const to = filter.to ? new Date(`${filter.to}T23:59:59.999`).getTime() : Infinity;
+  return entries.filter((e) => {
+    const at = new Date(e.at).getTime();
+    if (at < from || at > to) return false;
+    if (filter.columnId && !e.columnIds.includes(filter.columnId)) return false;
+    if (filter.placeId && !e.placeIds.includes(filter.placeId)) return false;
+    return true;
+  });
+}
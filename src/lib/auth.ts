@@ -0,0 +1,102 @@
+// src/lib/auth.ts
+import {
+  createUserWithEmailAndPassword,
+  onAuthStateChanged,
+  signInAnonymously,
+  signInWithEmailAndPassword,
+  signOut as firebaseSignOut,
+  type User,
+} from "firebase/auth";
+import { FirebaseError } from "firebase/app";
+import { auth } from "./firebase";
+import type { ActivityActor } from "./activity";
+import { t, type MessageKey } from "./i18n";
+
+export type AuthStatus = "loading" | "signed-in" | "signed-out";
+
+export type AuthState = {
+  status: AuthStatus;
+  user: User | null;
+};
+
+let state: AuthState = { status: "loading", user: null };
+
+const listeners = new Set<() => void>();
+let stopWatching: (() => void) | null = null;
+
+function setState(next: AuthState) {
+  state = next;
+  listeners.forEach((listener) => listener());
+}
+
+function watchAuth() {
+  if (stopWatching) return;
+  stopWatching = onAuthStateChanged(
+    auth,
+    (user) => setState({ status: user ? "signed-in" : "signed-out", user }),
+    (err) => {
+      console.error("Auth state error:", err);
+      setState({ status: "signed-out", user: null });
+    }
+  );
+}
+
+export function getAuthState() {
+  return state;
+}
+
+// starts listening to Firebase Auth on the first subscriber; the status stays "loading"
+// until Firebase has restored (or not) the previous session
+export function subscribeAuth(listener: () => void) {
+  watchAuth();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// every path a signed-in user reads or writes lives under this node
+export function userRoot(uid: string) {
+  return `users/${uid}`;
+}
+
+// who the activity log credits for a change
+export function currentActor(): ActivityActor | null {
+  const { user } = state;
+  if (!user) return null;
+  return { uid: user.uid, name: user.isAnonymous ? t("auth.guest") : user.email ?? user.uid };
+}
+
+const AUTH_ERRORS: Record<string, MessageKey> = {
+  "auth/invalid-email": "auth.error.invalidEmail",
+  "auth/missing-password": "auth.error.missingPassword",
+  "auth/weak-password": "auth.error.weakPassword",
+  "auth/email-already-in-use": "auth.error.emailInUse",
+  "auth/invalid-credential": "auth.error.wrongCredentials",
+  "auth/user-not-found": "auth.error.wrongCredentials",
+  "auth/wrong-password": "auth.error.wrongCredentials",
+  "auth/too-many-requests": "auth.error.tooManyRequests",
+  "auth/network-request-failed": "auth.error.network",
+  "auth/operation-not-allowed": "auth.error.notAllowed",
+};
+
+export function authErrorMessage(err: unknown) {
+  if (err instanceof FirebaseError) return AUTH_ERRORS[err.code] ? t(AUTH_ERRORS[err.code]) : err.message;
+  return err instanceof Error ? err.message : String(err);
+}
+
+export async function signInWithEmail(email: string, password: string) {
+  await signInWithEmailAndPassword(auth, email.trim(), password);
+}
+
+export async function signUpWithEmail(email: string, password: string) {
+  await createUserWithEmailAndPassword(auth, email.trim(), password);
+}
+
+export async function signInAsGuest() {
+  await signInAnonymously(auth);
+}
+
+export async function signOut() {
+  await firebaseSignOut(auth);
+}
@@ -0,0 +1,293 @@
+// src/lib/backup.ts
+import { planMigrations, SCHEMA_VERSION } from "./migrations";
+import { t } from "./i18n";
+import { findTagByName } from "./tags";
+import {
+  genId,
+  normalizeColumn,
+  normalizeCurrencySettings,
+  normalizeOrder,
+  normalizePlace,
+  normalizeSchedule,
+  normalizeTag,
+  normalizeTagIds,
+  normalizeTask,
+  normalizeTasksOrder,
+  snapshotToTree,
+  type BoardSnapshot,
+  type TreeUpdates,
+} from "./storage";
+
+type Tree = Record<string, unknown>;
+
+const BACKUP_FORMAT = "dnd-investments-backup";
+// layout of the file itself; the data inside follows schemaVersion
+const BACKUP_VERSION = 1;
+
+// what a backup holds: everything a board shows, without the activity log, trash or settings
+export const BACKUP_KEYS = ["columns", "columnsOrder", "tasks", "places", "placesOrder", "tasksOrder", "currency", "tags", "schedules"] as const;
+
+export type BackupFile = {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  schemaVersion: number;
+  exportedAt: string;
+  boardName?: string;
+  data: Tree;
+};
+
+export type ParsedBackup = {
+  snapshot: BoardSnapshot;
+  exportedAt: string | null;
+  boardName: string | null;
+  // records that were dropped or fixed while validating
+  warnings: string[];
+};
+
+export type ImportMode = "replace" | "merge";
+
+// what happens to an imported record whose id already exists on the board
+export type ConflictPolicy = "keep-current" | "use-imported" | "keep-both";
+
+// the file could not be read as a backup at all
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BackupError";
+  }
+}
+
+export function createBackup(snapshot: BoardSnapshot, boardName?: string): BackupFile {
+  const tree = snapshotToTree(snapshot);
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    boardName,
+    data: Object.fromEntries(BACKUP_KEYS.map((key) => [key, tree[key]])),
+  };
+}
+
+// the RTDB rejects undefined anywhere in an update
+function withoutUndefined(updates: TreeUpdates): TreeUpdates {
+  return JSON.parse(JSON.stringify(updates));
+}
+
+function isObject(value: unknown): value is Tree {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function records(value: unknown, label: string, warnings: string[]): [string, Tree][] {
+  if (value === undefined || value === null) return [];
+  if (!isObject(value)) {
+    warnings.push(t("backup.warning.collection", { label }));
+    return [];
+  }
+  return Object.entries(value).filter(([key, raw]) => {
+    if (isObject(raw)) return true;
+    warnings.push(t("backup.warning.record", { path: `${label}/${key}` }));
+    return false;
+  }) as [string, Tree][];
+}
+
+// reads a backup file, upgrades old data and runs every record through the normalize* rules;
+// anything that cannot be kept is reported instead of failing the whole import
+export function parseBackup(text: string): ParsedBackup {
+  let file: Partial<BackupFile>;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new BackupError(t("backup.error.json"));
+  }
+
+  if (!isObject(file) || file.format !== BACKUP_FORMAT || !isObject(file.data)) {
+    throw new BackupError(t("backup.error.format"));
+  }
+  // every backup records the schema it was made with; without it the migrations would take the
+  // amounts for pre-cents values and multiply them by 100
+  const schemaVersion = Number(file.schemaVersion);
+  if (!Number.isInteger(schemaVersion) || schemaVersion <= 0) {
+    throw new BackupError(t("backup.error.format"));
+  }
+  if (Number(file.version) > BACKUP_VERSION || Number(file.schemaVersion) > SCHEMA_VERSION) {
+    throw new BackupError(t("backup.error.newer"));
+  }
+
+  const warnings: string[] = [];
+  const { tree } = planMigrations({ ...file.data, schemaVersion: file.schemaVersion });
+
+  const columns = records(tree.columns, "columns", warnings).map(([id, raw]) => normalizeColumn({ ...raw, id }));
+  const places = records(tree.places, "places", warnings).map(([id, raw]) => normalizePlace({ ...raw, id }));
+  const tags = records(tree.tags, "tags", warnings)
+    .map(([id, raw]) => normalizeTag({ ...raw, id }))
+    .filter((tag) => tag.name);
+  const columnIds = new Set(columns.map((c) => c.id));
+  const placeIds = new Set(places.map((p) => p.id));
+  const tagIds = new Set(tags.map((tag) => tag.id));
+
+  const tasks = records(tree.tasks, "tasks", warnings)
+    .map(([id, raw]) => normalizeTask({ ...raw, id }))
+    .filter((task) => {
+      if (!Number.isFinite(task.content)) {
+        warnings.push(t("backup.warning.amount", { card: task.id }));
+        return false;
+      }
+      if (!columnIds.has(task.columnId)) {
+        warnings.push(t("backup.warning.column", { card: task.id, column: task.columnId || "—" }));
+        return false;
+      }
+      return true;
+    })
+    // a tag that is not in the backup just comes off the card
+    .map((task) => ({ ...task, tagIds: normalizeTagIds(task.tagIds?.filter((id) => tagIds.has(id))) }));
+
+  columns.forEach((column) => {
+    if (column.placeId && !placeIds.has(column.placeId)) {
+      warnings.push(t("backup.warning.place", { title: column.title }));
+      column.placeId = undefined;
+    }
+  });
+
+  const schedules = records(tree.schedules, "schedules", warnings)
+    .map(([id, raw]) => normalizeSchedule({ ...raw, id }))
+    .filter((schedule) => {
+      if (!columnIds.has(schedule.columnId)) {
+        warnings.push(t("backup.warning.scheduleColumn", { schedule: schedule.id, column: schedule.columnId || "—" }));
+        return false;
+      }
+      return true;
+    });
+
+  const tasksOrder = Object.fromEntries(
+    Object.entries(normalizeTasksOrder(tree.tasksOrder)).filter(([columnId]) => columnIds.has(columnId))
+  );
+
+  return {
+    snapshot: {
+      columns: orderBy(columns, normalizeOrder(tree.columnsOrder)),
+      columnsOrder: normalizeOrder(tree.columnsOrder).filter((id) => columnIds.has(id)),
+      tasks,
+      places: orderBy(places, normalizeOrder(tree.placesOrder)),
+      placesOrder: normalizeOrder(tree.placesOrder).filter((id) => placeIds.has(id)),
+      tasksOrder,
+      currency: normalizeCurrencySettings(tree.currency),
+      tags: tags.sort((a, b) => a.name.localeCompare(b.name)),
+      schedules: schedules.sort((a, b) => a.startDate.localeCompare(b.startDate) || a.id.localeCompare(b.id)),
+    },
+    exportedAt: typeof file.exportedAt === "string" ? file.exportedAt : null,
+    boardName: typeof file.boardName === "string" ? file.boardName : null,
+    warnings,
+  };
+}
+
+function orderBy<T extends { id: string }>(items: T[], order: string[]) {
+  const position = (id: string) => {
+    const at = order.indexOf(id);
+    return at === -1 ? order.length : at;
+  };
+  return items.slice().sort((a, b) => position(a.id) - position(b.id));
+}
+
+// ids present both on the board and in the backup
+export function importConflicts(current: BoardSnapshot, incoming: BoardSnapshot) {
+  const ids = (list: { id: string }[]) => new Set(list.map((x) => x.id));
+  const [columns, tasks, places] = [ids(current.columns), ids(current.tasks), ids(current.places)];
+  return {
+    columns: incoming.columns.filter((c) => columns.has(c.id)).length,
+    tasks: incoming.tasks.filter((t) => tasks.has(t.id)).length,
+    places: incoming.places.filter((p) => places.has(p.id)).length,
+  };
+}
+
+// replace: the backup's collections and orders overwrite the board's.
+// merge: records are added one by one; on an id already on the board the policy decides, and
+// "keep-both" gives the imported record a new id and repoints its references to it. Tags are matched
+// by name, case and accents aside, so a backup's "Bonus" lands on the board's "bônus". The board keeps its own base currency and rates
+export function importUpdates(
+  current: BoardSnapshot,
+  incoming: BoardSnapshot,
+  mode: ImportMode,
+  policy: ConflictPolicy = "keep-both"
+): TreeUpdates {
+  if (mode === "replace") {
+    const tree = snapshotToTree(incoming);
+    return withoutUndefined(Object.fromEntries(BACKUP_KEYS.map((key) => [key, tree[key] ?? null])));
+  }
+
+  const taken = {
+    columns: new Set(current.columns.map((c) => c.id)),
+    tasks: new Set(current.tasks.map((t) => t.id)),
+    places: new Set(current.places.map((p) => p.id)),
+    schedules: new Set(current.schedules.map((s) => s.id)),
+  };
+  const columnIds = new Map<string, string | null>();
+  const placeIds = new Map<string, string | null>();
+  const taskIds = new Map<string, string>();
+  const tagIds = new Map<string, string>();
+
+  // new id for a conflicting record, null when the imported record is skipped
+  const resolve = (collection: keyof typeof taken, id: string, prefix: string) => {
+    if (!taken[collection].has(id) || policy === "use-imported") return id;
+    return policy === "keep-both" ? genId(prefix) : null;
+  };
+
+  const updates: TreeUpdates = {};
+  const placesOrder = [...current.placesOrder];
+  const columnsOrder = [...current.columnsOrder];
+
+  const takenTags = new Set(current.tags.map((tag) => tag.id));
+  incoming.tags.forEach((tag) => {
+    const existing = findTagByName(current.tags, tag.name);
+    if (existing) {
+      tagIds.set(tag.id, existing.id);
+      return;
+    }
+    const id = takenTags.has(tag.id) ? genId("tag") : tag.id;
+    tagIds.set(tag.id, id);
+    updates[`tags/${id}`] = { ...tag, id };
+  });
+
+  incoming.places.forEach((place) => {
+    const id = resolve("places", place.id, "place");
+    placeIds.set(place.id, id);
+    if (!id) return;
+    updates[`places/${id}`] = { ...place, id };
+    if (!placesOrder.includes(id)) placesOrder.push(id);
+  });
+
+  incoming.columns.forEach((column) => {
+    const id = resolve("columns", column.id, "col");
+    columnIds.set(column.id, id);
+    if (!id) return;
+    const placeId = column.placeId ? placeIds.get(column.placeId) ?? column.placeId : null;
+    updates[`columns/${id}`] = { ...column, id, placeId };
+    if (!columnsOrder.includes(id)) columnsOrder.push(id);
+  });
+
+  incoming.tasks.forEach((task) => {
+    // a skipped column keeps the board's version, so its imported cards go to that one
+    const columnId = columnIds.get(task.columnId) ?? task.columnId;
+    const id = resolve("tasks", task.id, "task");
+    if (!id) return;
+    taskIds.set(task.id, id);
+    updates[`tasks/${id}`] = { ...task, id, columnId, tagIds: task.tagIds?.map((tagId) => tagIds.get(tagId) ?? tagId) };
+  });
+
+  // a schedule keeps its lastDate, so it does not make again the cards that came with it
+  incoming.schedules.forEach((schedule) => {
+    const id = resolve("schedules", schedule.id, "schedule");
+    if (!id) return;
+    updates[`schedules/${id}`] = { ...schedule, id, columnId: columnIds.get(schedule.columnId) ?? schedule.columnId };
+  });
+
+  Object.entries(incoming.tasksOrder).forEach(([columnId, order]) => {
+    const id = columnIds.get(columnId);
+    // orders only come along with a column that was imported as a new one
+    if (id && !taken.columns.has(id)) updates[`tasksOrder/${id}`] = order.map((taskId) => taskIds.get(taskId) ?? taskId);
+  });
+
+  updates.placesOrder = placesOrder;
+  updates.columnsOrder = columnsOrder;
+  return withoutUndefined(updates);
+}
@@ -0,0 +1,191 @@
+// src/lib/boards.ts
+import { genId, normalizeOrder, type TreeBackend, type TreeUpdates } from "./storage";
+import { BACKUP_KEYS } from "./backup";
+
+// a board keeps its own columns, tasks, places and orders under boards/{id}; the directory
+// (names and order) lives next to it so listing boards never downloads their contents
+export type BoardInfo = {
+  id: string;
+  name: string;
+  createdAt: string;
+};
+
+export interface BoardDirectory {
+  subscribeBoards(cb: (boards: BoardInfo[]) => void, onError?: (err: Error) => void): () => void;
+  // makes sure there is at least one board, moving data saved before boards existed into it
+  ensureDefaultBoard(name: string): Promise<string>;
+  // moves what every visitor shared at the database root before accounts existed into a new board,
+  // once for the whole database; resolves to that board when this user holds it
+  claimLegacyData(name: string): Promise<string | null>;
+  createBoard(name: string): Promise<string>;
+  renameBoard(id: string, name: string): Promise<void>;
+  duplicateBoard(id: string, name: string): Promise<string>;
+  deleteBoard(id: string): Promise<void>;
+}
+
+// what used to live directly under the user root, before boards existed, and before that at the database root
+const LEGACY_KEYS = ["columns", "columnsOrder", "tasks", "places", "placesOrder", "moneyFormat", "schemaVersion"];
+
+// node at the database root naming the board that took over the shared data
+const LEGACY_CLAIM = "legacyMovedTo";
+
+export function boardRoot(id: string) {
+  return `boards/${id}`;
+}
+
+function normalizeBoardInfo(raw: Partial<Record<keyof BoardInfo, unknown>> | null): BoardInfo {
+  return {
+    id: String(raw?.id ?? genId("board")),
+    name: String(raw?.name ?? ""),
+    createdAt: String(raw?.createdAt ?? ""),
+  };
+}
+
+// `legacy` is the database root and the user root's path inside it, for claimLegacyData
+export function createBoardDirectory(backend: TreeBackend, legacy?: { backend: TreeBackend; userPath: string }): BoardDirectory {
+  // subscribes to /boardsInfo and /boardsOrder
+  function subscribeBoards(cb: (boards: BoardInfo[]) => void, onError?: (err: Error) => void) {
+    let latestInfo: Record<string, BoardInfo> = {};
+    let latestOrder: string[] = [];
+    let ready = { info: false, order: false };
+
+    const runCb = () => {
+      if (!ready.info || !ready.order) return;
+      const all = Object.values(latestInfo).map(normalizeBoardInfo);
+      const ordered = latestOrder
+        .map((id) => all.find((b) => b.id === id))
+        .filter(Boolean) as BoardInfo[];
+      const remaining = all.filter((b) => !latestOrder.includes(b.id));
+      cb([...ordered, ...remaining]);
+    };
+
+    const unsubs = [
+      backend.subscribe("boardsInfo", (val) => {
+        latestInfo = (val as Record<string, BoardInfo>) || {};
+        ready = { ...ready, info: true };
+        runCb();
+      }, onError),
+      backend.subscribe("boardsOrder", (val) => {
+        latestOrder = normalizeOrder(val);
+        ready = { ...ready, order: true };
+        runCb();
+      }, onError),
+    ];
+
+    return () => unsubs.forEach((unsub) => unsub());
+  }
+
+  async function ensureDefaultBoard(name: string) {
+    const existing = normalizeOrder(await backend.read("boardsOrder"));
+    if (existing.length > 0) return existing[0];
+
+    // claim the first slot atomically so two tabs never both create the default board
+    const id = genId("board");
+    const claim = await backend.transaction<string[]>("boardsOrder", (order) =>
+      normalizeOrder(order).length > 0 ? undefined : [id]
+    );
+    if (!claim.committed) return normalizeOrder(claim.value)[0];
+
+    const updates: TreeUpdates = {
+      [`boardsInfo/${id}`]: { id, name, createdAt: new Date().toISOString() },
+    };
+    for (const key of LEGACY_KEYS) {
+      const value = await backend.read(key);
+      if (value === null || value === undefined) continue;
+      updates[`${boardRoot(id)}/${key}`] = value;
+      updates[key] = null;
+    }
+    await backend.update(updates);
+    return id;
+  }
+
+  async function claimLegacyData(name: string) {
+    if (!legacy) return null;
+    const root = legacy.backend;
+    const boardsPath = `${legacy.userPath}/${boardRoot("")}`;
+    const ownBoard = (claim: unknown) => (typeof claim === "string" && claim.startsWith(boardsPath) ? claim.slice(boardsPath.length) : null);
+
+    const [marker, ...found] = await Promise.all([root.read(LEGACY_CLAIM), ...LEGACY_KEYS.map((key) => root.read(key))]);
+    if (marker ? !ownBoard(marker) : found.every((value) => value === null || value === undefined)) return null;
+
+    // only one account ever takes the shared data; a claim whose move did not finish is resumed
+    const target = `${boardsPath}${genId("board")}`;
+    const claim = await root.transaction<string>(LEGACY_CLAIM, (current) => (current ? undefined : target));
+    const id = ownBoard(claim.value);
+    if (!id) return null;
+
+    // read again now that nobody else can claim it
+    const [values, info, orderVal] = await Promise.all([
+      Promise.all(LEGACY_KEYS.map((key) => root.read(key))),
+      backend.read(`boardsInfo/${id}`),
+      backend.read("boardsOrder"),
+    ]);
+    const updates: TreeUpdates = {};
+    LEGACY_KEYS.forEach((key, i) => {
+      if (values[i] === null || values[i] === undefined) return;
+      updates[`${boardsPath}${id}/${key}`] = values[i];
+      updates[key] = null;
+    });
+    if (!info) updates[`${legacy.userPath}/boardsInfo/${id}`] = { id, name, createdAt: new Date().toISOString() };
+    const order = normalizeOrder(orderVal);
+    if (!order.includes(id)) updates[`${legacy.userPath}/boardsOrder`] = [...order, id];
+
+    // one write on the database root, so the data is never in both places or in neither
+    if (Object.keys(updates).length > 0) await root.update(updates);
+    return id;
+  }
+
+  async function createBoard(name: string) {
+    const id = genId("board");
+    const order = normalizeOrder(await backend.read("boardsOrder"));
+    await backend.update({
+      [`boardsInfo/${id}`]: { id, name, createdAt: new Date().toISOString() },
+      boardsOrder: [...order, id],
+    });
+    return id;
+  }
+
+  async function renameBoard(id: string, name: string) {
+    await backend.update({ [`boardsInfo/${id}/name`]: name });
+  }
+
+  // copies what a backup holds plus the schema version; record ids are kept since they are scoped
+  // per board. The activity log, trash and settings belong to the source board and stay behind
+  async function duplicateBoard(id: string, name: string) {
+    const newId = genId("board");
+    const [contentVal, orderVal] = await Promise.all([backend.read(boardRoot(id)), backend.read("boardsOrder")]);
+    const content = (contentVal ?? {}) as Record<string, unknown>;
+    const order = normalizeOrder(orderVal);
+    const at = order.indexOf(id);
+    order.splice(at === -1 ? order.length : at + 1, 0, newId);
+
+    const updates: TreeUpdates = {
+      [`boardsInfo/${newId}`]: { id: newId, name, createdAt: new Date().toISOString() },
+      boardsOrder: order,
+    };
+    [...BACKUP_KEYS, "schemaVersion"].forEach((key) => {
+      updates[`${boardRoot(newId)}/${key}`] = content[key] ?? null;
+    });
+    await backend.update(updates);
+    return newId;
+  }
+
+  async function deleteBoard(id: string) {
+    const order = normalizeOrder(await backend.read("boardsOrder"));
+    await backend.update({
+      [`boardsInfo/${id}`]: null,
+      [boardRoot(id)]: null,
+      boardsOrder: order.filter((x) => x !== id),
+    });
+  }
+
+  return {
+    subscribeBoards,
+    ensureDefaultBoard,
+    claimLegacyData,
+    createBoard,
+    renameBoard,
+    duplicateBoard,
+    deleteBoard,
+  };
+}
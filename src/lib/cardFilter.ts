@@ -0,0 +1,104 @@
+// src/lib/cardFilter.ts
+import type { CardText, CurrencySettings, TaskKind } from "./storage";
+import type { MessageKey } from "./i18n";
+import type { Money } from "./money";
+import { cardCurrency, convertMoney } from "./currency";
+import { taskMatchesText } from "./search";
+import { taskMatchesTags } from "./tags";
+import { isProjection } from "./taskKinds";
+
+export type CardScope = "all" | "balance" | "projection";
+
+// non-matching cards are either dimmed in place or left out of their column
+export type FilterMode = "dim" | "hide";
+
+export type CardFilter = {
+  // words to find in the description or notes
+  text: string;
+  // the card's amount in the base currency, inclusive; null leaves that end open
+  minAmount: Money | null;
+  maxAmount: Money | null;
+  // yyyy-mm-dd, inclusive, in local time; cards without a date are left out once a range is set
+  from: string;
+  to: string;
+  scope: CardScope;
+  // the place of the card's column; null for any
+  placeId: string | null;
+  // cards carrying any of these
+  tagIds: string[];
+};
+
+export const EMPTY_CARD_FILTER: CardFilter = {
+  text: "",
+  minAmount: null,
+  maxAmount: null,
+  from: "",
+  to: "",
+  scope: "all",
+  placeId: null,
+  tagIds: [],
+};
+
+export const CARD_SCOPE_LABELS: Record<CardScope, MessageKey> = {
+  all: "filter.scope.all",
+  balance: "filter.scope.balance",
+  projection: "filter.scope.projection",
+};
+
+type FilterableTask = CardText & {
+  content: Money;
+  dateISO?: string | null;
+  kind?: TaskKind;
+  tagIds?: string[] | null;
+  currency?: string | null;
+};
+
+type FilterableColumn = {
+  placeId?: string | null;
+  currency?: string | null;
+};
+
+export function isFilterActive(filter: CardFilter) {
+  return (
+    filter.text.trim() !== "" ||
+    filter.minAmount !== null ||
+    filter.maxAmount !== null ||
+    filter.from !== "" ||
+    filter.to !== "" ||
+    filter.scope !== "all" ||
+    filter.placeId !== null ||
+    filter.tagIds.length > 0
+  );
+}
+
+// a yyyy-mm-dd range as timestamps covering both whole days; null leaves that end open
+export function dayBounds(from?: string, to?: string) {
+  return {
+    from: from ? new Date(`${from}T00:00:00`).getTime() : null,
+    to: to ? new Date(`${to}T23:59:59.999`).getTime() : null,
+  };
+}
+
+export function inDayBounds(dateISO: string | null | undefined, bounds: ReturnType<typeof dayBounds>) {
+  if (bounds.from === null && bounds.to === null) return true;
+  const at = dateISO ? new Date(dateISO).getTime() : NaN;
+  if (Number.isNaN(at)) return false;
+  return (bounds.from === null || at >= bounds.from) && (bounds.to === null || at <= bounds.to);
+}
+
+// `column` is the card's column, for its place and currency. Amounts are compared in the base currency;
+// with an amount bound set, a card whose currency has no rate is left out
+export function taskMatchesFilter(task: FilterableTask, filter: CardFilter, column: FilterableColumn | undefined, settings: CurrencySettings) {
+  if (filter.scope === "balance" && isProjection(task)) return false;
+  if (filter.scope === "projection" && !isProjection(task)) return false;
+  if (filter.minAmount !== null || filter.maxAmount !== null) {
+    const amount = convertMoney(task.content, cardCurrency(task, column), settings.base, settings);
+    if (amount === null) return false;
+    if (filter.minAmount !== null && amount < filter.minAmount) return false;
+    if (filter.maxAmount !== null && amount > filter.maxAmount) return false;
+  }
+  if (filter.placeId !== null && column?.placeId !== filter.placeId) return false;
+  if (!taskMatchesTags(task, filter.tagIds)) return false;
+  if (!taskMatchesText(task, filter.text)) return false;
+  return inDayBounds(task.dateISO, dayBounds(filter.from, filter.to));
+}
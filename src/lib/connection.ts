@@ -0,0 +1,97 @@
+// src/lib/connection.ts
+import { onValue, ref } from "firebase/database";
+import { db } from "./firebase";
+
+export type ConnectionStatus = "online" | "offline" | "syncing" | "error";
+
+export type ConnectionState = {
+  // what the RTDB reports on .info/connected
+  connected: boolean;
+  // Firebase writes sent but not yet acknowledged by the server
+  pendingWrites: number;
+  // writes waiting in the offline queue
+  queuedWrites: number;
+  // the offline queue is being replayed
+  syncing: boolean;
+  lastError: string | null;
+};
+
+let state: ConnectionState = {
+  connected: false,
+  pendingWrites: 0,
+  queuedWrites: 0,
+  syncing: false,
+  lastError: null,
+};
+
+const listeners = new Set<() => void>();
+let stopWatching: (() => void) | null = null;
+
+function errorMessage(err: unknown) {
+  return err instanceof Error ? err.message : String(err);
+}
+
+function setState(patch: Partial<ConnectionState>) {
+  state = { ...state, ...patch };
+  listeners.forEach((listener) => listener());
+}
+
+function watchConnected() {
+  if (stopWatching) return;
+  try {
+    stopWatching = onValue(
+      ref(db, ".info/connected"),
+      (snap) => setState({ connected: snap.val() === true }),
+      (err) => setState({ lastError: err.message })
+    );
+  } catch (err) {
+    setState({ lastError: errorMessage(err) });
+  }
+}
+
+export function getConnectionState() {
+  return state;
+}
+
+export function getConnectionStatus(current: ConnectionState = state): ConnectionStatus {
+  if (!current.connected) return "offline";
+  if (current.lastError) return "error";
+  if (current.syncing || current.pendingWrites > 0 || current.queuedWrites > 0) return "syncing";
+  return "online";
+}
+
+// starts watching .info/connected on the first subscriber
+export function subscribeConnection(listener: () => void) {
+  watchConnected();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// wraps a Firebase write so it counts as pending until the server acknowledges it
+export async function trackWrite<T>(write: Promise<T>): Promise<T> {
+  setState({ pendingWrites: state.pendingWrites + 1 });
+  try {
+    const result = await write;
+    setState({ lastError: null });
+    return result;
+  } catch (err) {
+    setState({ lastError: errorMessage(err) });
+    throw err;
+  } finally {
+    setState({ pendingWrites: state.pendingWrites - 1 });
+  }
+}
+
+export function reportQueue(queuedWrites: number) {
+  setState({ queuedWrites });
+}
+
+export function reportSyncing(syncing: boolean) {
+  setState({ syncing });
+}
+
+export function reportError(err: unknown) {
+  setState({ lastError: err ? errorMessage(err) : null });
+}
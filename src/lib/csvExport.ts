@@ -0,0 +1,117 @@
+// src/lib/csvExport.ts
+import type { BoardSnapshot, Task } from "./storage";
+import type { Money } from "./money";
+import { cardCurrency } from "./currency";
+import { formatDateTime, t, type MessageKey } from "./i18n";
+import { signedAmount, TASK_KIND_LABELS, taskKind } from "./taskKinds";
+import { taskMatchesText } from "./search";
+import { tagsOf } from "./tags";
+import { dayBounds, inDayBounds } from "./cardFilter";
+
+export type CsvDelimiter = ";" | ",";
+export type CsvDecimalSeparator = "," | ".";
+
+export type CsvFilter = {
+  columnId?: string;
+  placeId?: string;
+  // yyyy-mm-dd, inclusive, in local time; cards without a date are left out once a range is set
+  from?: string;
+  to?: string;
+  // words to find in the description or notes
+  text?: string;
+};
+
+export type CsvOptions = {
+  delimiter: CsvDelimiter;
+  decimalSeparator: CsvDecimalSeparator;
+  filter?: CsvFilter;
+};
+
+// headers, the local date and the card type follow the language in use when exporting
+const HEADER: MessageKey[] = [
+  "csv.header.column",
+  "csv.header.place",
+  "csv.header.amount",
+  "csv.header.currency",
+  "csv.header.dateIso",
+  "csv.header.dateLocal",
+  "csv.header.type",
+  "csv.header.description",
+  "csv.header.notes",
+  "csv.header.tags",
+];
+
+// plain number without grouping, so spreadsheets read it as a number
+function amountCell(cents: Money, decimalSeparator: CsvDecimalSeparator) {
+  const sign = cents < 0 ? "-" : "";
+  const abs = Math.abs(cents);
+  return `${sign}${Math.floor(abs / 100)}${decimalSeparator}${String(abs % 100).padStart(2, "0")}`;
+}
+
+// user text starting like a formula is prefixed with ' so spreadsheets show it instead of running it;
+// amounts do not go through here and stay numbers
+function textCell(value: string) {
+  return /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+}
+
+function escapeCell(value: string, delimiter: CsvDelimiter) {
+  return /["\r\n]/.test(value) || value.includes(delimiter) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function time(task: Task) {
+  const at = task.dateISO ? new Date(task.dateISO).getTime() : NaN;
+  return Number.isNaN(at) ? null : at;
+}
+
+export function filterTasksForCsv(snapshot: BoardSnapshot, filter: CsvFilter = {}) {
+  const columns = new Map(snapshot.columns.map((c) => [c.id, c]));
+  const bounds = dayBounds(filter.from, filter.to);
+
+  return snapshot.tasks.filter((task) => {
+    if (filter.columnId && task.columnId !== filter.columnId) return false;
+    if (filter.placeId && columns.get(task.columnId)?.placeId !== filter.placeId) return false;
+    if (filter.text && !taskMatchesText(task, filter.text)) return false;
+    return inDayBounds(task.dateISO, bounds);
+  });
+}
+
+// one row per card, in board order: columns as laid out, cards oldest first within a column
+export function tasksToCsv(snapshot: BoardSnapshot, { delimiter, decimalSeparator, filter }: CsvOptions) {
+  const columns = new Map(snapshot.columns.map((c) => [c.id, c]));
+  const places = new Map(snapshot.places.map((p) => [p.id, p]));
+  const columnPosition = new Map(snapshot.columns.map((c, i) => [c.id, i]));
+
+  const rows = filterTasksForCsv(snapshot, filter)
+    .slice()
+    .sort(
+      (a, b) =>
+        (columnPosition.get(a.columnId) ?? Infinity) - (columnPosition.get(b.columnId) ?? Infinity) ||
+        (time(a) ?? 0) - (time(b) ?? 0)
+    )
+    .map((task) => {
+      const column = columns.get(task.columnId);
+      const place = column?.placeId ? places.get(column.placeId) : undefined;
+      const at = time(task);
+      return [
+        textCell(column?.title ?? ""),
+        textCell(place?.name ?? ""),
+        // withdrawals and fees are negative, so the column adds up like the board totals
+        amountCell(signedAmount(task), decimalSeparator),
+        cardCurrency(task, column),
+        at === null ? "" : new Date(at).toISOString(),
+        at === null ? "" : formatDateTime(at),
+        t(TASK_KIND_LABELS[taskKind(task)]),
+        textCell(task.description ?? ""),
+        textCell(task.notes ?? ""),
+        textCell(
+          tagsOf(task, snapshot.tags)
+            .map((tag) => tag.name)
+            .join(", ")
+        ),
+      ];
+    });
+
+  const lines = [HEADER.map((key) => t(key)), ...rows].map((row) => row.map((cell) => escapeCell(cell, delimiter)).join(delimiter));
+  // the BOM makes Excel read the file as UTF-8
+  return `\uFEFF${lines.join("\r\n")}\r\n`;
+}
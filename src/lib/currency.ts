@@ -0,0 +1,95 @@
+// src/lib/currency.ts
+import type { Money } from "./money";
+import { t } from "./i18n";
+import { parseCsvTable } from "./statementImport";
+import { DEFAULT_CURRENCY, normalizeCurrencyCode, type CurrencySettings } from "./storage";
+
+// offered in the pickers; any other ISO 4217 code can still be typed in the rates table
+export const COMMON_CURRENCIES = ["BRL", "USD", "EUR", "GBP", "CHF", "JPY", "CAD", "AUD", "ARS"];
+
+export function columnCurrency(column?: { currency?: string | null } | null) {
+  return column?.currency || DEFAULT_CURRENCY;
+}
+
+export function cardCurrency(task: { currency?: string | null }, column?: { currency?: string | null } | null) {
+  return task.currency || columnCurrency(column);
+}
+
+// what one unit of code is worth in the base currency, null when there is no rate for it
+export function rateOf(settings: CurrencySettings, code: string) {
+  if (code === settings.base) return 1;
+  return settings.rates[code] ?? null;
+}
+
+// rounded to the cent; null when either side has no rate
+export function convertMoney(amount: Money, from: string, to: string, settings: CurrencySettings): Money | null {
+  if (from === to) return amount;
+  const fromRate = rateOf(settings, from);
+  const toRate = rateOf(settings, to);
+  if (fromRate === null || toRate === null) return null;
+  return Math.round((amount * fromRate) / toRate);
+}
+
+export type ConvertedTotal = {
+  total: Money;
+  // currencies left out of the total for lack of a rate
+  missing: string[];
+};
+
+// converts each amount on its own before adding, so every card is rounded the same way wherever it is summed
+export function sumConverted(items: { amount: Money; currency: string }[], to: string, settings: CurrencySettings): ConvertedTotal {
+  const missing = new Set<string>();
+  const total = items.reduce((sum, { amount, currency }) => {
+    const converted = convertMoney(amount, currency, to, settings);
+    if (converted === null) {
+      missing.add(currency);
+      return sum;
+    }
+    return sum + converted;
+  }, 0);
+  return { total, missing: [...missing] };
+}
+
+// the same rates seen from another base; null when the new base has no rate to pivot on
+export function rebaseCurrency(settings: CurrencySettings, base: string): CurrencySettings | null {
+  if (base === settings.base) return settings;
+  const pivot = rateOf(settings, base);
+  if (pivot === null) return null;
+
+  const rates: Record<string, number> = { [settings.base]: 1 / pivot };
+  Object.entries(settings.rates).forEach(([code, rate]) => {
+    if (code !== base) rates[code] = rate / pivot;
+  });
+  return { base, rates };
+}
+
+// "5,2134", "5.2134" or "1.234,5"; rates keep more decimals than money does
+export function parseRate(text: string): number | null {
+  let value = text.trim().replace(/\s/g, "");
+  const lastComma = value.lastIndexOf(",");
+  const lastDot = value.lastIndexOf(".");
+  if (lastComma > lastDot) value = value.replace(/\./g, "").replace(",", ".");
+  else value = value.replace(/,/g, "");
+  const rate = Number(value);
+  return value && Number.isFinite(rate) && rate > 0 ? rate : null;
+}
+
+// lines of "code;rate" (any delimiter the statement import understands), meaning one unit of code in base;
+// a header line and lines for the base itself are skipped
+export function parseRatesCsv(text: string, base: string) {
+  const rates: Record<string, number> = {};
+  const errors: string[] = [];
+
+  parseCsvTable(text).forEach((cells, i) => {
+    const code = normalizeCurrencyCode(cells[0]);
+    const rate = parseRate(cells[1] ?? "");
+    if (!code || rate === null) {
+      // a header is only expected on the first line
+      if (i > 0 || parseRate(cells[1] ?? "") !== null) errors.push(t("currency.csvLineSkipped", { line: i + 1, text: cells.join(" ") }));
+      return;
+    }
+    if (code !== base) rates[code] = rate;
+  });
+
+  return { rates, errors };
+}
@@ -1,5 +1,6 @@
 import { initializeApp } from "firebase/app";
-import { getDatabase } from "firebase/database";
+import { connectDatabaseEmulator, getDatabase } from "firebase/database";
+import { connectAuthEmulator, getAuth } from "firebase/auth";
 
 const firebaseConfig = {
   apiKey: import.meta.env.VITE_FIREBASE_API_KEY,
@@ -16,4 +17,17 @@ if (!firebaseConfig.databaseURL) {
 }
 
 const app = initializeApp(firebaseConfig);
-export const db = getDatabase(app);
\ No newline at end of file
+export const db = getDatabase(app);
+export const auth = getAuth(app);
+
+// local emulators, e.g. VITE_FIREBASE_AUTH_EMULATOR_HOST=127.0.0.1:9099
+const authEmulatorHost = import.meta.env.VITE_FIREBASE_AUTH_EMULATOR_HOST;
+if (authEmulatorHost) {
+  connectAuthEmulator(auth, `http://${authEmulatorHost}`, { disableWarnings: true });
+}
+
+const databaseEmulatorHost = import.meta.env.VITE_FIREBASE_DATABASE_EMULATOR_HOST;
+if (databaseEmulatorHost) {
+  const [host, port] = String(databaseEmulatorHost).split(":");
+  connectDatabaseEmulator(db, host, Number(port) || 9000);
+}
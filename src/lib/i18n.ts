@@ -0,0 +1,139 @@
+// src/lib/i18n.ts
+import { ptBR, type MessageKey, type Messages } from "../locales/pt-BR";
+import { en } from "../locales/en";
+
+export type Locale = "pt-BR" | "en";
+export type { MessageKey };
+
+export const LOCALES: Locale[] = ["pt-BR", "en"];
+
+// each language in its own words, for the switcher
+export const LOCALE_NAMES: Record<Locale, string> = {
+  "pt-BR": "Português",
+  en: "English",
+};
+
+const CATALOGS: Record<Locale, Messages> = { "pt-BR": ptBR, en };
+
+const STORAGE_KEY = "dnd-investments-locale";
+
+export function normalizeLocale(raw: unknown): Locale | null {
+  if (typeof raw !== "string") return null;
+  if (LOCALES.includes(raw as Locale)) return raw as Locale;
+  const language = raw.toLowerCase().split("-")[0];
+  if (language === "pt") return "pt-BR";
+  if (language === "en") return "en";
+  return null;
+}
+
+// the saved choice, else the browser's language, else Portuguese
+function initialLocale(): Locale {
+  try {
+    const saved = normalizeLocale(localStorage.getItem(STORAGE_KEY));
+    if (saved) return saved;
+  } catch {
+    // storage can be blocked; the browser language still applies
+  }
+  if (typeof navigator === "undefined") return "pt-BR";
+  return normalizeLocale(navigator.language) ?? "pt-BR";
+}
+
+let locale: Locale = initialLocale();
+const listeners = new Set<() => void>();
+
+if (typeof document !== "undefined") document.documentElement.lang = locale;
+
+export function getLocale() {
+  return locale;
+}
+
+export function setLocale(next: Locale) {
+  if (next === locale) return;
+  locale = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, next);
+  } catch {
+    // the choice just won't survive a reload
+  }
+  if (typeof document !== "undefined") document.documentElement.lang = next;
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeLocale(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export type MessageParams = Record<string, string | number>;
+
+const pluralRules = new Map<Locale, Intl.PluralRules>();
+
+function pluralCategory(count: number, target: Locale) {
+  let rules = pluralRules.get(target);
+  if (!rules) {
+    rules = new Intl.PluralRules(target);
+    pluralRules.set(target, rules);
+  }
+  return rules.select(count) === "one" ? "one" : "other";
+}
+
+// looks the key up in the current catalog (falling back to Portuguese) and fills {name} placeholders;
+// plural messages pick their form from params.count
+export function t(key: MessageKey, params?: MessageParams, target: Locale = locale): string {
+  const message = CATALOGS[target][key] ?? ptBR[key] ?? key;
+  const text =
+    typeof message === "string" ? message : message[pluralCategory(Number(params?.count ?? 0), target)];
+  if (!params) return text;
+  return text.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    return typeof value === "number" ? formatNumber(value, target) : value;
+  });
+}
+
+const dateFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function dateFormatter(target: Locale, options: Intl.DateTimeFormatOptions) {
+  const key = `${target}|${JSON.stringify(options)}`;
+  let formatter = dateFormatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat(target, options);
+    dateFormatters.set(key, formatter);
+  }
+  return formatter;
+}
+
+type DateInput = string | number | Date;
+
+// "—" for a missing or unreadable date, so callers can pass stored values straight through
+function formatWith(value: DateInput | null | undefined, options: Intl.DateTimeFormatOptions, target: Locale) {
+  if (value === null || value === undefined || value === "") return "—";
+  const date = value instanceof Date ? value : new Date(value);
+  if (Number.isNaN(date.getTime())) return "—";
+  return dateFormatter(target, options).format(date);
+}
+
+export function formatDate(value: DateInput | null | undefined, target: Locale = locale) {
+  return formatWith(value, { dateStyle: "short" }, target);
+}
+
+export function formatDateTime(value: DateInput | null | undefined, target: Locale = locale) {
+  return formatWith(value, { dateStyle: "short", timeStyle: "short" }, target);
+}
+
+export function formatDateWith(value: DateInput | null | undefined, options: Intl.DateTimeFormatOptions, target: Locale = locale) {
+  return formatWith(value, options, target);
+}
+
+const numberFormatters = new Map<Locale, Intl.NumberFormat>();
+
+export function formatNumber(value: number, target: Locale = locale) {
+  let formatter = numberFormatters.get(target);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(target, { maximumFractionDigits: 4 });
+    numberFormatters.set(target, formatter);
+  }
+  return formatter.format(value);
+}
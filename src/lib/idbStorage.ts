@@ -0,0 +1,326 @@
+// src/lib/idbStorage.ts
+import { createStorage, type StorageAdapter, type TreeBackend, type TreeUpdates } from "./storage";
+import { amountsToCents } from "./migrations";
+import { createMemoryBackend } from "./memoryStorage";
+import { createActivityLog, type ActivityLogOptions } from "./activity";
+
+const DB_NAME = "dnd-investments";
+// v3: amounts are stored in integer cents
+const DB_VERSION = 3;
+
+// one object store per collection (keyed by record id) plus "orders" for columnsOrder/placesOrder,
+// the per-column tasksOrder, the currency settings, the tags, the schedules, the trash and the board
+// settings, the same layout db.ts keeps in the RTDB
+const RECORD_STORES = ["columns", "tasks", "places"];
+const ORDER_KEYS = ["columnsOrder", "placesOrder", "tasksOrder"];
+// tags, schedules, trash and settings are small and change rarely, so they are kept as one value each instead of getting a store of their own
+const VALUE_KEYS = [...ORDER_KEYS, "currency", "tags", "schedules", "trash", "settings"];
+const ORDERS_STORE = "orders";
+// writes made while offline, waiting to be replayed against Firebase
+const QUEUE_STORE = "queue";
+const ALL_STORES = [...RECORD_STORES, ORDERS_STORE, QUEUE_STORE];
+
+type Tree = Record<string, unknown>;
+
+// a queued write keeps what the touched paths held before it, so replay can spot server-side changes
+export type QueuedWrite = {
+  seq: number;
+  at: string;
+  updates: TreeUpdates;
+  base: TreeUpdates;
+};
+
+export interface LocalStore {
+  // writes land in IndexedDB and are queued for the server
+  storage: StorageAdapter;
+  // the raw local tree behind `storage`, for tools that read it directly (e.g. the trash)
+  backend: TreeBackend;
+  // replaces the local data with the server state; skipped while writes are queued
+  mirror(tree: Tree): Promise<void>;
+  pendingWrites(): Promise<QueuedWrite[]>;
+  dropWrite(seq: number): Promise<void>;
+  subscribeQueue(cb: (count: number) => void): () => void;
+  close(): void;
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(tx: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("IndexedDB transaction aborted"));
+  });
+}
+
+// one database per user and board, so switching accounts or boards on a device never mixes data
+export function localStoreName(uid: string, boardId: string) {
+  return `${DB_NAME}-${uid}-${boardId}`;
+}
+
+// resolves to false, without creating it, when the database does not exist
+function databaseExists(name: string) {
+  return new Promise<boolean>((resolve) => {
+    const request = indexedDB.open(name);
+    request.onupgradeneeded = () => {
+      request.transaction?.abort();
+      resolve(false);
+    };
+    request.onsuccess = () => {
+      request.result.close();
+      resolve(true);
+    };
+    request.onerror = () => resolve(false);
+  });
+}
+
+// the database every account and board shared before they existed may still hold offline writes
+// made against the shared data; they join the queue of the board that took that data over
+// (see claimLegacyData in boards.ts) and are replayed from there, then the old database is deleted
+export async function adoptLegacyQueue(name: string) {
+  if (typeof indexedDB === "undefined" || !(await databaseExists(DB_NAME))) return;
+
+  // opening upgrades it like any other store, queued amounts included
+  const legacy = await openDatabase(DB_NAME);
+  const writes = (await requestToPromise(legacy.transaction(QUEUE_STORE, "readonly").objectStore(QUEUE_STORE).getAll())) as QueuedWrite[];
+  legacy.close();
+
+  if (writes.length > 0) {
+    const idb = await openDatabase(name);
+    const tx = idb.transaction(QUEUE_STORE, "readwrite");
+    writes
+      .sort((a, b) => a.seq - b.seq)
+      .forEach(({ at, updates, base }) => tx.objectStore(QUEUE_STORE).add({ at, updates, base }));
+    await transactionDone(tx);
+    idb.close();
+  }
+  await deleteLocalStore(DB_NAME);
+}
+
+export function deleteLocalStore(name: string) {
+  if (typeof indexedDB === "undefined") return Promise.resolve();
+  return requestToPromise(indexedDB.deleteDatabase(name)).then(() => undefined);
+}
+
+export function openDatabase(name: string): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available"));
+      return;
+    }
+
+    const request = indexedDB.open(name, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const idb = request.result;
+      RECORD_STORES.forEach((name) => {
+        if (!idb.objectStoreNames.contains(name)) idb.createObjectStore(name, { keyPath: "id" });
+      });
+      if (!idb.objectStoreNames.contains(ORDERS_STORE)) idb.createObjectStore(ORDERS_STORE);
+      if (!idb.objectStoreNames.contains(QUEUE_STORE)) {
+        idb.createObjectStore(QUEUE_STORE, { keyPath: "seq", autoIncrement: true });
+      }
+      if (event.oldVersion > 0 && event.oldVersion < 3) migrateToCents(request.transaction!);
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function updateEach(store: IDBObjectStore, fn: (value: Record<string, unknown>) => unknown) {
+  const cursorRequest = store.openCursor();
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    cursor.update(fn(cursor.value));
+    cursor.continue();
+  };
+}
+
+// rewrites data saved by v1/v2 (float reais), including writes still waiting in the queue
+function migrateToCents(tx: IDBTransaction) {
+  RECORD_STORES.forEach((name) => {
+    if (!tx.db.objectStoreNames.contains(name)) return;
+    updateEach(tx.objectStore(name), (record) => amountsToCents(`${name}/${record.id}`, record));
+  });
+  if (!tx.db.objectStoreNames.contains(QUEUE_STORE)) return;
+
+  const convert = (updates: TreeUpdates) =>
+    Object.fromEntries(Object.entries(updates ?? {}).map(([path, value]) => [path, amountsToCents(path, value)]));
+  updateEach(tx.objectStore(QUEUE_STORE), (write) => ({
+    ...write,
+    updates: convert(write.updates as TreeUpdates),
+    base: convert(write.base as TreeUpdates),
+  }));
+}
+
+async function loadTree(idb: IDBDatabase): Promise<Tree> {
+  const tx = idb.transaction([...RECORD_STORES, ORDERS_STORE], "readonly");
+
+  // issue every request up front so the transaction stays active
+  const records = RECORD_STORES.map((name) => requestToPromise(tx.objectStore(name).getAll()));
+  const orders = VALUE_KEYS.map((key) => requestToPromise(tx.objectStore(ORDERS_STORE).get(key)));
+
+  const tree: Tree = {};
+  (await Promise.all(records)).forEach((list, i) => {
+    if (list.length === 0) return;
+    tree[RECORD_STORES[i]] = Object.fromEntries(list.map((r: { id: string }) => [r.id, r]));
+  });
+  (await Promise.all(orders)).forEach((order, i) => {
+    if (order !== undefined) tree[VALUE_KEYS[i]] = order;
+  });
+
+  return tree;
+}
+
+// serves reads and subscriptions from memory and writes every touched record through to IndexedDB
+function createLocalStore(idb: IDBDatabase, initial: Tree, activity?: ActivityLogOptions): LocalStore {
+  const memory = createMemoryBackend(initial);
+  const queueListeners = new Set<(count: number) => void>();
+
+  async function countQueued() {
+    const tx = idb.transaction(QUEUE_STORE, "readonly");
+    return requestToPromise(tx.objectStore(QUEUE_STORE).count());
+  }
+
+  async function notifyQueue() {
+    const count = await countQueued();
+    queueListeners.forEach((cb) => cb(count));
+  }
+
+  async function write(updates: TreeUpdates, queued: boolean) {
+    const paths = Object.keys(updates);
+    if (paths.length === 0) return;
+
+    const base: TreeUpdates = {};
+    if (queued) {
+      for (const path of paths) base[path] = await memory.read(path);
+    }
+
+    await memory.update(updates);
+
+    // collect the values first: no awaiting once the readwrite transaction is open
+    const writes = await Promise.all(
+      paths.map(async (path) => {
+        const [root, id] = path.split("/").filter(Boolean);
+        const target = RECORD_STORES.includes(root) && id ? `${root}/${id}` : root;
+        return { root, id, value: await memory.read(target) };
+      })
+    );
+
+    const tx = idb.transaction(ALL_STORES, "readwrite");
+
+    writes.forEach(({ root, id, value }) => {
+      if (VALUE_KEYS.includes(root)) {
+        tx.objectStore(ORDERS_STORE).put(value ?? (ORDER_KEYS.includes(root) ? [] : null), root);
+        return;
+      }
+      if (!RECORD_STORES.includes(root)) return;
+
+      const store = tx.objectStore(root);
+      if (id) {
+        if (value) store.put({ ...(value as object), id });
+        else store.delete(id);
+        return;
+      }
+
+      // the whole collection was replaced
+      store.clear();
+      Object.entries((value as Tree) ?? {}).forEach(([key, record]) => {
+        store.put({ ...(record as object), id: key });
+      });
+    });
+
+    // same transaction, so a change is never stored without its queue entry
+    if (queued) {
+      tx.objectStore(QUEUE_STORE).add({ at: new Date().toISOString(), updates, base });
+    }
+
+    await transactionDone(tx);
+    if (queued) await notifyQueue();
+  }
+
+  const backend: TreeBackend = {
+    read: memory.read,
+    subscribe: memory.subscribe,
+    update: (updates) => write(updates, true),
+    // queued as per-child updates so the replay only conflicts on the records that actually changed
+    async transaction<T>(path: string, updater: (current: T | null) => T | null | undefined) {
+      const current = (await memory.read(path)) as T | null;
+      const next = updater(current);
+      if (next === undefined) return { committed: false, value: current };
+
+      // a removed node is queued as one removal rather than a null per field
+      if (next === null) {
+        await write({ [path]: null }, true);
+        return { committed: true, value: null };
+      }
+
+      const before = (current ?? {}) as Tree;
+      const after = next as Tree;
+      const updates: TreeUpdates = {};
+      new Set([...Object.keys(before), ...Object.keys(after)]).forEach((key) => {
+        if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+          updates[`${path}/${key}`] = after[key] ?? null;
+        }
+      });
+
+      await write(updates, true);
+      return { committed: true, value: (await memory.read(path)) as T | null };
+    },
+  };
+
+  return {
+    storage: createStorage(backend, createActivityLog(backend, activity)),
+    backend,
+    async mirror(tree) {
+      if ((await countQueued()) > 0) return;
+      const updates: TreeUpdates = {};
+      [...RECORD_STORES, ...VALUE_KEYS].forEach((key) => {
+        updates[key] = tree[key] ?? null;
+      });
+      await write(updates, false);
+    },
+    async pendingWrites() {
+      const tx = idb.transaction(QUEUE_STORE, "readonly");
+      return requestToPromise(tx.objectStore(QUEUE_STORE).getAll()) as Promise<QueuedWrite[]>;
+    },
+    async dropWrite(seq) {
+      const tx = idb.transaction(QUEUE_STORE, "readwrite");
+      tx.objectStore(QUEUE_STORE).delete(seq);
+      await transactionDone(tx);
+      await notifyQueue();
+    },
+    subscribeQueue(cb) {
+      queueListeners.add(cb);
+      countQueued().then(cb);
+      return () => {
+        queueListeners.delete(cb);
+      };
+    },
+    close() {
+      idb.close();
+    },
+  };
+}
+
+// opens the browser-local store; the seed is only written (unqueued) when the store is still empty.
+// Activity entries are not kept locally, they only travel with the queued writes.
+export async function openLocalStore(
+  name: string,
+  seed: Tree = {},
+  activity?: ActivityLogOptions
+): Promise<LocalStore> {
+  const idb = await openDatabase(name);
+  const tree = await loadTree(idb);
+  const local = createLocalStore(idb, tree, activity);
+  if (Object.keys(tree).length === 0) await local.mirror(seed);
+
+  return local;
+}
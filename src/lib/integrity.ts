@@ -0,0 +1,187 @@
+// src/lib/integrity.ts
+import { normalizeOrder, type StorageAdapter, type TreeBackend, type TreeUpdates } from "./storage";
+import { t, type MessageKey } from "./i18n";
+
+type Tree = Record<string, unknown>;
+
+export type IntegrityIssueKind =
+  // a task whose columnId points to no column
+  | "orphan-task"
+  // a column whose placeId points to no place
+  | "dangling-place-ref"
+  // columnsOrder/placesOrder/tasksOrder lists an id that no longer exists
+  | "dangling-order-entry"
+  // a column/place that exists but is missing from its order
+  | "missing-order-entry";
+
+export type IntegrityRepair = "reassign" | "delete" | "clear-reference" | "remove-from-order" | "add-to-order";
+
+export type IntegrityIssue = {
+  // stable key for the issue: kind plus the path it is about
+  key: string;
+  kind: IntegrityIssueKind;
+  // node the issue is about, relative to the board root
+  path: string;
+  // id the broken reference points to
+  target: string | null;
+  message: string;
+  repairs: IntegrityRepair[];
+};
+
+// collections that have an order next to them
+const ORDERED: { collection: string; order: string; missing: MessageKey }[] = [
+  { collection: "columns", order: "columnsOrder", missing: "integrity.columnNotInOrder" },
+  { collection: "places", order: "placesOrder", missing: "integrity.placeNotInOrder" },
+];
+
+function records(tree: Tree, collection: string): Record<string, Tree> {
+  const value = tree[collection];
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  return value as Record<string, Tree>;
+}
+
+// reads a nested node such as tasksOrder/{columnId}
+function at(tree: Tree, path: string): unknown {
+  return path.split("/").reduce<unknown>((node, key) => (node && typeof node === "object" ? (node as Tree)[key] : undefined), tree);
+}
+
+function issue(kind: IntegrityIssueKind, path: string, target: string | null, message: string, repairs: IntegrityRepair[]): IntegrityIssue {
+  return { key: `${kind}:${path}:${target ?? ""}`, kind, path, target, message, repairs };
+}
+
+// lists orphan records and dangling references in a board tree; read-only
+export function scanIntegrity(tree: Tree | null): IntegrityIssue[] {
+  const board = tree ?? {};
+  const columns = records(board, "columns");
+  const tasks = records(board, "tasks");
+  const places = records(board, "places");
+  const issues: IntegrityIssue[] = [];
+
+  Object.entries(tasks).forEach(([taskId, task]) => {
+    const columnId = task?.columnId ? String(task.columnId) : "";
+    if (columnId && columns[columnId]) return;
+    issues.push(
+      issue(
+        "orphan-task",
+        `tasks/${taskId}`,
+        columnId || null,
+        columnId
+          ? t("integrity.cardMissingColumn", { card: taskId, column: columnId })
+          : t("integrity.cardWithoutColumn", { card: taskId }),
+        ["reassign", "delete"]
+      )
+    );
+  });
+
+  Object.entries(columns).forEach(([columnId, column]) => {
+    const placeId = column?.placeId ? String(column.placeId) : "";
+    if (!placeId || places[placeId]) return;
+    issues.push(
+      issue(
+        "dangling-place-ref",
+        `columns/${columnId}`,
+        placeId,
+        t("integrity.columnMissingPlace", { title: String(column.title ?? columnId), place: placeId }),
+        ["reassign", "clear-reference"]
+      )
+    );
+  });
+
+  ORDERED.forEach(({ collection, order, missing }) => {
+    const items = records(board, collection);
+    const ids = normalizeOrder(board[order]);
+
+    ids.forEach((id) => {
+      if (items[id]) return;
+      issues.push(
+        issue("dangling-order-entry", order, id, t("integrity.orderHasMissing", { order, id }), [
+          "remove-from-order",
+        ])
+      );
+    });
+
+    Object.keys(items).forEach((id) => {
+      if (ids.includes(id)) return;
+      const name = String(items[id]?.title ?? items[id]?.name ?? id);
+      issues.push(
+        issue("missing-order-entry", `${collection}/${id}`, id, t(missing, { name, order }), [
+          "add-to-order",
+          "delete",
+        ])
+      );
+    });
+  });
+
+  // the manual card order of a column should only list cards of that column
+  Object.entries(records(board, "tasksOrder")).forEach(([columnId, order]) => {
+    const path = `tasksOrder/${columnId}`;
+    if (!columns[columnId]) {
+      issues.push(
+        issue("dangling-order-entry", path, null, t("integrity.cardOrderMissingColumn", { column: columnId }), [
+          "remove-from-order",
+        ])
+      );
+      return;
+    }
+    normalizeOrder(order).forEach((taskId) => {
+      if (tasks[taskId] && String(tasks[taskId]?.columnId ?? "") === columnId) return;
+      issues.push(
+        issue("dangling-order-entry", path, taskId, t("integrity.cardOrderForeignCard", { title: String(columns[columnId]?.title ?? columnId), card: taskId }), [
+          "remove-from-order",
+        ])
+      );
+    });
+  });
+
+  return issues;
+}
+
+// turns one repair into a multi-path update against the current tree; `reassignTo` is the
+// column (orphan task) or place (dangling place) to point at. Deletes are not updates of their
+// own: applyRepair hands them to the adapter's removers, which move the record to the trash
+export function repairUpdates(
+  tree: Tree | null,
+  found: IntegrityIssue,
+  repair: Exclude<IntegrityRepair, "delete">,
+  reassignTo?: string
+): TreeUpdates {
+  const board = tree ?? {};
+  const [collection, id] = found.path.split("/");
+
+  switch (repair) {
+    case "reassign":
+      if (!reassignTo) throw new Error(t("integrity.reassignRequired"));
+      return found.kind === "orphan-task"
+        ? { [`${found.path}/columnId`]: reassignTo }
+        : { [`${found.path}/placeId`]: reassignTo };
+    case "clear-reference":
+      return { [`${found.path}/placeId`]: null };
+    case "remove-from-order":
+      // no target means the whole order is stale
+      if (found.target === null) return { [found.path]: null };
+      return { [found.path]: normalizeOrder(at(board, found.path)).filter((x) => x !== found.target) };
+    case "add-to-order": {
+      const order = ORDERED.find((o) => o.collection === collection)!.order;
+      return { [order]: [...normalizeOrder(board[order]), id] };
+    }
+  }
+}
+
+// reads the tree from `backend` and writes through `target`, so the repair is logged and can be undone
+export async function applyRepair(
+  backend: TreeBackend,
+  target: StorageAdapter,
+  found: IntegrityIssue,
+  repair: IntegrityRepair,
+  reassignTo?: string
+) {
+  if (repair === "delete") {
+    // the same cascades as deleting from the board, and the record can be restored from the trash
+    const [collection, id] = found.path.split("/");
+    if (collection === "tasks") return target.removeTask(id);
+    if (collection === "columns") return target.removeColumn(id);
+    return target.removePlace(id);
+  }
+  const tree = (await backend.read("")) as Tree | null;
+  await target.repair(repairUpdates(tree, found, repair, reassignTo));
+}
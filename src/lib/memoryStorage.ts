@@ -0,0 +1,114 @@
+// src/lib/memoryStorage.ts
+import { createStorage, type TreeBackend, type TreeUpdates } from "./storage";
+
+type Tree = Record<string, unknown>;
+
+// deep copy that drops null fields the way the RTDB does, so local and server values compare equal
+function clone<T>(value: T): T {
+  if (value === undefined) return value;
+  return JSON.parse(JSON.stringify(value), (_key, val) => {
+    if (!val || typeof val !== "object" || Array.isArray(val)) return val;
+    return Object.fromEntries(Object.entries(val).filter(([, v]) => v !== null));
+  });
+}
+
+function splitPath(path: string) {
+  return path.split("/").filter(Boolean);
+}
+
+export function readPath(tree: Tree, path: string): unknown {
+  let node: unknown = tree;
+  for (const key of splitPath(path)) {
+    if (!node || typeof node !== "object") return null;
+    node = (node as Tree)[key];
+  }
+  return node ?? null;
+}
+
+// writes like the RTDB does: null removes the node and empty parents disappear with it
+export function writePath(tree: Tree, path: string, value: unknown) {
+  const keys = splitPath(path);
+  if (keys.length === 0) {
+    Object.keys(tree).forEach((key) => delete tree[key]);
+    if (value && typeof value === "object") Object.assign(tree, clone(value));
+    return;
+  }
+
+  const parents: Tree[] = [];
+  let node = tree;
+  for (const key of keys.slice(0, -1)) {
+    parents.push(node);
+    if (!node[key] || typeof node[key] !== "object") node[key] = {};
+    node = node[key] as Tree;
+  }
+
+  const last = keys[keys.length - 1];
+  if (value === null || value === undefined) {
+    delete node[last];
+    for (let i = keys.length - 2; i >= 0; i--) {
+      const child = parents[i][keys[i]] as Tree;
+      if (Object.keys(child).length > 0) break;
+      delete parents[i][keys[i]];
+    }
+  } else {
+    node[last] = clone(value);
+  }
+}
+
+function overlaps(a: string, b: string) {
+  const pa = splitPath(a);
+  const pb = splitPath(b);
+  const len = Math.min(pa.length, pb.length);
+  for (let i = 0; i < len; i++) {
+    if (pa[i] !== pb[i]) return false;
+  }
+  return true;
+}
+
+// keeps the whole tree in a plain object; listeners fire synchronously after every write
+export function createMemoryBackend(seed: Tree = {}): TreeBackend & { dump(): Tree } {
+  const tree: Tree = clone(seed);
+  const listeners = new Set<{ path: string; cb: (value: unknown) => void }>();
+
+  function notify(paths: string[]) {
+    listeners.forEach((listener) => {
+      if (paths.some((p) => overlaps(p, listener.path))) {
+        listener.cb(clone(readPath(tree, listener.path)));
+      }
+    });
+  }
+
+  return {
+    async read(path) {
+      return clone(readPath(tree, path));
+    },
+    async update(updates: TreeUpdates) {
+      Object.entries(updates).forEach(([path, value]) => writePath(tree, path, value));
+      notify(Object.keys(updates));
+    },
+    async transaction<T>(path: string, updater: (current: T | null) => T | null | undefined) {
+      const current = clone(readPath(tree, path)) as T | null;
+      const next = updater(current);
+      if (next === undefined) return { committed: false, value: current };
+
+      writePath(tree, path, next);
+      notify([path]);
+      return { committed: true, value: clone(readPath(tree, path)) as T | null };
+    },
+    subscribe(path, cb) {
+      const listener = { path, cb };
+      listeners.add(listener);
+      cb(clone(readPath(tree, path)));
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    dump() {
+      return clone(tree);
+    },
+  };
+}
+
+export function createMemoryStorage(seed: Tree = {}) {
+  return createStorage(createMemoryBackend(seed));
+}
@@ -0,0 +1,299 @@
+// src/lib/migrations.ts
+import { toCents } from "./money";
+import { t, type MessageKey } from "./i18n";
+import type { TreeBackend, TreeUpdates } from "./storage";
+
+type Tree = Record<string, unknown>;
+
+// one upgrade of a board tree; `up` gets the tree as left by the previous step and returns a new one
+export type Migration = {
+  version: number;
+  description: MessageKey;
+  up(tree: Tree): Tree;
+};
+
+export type MigrationStepReport = {
+  version: number;
+  description: string;
+  // record-level paths (e.g. tasks/task-1) the step changes
+  changes: string[];
+};
+
+export type MigrationReport = {
+  from: number;
+  to: number;
+  steps: MigrationStepReport[];
+};
+
+const RECORD_COLLECTIONS = ["columns", "tasks", "places"];
+
+// the top-level keys the steps read or write; the rest of the board root is left alone
+const MIGRATED_KEYS = ["columns", "columnsOrder", "tasks", "places", "placesOrder", "moneyFormat"];
+
+// node held by the client running the upgrade; a lock older than this is taken to be from a client that went away
+const MIGRATION_LOCK = "migrationLock";
+const MIGRATION_LOCK_MS = 60_000;
+
+// the one field holding an amount in each collection
+const AMOUNT_FIELDS: Record<string, string> = {
+  tasks: "content",
+  columns: "meta",
+  places: "expectedValue",
+};
+
+function isObject(value: unknown): value is Tree {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function mapEntries(value: unknown, fn: (key: string, child: unknown) => unknown) {
+  if (!isObject(value)) return value;
+  return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, fn(key, child)]));
+}
+
+// converts whatever sits at `path` from float reais to integer cents; works on the whole
+// tree ("") as well as on a single record or field, so queued writes can be converted too
+export function amountsToCents(path: string, value: unknown): unknown {
+  const [root, id, field] = path.split("/").filter(Boolean);
+  if (!root) return mapEntries(value, (key, child) => amountsToCents(key, child));
+
+  const amountField = AMOUNT_FIELDS[root];
+  if (!amountField) return value;
+  if (!id) return mapEntries(value, (key, child) => amountsToCents(`${root}/${key}`, child));
+  if (!field) return mapEntries(value, (key, child) => amountsToCents(`${root}/${id}/${key}`, child));
+
+  if (field !== amountField) return value;
+  // old records sometimes kept the amount as text
+  const amount = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+  return typeof amount === "number" && Number.isFinite(amount) ? toCents(amount) : value;
+}
+
+// same layout, without the nulls the RTDB never stores and the empty strings old versions wrote
+function compact(record: object) {
+  return Object.fromEntries(Object.entries(record).filter(([, v]) => v !== null && v !== undefined && v !== ""));
+}
+
+// The steps below keep their own copy of the rules they apply instead of calling the live normalize*
+// helpers, so a board upgraded today ends up exactly where one upgraded when the step was written did.
+
+function isBlank(value: unknown) {
+  return value === undefined || value === null || value === "";
+}
+
+// the record shapes as of schema version 2
+function v2Column(raw: Tree) {
+  return {
+    id: String(raw.id),
+    title: String(raw.title ?? ""),
+    meta: isBlank(raw.meta) ? undefined : Math.round(Number(raw.meta)) || 0,
+    placeId: isBlank(raw.placeId) ? undefined : String(raw.placeId),
+  };
+}
+
+function v2Task(raw: Tree) {
+  return {
+    id: String(raw.id),
+    columnId: String(raw.columnId ?? ""),
+    content: Math.round(Number(raw.content)) || 0,
+    dateISO: raw.dateISO ?? undefined,
+    isProjection: !!raw.isProjection,
+  };
+}
+
+function v2Place(raw: Tree) {
+  return {
+    id: String(raw.id),
+    name: String(raw.name ?? ""),
+    color: String(raw.color ?? "#06b6d4"),
+    expectedValue: isBlank(raw.expectedValue) ? null : Math.round(Number(raw.expectedValue)) || null,
+    dateTimeISO: isBlank(raw.dateTimeISO) ? null : String(raw.dateTimeISO),
+  };
+}
+
+function v2Order(value: unknown) {
+  const items = Array.isArray(value) ? value : isObject(value) ? Object.values(value) : [];
+  return items.map((item) => String(item)).filter(Boolean);
+}
+
+// the card kinds as of schema version 3
+const V3_KINDS = ["deposit", "yield", "withdrawal", "fee", "projection"];
+
+function normalizeCollection(value: unknown, normalize: (raw: Tree) => object) {
+  if (!isObject(value)) return undefined;
+  const entries = Object.entries(value)
+    .filter(([, raw]) => isObject(raw))
+    // records are addressed by their key, so the key wins over a stale id field
+    .map(([key, raw]) => [key, compact(normalize({ ...(raw as Tree), id: key }))]);
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "migration.v1",
+    up(tree) {
+      // boards upgraded before schemaVersion existed carry the old moneyFormat flag instead
+      const { moneyFormat, ...rest } = tree;
+      return moneyFormat === "cents" ? rest : (amountsToCents("", rest) as Tree);
+    },
+  },
+  {
+    version: 2,
+    description: "migration.v2",
+    up(tree) {
+      const next: Tree = {
+        ...tree,
+        columns: normalizeCollection(tree.columns, v2Column),
+        tasks: normalizeCollection(tree.tasks, v2Task),
+        places: normalizeCollection(tree.places, v2Place),
+      };
+      ["columnsOrder", "placesOrder"].forEach((key) => {
+        const order = v2Order(tree[key]);
+        next[key] = order.length > 0 ? order : undefined;
+      });
+      return compact(next);
+    },
+  },
+  {
+    version: 3,
+    description: "migration.v3",
+    up(tree) {
+      // a card was either a projection or a balance; balances become deposits
+      const tasks = mapEntries(tree.tasks, (_, raw) => {
+        if (!isObject(raw)) return raw;
+        const { isProjection, ...task } = raw;
+        return { ...task, kind: V3_KINDS.includes(task.kind as string) ? task.kind : isProjection ? "projection" : "deposit" };
+      });
+      return tasks === undefined ? tree : { ...tree, tasks };
+    },
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+function storedVersion(tree: Tree | null) {
+  const version = Number(tree?.schemaVersion);
+  return Number.isInteger(version) && version > 0 ? version : 0;
+}
+
+// record-level paths whose value differs between two trees
+function changedPaths(before: Tree, after: Tree) {
+  const paths: string[] = [];
+  new Set([...Object.keys(before), ...Object.keys(after)]).forEach((key) => {
+    if (key === "schemaVersion") return;
+    const a = before[key];
+    const b = after[key];
+    if (RECORD_COLLECTIONS.includes(key) && (isObject(a) || isObject(b))) {
+      const left = isObject(a) ? a : {};
+      const right = isObject(b) ? b : {};
+      new Set([...Object.keys(left), ...Object.keys(right)]).forEach((id) => {
+        if (JSON.stringify(left[id]) !== JSON.stringify(right[id])) paths.push(`${key}/${id}`);
+      });
+      return;
+    }
+    if (JSON.stringify(a) !== JSON.stringify(b)) paths.push(key);
+  });
+  return paths;
+}
+
+// applies every pending step in memory; the result carries the new schemaVersion
+export function planMigrations(current: Tree | null): { tree: Tree; report: MigrationReport } {
+  const from = storedVersion(current);
+  const steps: MigrationStepReport[] = [];
+  let tree: Tree = { ...(current ?? {}) };
+
+  MIGRATIONS.filter((m) => m.version > from).forEach((migration) => {
+    const next = migration.up(tree);
+    steps.push({
+      version: migration.version,
+      description: t(migration.description),
+      changes: changedPaths(tree, next),
+    });
+    tree = next;
+  });
+
+  return {
+    tree: { ...tree, schemaVersion: Math.max(from, SCHEMA_VERSION) },
+    report: { from, to: Math.max(from, SCHEMA_VERSION), steps },
+  };
+}
+
+async function readVersion(backend: TreeBackend) {
+  return storedVersion({ schemaVersion: await backend.read("schemaVersion") });
+}
+
+async function readMigratedTree(backend: TreeBackend, schemaVersion: number): Promise<Tree> {
+  const tree: Tree = { schemaVersion };
+  for (const key of MIGRATED_KEYS) {
+    const value = await backend.read(key);
+    if (value !== null && value !== undefined) tree[key] = value;
+  }
+  return tree;
+}
+
+function upToDate(from: number): MigrationReport {
+  return { from, to: Math.max(from, SCHEMA_VERSION), steps: [] };
+}
+
+// resolves once another client has finished the upgrade, or fails when its lock runs out
+function waitForVersion(backend: TreeBackend) {
+  return new Promise<void>((resolve, reject) => {
+    let unsub: (() => void) | null = null;
+    let done = false;
+    const finish = (err?: Error) => {
+      if (done) return;
+      done = true;
+      clearTimeout(timer);
+      if (unsub) unsub();
+      if (err) reject(err);
+      else resolve();
+    };
+    const timer = setTimeout(() => finish(new Error("Timed out waiting for the board upgrade")), MIGRATION_LOCK_MS);
+    unsub = backend.subscribe(
+      "schemaVersion",
+      (value) => {
+        if (storedVersion({ schemaVersion: value }) >= SCHEMA_VERSION) finish();
+      },
+      finish
+    );
+    if (done) unsub();
+  });
+}
+
+// upgrades the board in place; with dryRun nothing is written and the report says what would change.
+// An up-to-date board costs one read of schemaVersion. Otherwise the client that wins the lock reads the
+// migrated keys and writes them back together with the new schemaVersion in one multi-path update, so a
+// crash leaves the board either untouched or fully upgraded; the others wait for that write.
+export async function runMigrations(backend: TreeBackend, { dryRun = false } = {}): Promise<MigrationReport> {
+  const from = await readVersion(backend);
+  if (from >= SCHEMA_VERSION) return upToDate(from);
+  if (dryRun) return planMigrations(await readMigratedTree(backend, from)).report;
+
+  const now = Date.now();
+  const lock = await backend.transaction<{ at?: number }>(MIGRATION_LOCK, (current) =>
+    current && now - Number(current.at) < MIGRATION_LOCK_MS ? undefined : { at: now }
+  );
+  if (!lock.committed) {
+    await waitForVersion(backend);
+    return upToDate(from);
+  }
+
+  try {
+    // another client may have finished between the version check and the lock
+    const version = await readVersion(backend);
+    if (version >= SCHEMA_VERSION) {
+      await backend.update({ [MIGRATION_LOCK]: null });
+      return upToDate(version);
+    }
+
+    const planned = planMigrations(await readMigratedTree(backend, version));
+    const updates: TreeUpdates = { schemaVersion: planned.tree.schemaVersion, [MIGRATION_LOCK]: null };
+    MIGRATED_KEYS.forEach((key) => {
+      updates[key] = planned.tree[key] ?? null;
+    });
+    await backend.update(updates);
+    return planned.report;
+  } catch (err) {
+    await backend.update({ [MIGRATION_LOCK]: null }).catch(() => undefined);
+    throw err;
+  }
+}
@@ -0,0 +1,150 @@
+// src/lib/money.ts
+import { getLocale, t } from "./i18n";
+
+// amounts are integer cents everywhere (storage, state, sums); floats only appear at the UI edges
+export type Money = number;
+
+export function toCents(value: number): Money {
+  return Math.round(value * 100);
+}
+
+export function fromCents(cents: Money): number {
+  return cents / 100;
+}
+
+export function addMoney(...values: Money[]): Money {
+  return values.reduce((sum, value) => sum + Math.round(value), 0);
+}
+
+export function subtractMoney(a: Money, b: Money): Money {
+  return Math.round(a) - Math.round(b);
+}
+
+export function sumMoney(values: Money[]): Money {
+  return addMoney(...values);
+}
+
+// splits a total in N parts: the first N-1 are equal and the last one absorbs the leftover cents
+export function allocateMoney(total: Money, parts: number): Money[] {
+  if (!Number.isInteger(parts) || parts <= 0) return [];
+  const base = Math.floor(total / parts);
+  return Array.from({ length: parts }, (_, i) => (i < parts - 1 ? base : total - base * (parts - 1)));
+}
+
+// smallest installment that splits the total into N equal parts, rounding up
+export function ceilInstallment(total: Money, parts: number): Money {
+  return Math.ceil(total / parts);
+}
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+export function formatMoney(cents: Money, currency = "BRL", locale: string = getLocale()) {
+  const key = `${locale}|${currency}`;
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(locale, {
+      style: "currency",
+      currency,
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    });
+    formatters.set(key, formatter);
+  }
+  return formatter.format(fromCents(cents));
+}
+
+// plain "1234.56" for prefilling inputs
+export function moneyToInput(cents: Money) {
+  return fromCents(cents).toFixed(2);
+}
+
+// one number as typed: "1.234,56", "1,234.56", "1200.5", "1.200" (thousands) or ",5".
+// With both separators the last one is the decimal; a lone separator followed by exactly three
+// digits groups thousands unless what comes before it is 0 ("0,123"), otherwise it is the decimal
+function parseNumberLiteral(text: string): number {
+  const lastComma = text.lastIndexOf(",");
+  const lastDot = text.lastIndexOf(".");
+  let integerPart = text;
+  let decimalPart = "";
+
+  if (lastComma !== -1 && lastDot !== -1) {
+    const at = Math.max(lastComma, lastDot);
+    integerPart = text.slice(0, at).replace(/[.,]/g, "");
+    decimalPart = text.slice(at + 1);
+  } else if (lastComma !== -1 || lastDot !== -1) {
+    const separator = lastComma !== -1 ? "," : ".";
+    const parts = text.split(separator);
+    const grouped = parts.length > 2 || (parts[1].length === 3 && /^[1-9]/.test(parts[0]));
+    if (grouped) {
+      if (!new RegExp(`^[1-9]\\d{0,2}(\\${separator}\\d{3})+$`).test(text)) throw new Error(t("money.error.notNumber", { text }));
+      integerPart = parts.join("");
+    } else {
+      [integerPart, decimalPart] = parts;
+    }
+  }
+
+  if (!/^\d*$/.test(integerPart) || !/^\d*$/.test(decimalPart) || !(integerPart || decimalPart)) {
+    throw new Error(t("money.error.notNumber", { text }));
+  }
+  return Number(`${integerPart || "0"}.${decimalPart || "0"}`);
+}
+
+// reads what a user types in a money field: a number in pt-BR or en format, or a small expression
+// with + - * / and parentheses such as "1.200 + 350,50*2". Returns cents, never below zero (subtraction
+// inside the expression is fine); throws with a message to show
+export function parseMoneyInput(input: string): Money {
+  const text = input.replace(/R\$|US\$|€|\$|\s/g, "");
+  if (!text) throw new Error(t("money.error.empty"));
+
+  const tokens = text.match(/[\d.,]+|[-+*/()]|./g) ?? [];
+  let at = 0;
+
+  function expression(): number {
+    let value = term();
+    while (tokens[at] === "+" || tokens[at] === "-") {
+      const op = tokens[at++];
+      const right = term();
+      value = op === "+" ? value + right : value - right;
+    }
+    return value;
+  }
+
+  function term(): number {
+    let value = factor();
+    while (tokens[at] === "*" || tokens[at] === "/") {
+      const op = tokens[at++];
+      const right = factor();
+      if (op === "/" && right === 0) throw new Error(t("money.error.divisionByZero"));
+      value = op === "*" ? value * right : value / right;
+    }
+    return value;
+  }
+
+  function factor(): number {
+    const token = tokens[at++];
+    if (token === "-") return -factor();
+    if (token === "+") return factor();
+    if (token === "(") {
+      const value = expression();
+      if (tokens[at++] !== ")") throw new Error(t("money.error.unclosed"));
+      return value;
+    }
+    if (token !== undefined && /^[\d.,]+$/.test(token)) return parseNumberLiteral(token);
+    throw new Error(token === undefined ? t("money.error.incomplete") : t("money.error.unexpected", { token }));
+  }
+
+  const value = expression();
+  if (at < tokens.length) throw new Error(t("money.error.unexpected", { token: tokens[at] }));
+
+  const cents = Math.round(value * 100) || 0;
+  // expressions are rounded to the cent, a plain number has to be exact
+  if (!isMoneyExpression(text) && Math.abs(value * 100 - cents) > 1e-6) throw new Error(t("money.error.decimals"));
+  if (!Number.isSafeInteger(cents)) throw new Error(t("money.error.tooLarge"));
+  if (cents < 0) throw new Error(t("money.error.negative"));
+  return cents;
+}
+
+// whether the text is more than a plain number, i.e. worth showing the computed result
+export function isMoneyExpression(input: string) {
+  return /[+*/()]|.-/.test(input.trim());
+}
@@ -0,0 +1,84 @@
+// src/lib/schedules.ts
+import type { MessageKey } from "./i18n";
+import type { Schedule, ScheduleFrequency } from "./storage";
+
+// projection schedules lay their cards out this far ahead; each run pushes the window forward
+export const PROJECTION_HORIZON_MONTHS = 12;
+
+// a run never creates more cards than this for one schedule, whatever the gap since the last one
+const MAX_OCCURRENCES_PER_RUN = 500;
+
+export const FREQUENCY_LABELS: Record<ScheduleFrequency, MessageKey> = {
+  weekly: "schedule.frequency.weekly",
+  monthly: "schedule.frequency.monthly",
+  yearly: "schedule.frequency.yearly",
+};
+
+// yyyy-mm-dd in local time, the shape <input type="date"> uses; such strings also sort by date
+export function toDateKey(date: Date) {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function fromDateKey(key: string) {
+  const [year, month, day] = key.split("-").map(Number);
+  return { year, month: month - 1, day };
+}
+
+export function isDateKey(raw: unknown): raw is string {
+  if (typeof raw !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(raw)) return false;
+  const { year, month, day } = fromDateKey(raw);
+  return toDateKey(new Date(year, month, day)) === raw;
+}
+
+export function addDays(key: string, days: number) {
+  const { year, month, day } = fromDateKey(key);
+  return toDateKey(new Date(year, month, day + days));
+}
+
+export function addMonths(key: string, months: number) {
+  const { year, month, day } = fromDateKey(key);
+  const lastDay = new Date(year, month + months + 1, 0).getDate();
+  return toDateKey(new Date(year, month + months, Math.min(day, lastDay)));
+}
+
+// the n-th date of the schedule, counting the start as 0; a start on the 31st falls on each
+// month's last day, and a start on Feb 29 on Feb 28 in other years
+export function occurrence(schedule: Pick<Schedule, "startDate" | "frequency">, n: number) {
+  if (schedule.frequency === "weekly") return addDays(schedule.startDate, 7 * n);
+  return addMonths(schedule.startDate, schedule.frequency === "yearly" ? 12 * n : n);
+}
+
+// cards are dated at local noon, like monthly projections, so the day survives time zone changes
+export function occurrenceISO(key: string) {
+  const { year, month, day } = fromDateKey(key);
+  return new Date(year, month, day, 12, 0, 0).toISOString();
+}
+
+// how far a run goes: today for cards that record money, the horizon for projections
+export function runUntil(schedule: Pick<Schedule, "kind">, today: string) {
+  return schedule.kind === "projection" ? addMonths(today, PROJECTION_HORIZON_MONTHS) : today;
+}
+
+// the dates after lastDate up to `until` (and the end date) that have no card yet
+export function pendingOccurrences(schedule: Schedule, until: string) {
+  const dates: string[] = [];
+  const last = schedule.endDate && schedule.endDate < until ? schedule.endDate : until;
+  for (let n = 0; dates.length < MAX_OCCURRENCES_PER_RUN; n++) {
+    const date = occurrence(schedule, n);
+    if (date > last) break;
+    if (!schedule.lastDate || date > schedule.lastDate) dates.push(date);
+  }
+  return dates;
+}
+
+// the next date money comes in, today included unless its card was already made; null once the schedule has ended
+export function nextOccurrence(schedule: Schedule, today: string) {
+  const from = schedule.kind !== "projection" && schedule.lastDate && schedule.lastDate >= today ? addDays(schedule.lastDate, 1) : today;
+  for (let n = 0; n < 10000; n++) {
+    const date = occurrence(schedule, n);
+    if (schedule.endDate && date > schedule.endDate) return null;
+    if (date >= from) return date;
+  }
+  return null;
+}
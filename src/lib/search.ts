@@ -0,0 +1,15 @@
+// src/lib/search.ts
+import type { CardText } from "./storage";
+
+// lower case without accents, so "acao" finds "Ação"
+export function foldText(text: string) {
+  return text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+}
+
+// every word of the query has to appear in the card's description or notes; an empty query matches all
+export function taskMatchesText(task: CardText, query: string) {
+  const words = foldText(query).split(/\s+/).filter(Boolean);
+  if (words.length === 0) return true;
+  const haystack = foldText(`${task.description ?? ""}\n${task.notes ?? ""}`);
+  return words.every((word) => haystack.includes(word));
+}
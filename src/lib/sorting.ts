@@ -0,0 +1,39 @@
+// src/lib/sorting.ts
+import { DEFAULT_SORT_MODE, type TaskSortMode } from "./storage";
+import type { MessageKey } from "./i18n";
+
+type SortableTask = { id: string | number; content: number; dateISO?: string | null };
+
+// catalog keys; the picker runs them through t()
+export const SORT_MODE_LABELS: Record<TaskSortMode, MessageKey> = {
+  manual: "sort.manual",
+  "date-desc": "sort.dateDesc",
+  "date-asc": "sort.dateAsc",
+  "amount-desc": "sort.amountDesc",
+};
+
+function time(task: SortableTask) {
+  return task.dateISO ? new Date(task.dateISO).getTime() || 0 : 0;
+}
+
+// orders a column's cards; in manual mode cards missing from the stored order (new ones)
+// come first, newest on top
+export function sortTasks<T extends SortableTask>(tasks: T[], mode: TaskSortMode = DEFAULT_SORT_MODE, order: string[] = []) {
+  const byDateDesc = (a: T, b: T) => time(b) - time(a);
+
+  switch (mode) {
+    case "date-asc":
+      return tasks.slice().sort((a, b) => time(a) - time(b));
+    case "amount-desc":
+      return tasks.slice().sort((a, b) => b.content - a.content || byDateDesc(a, b));
+    case "manual": {
+      const position = new Map(order.map((id, i) => [id, i]));
+      const listed = tasks.filter((t) => position.has(String(t.id)));
+      const unlisted = tasks.filter((t) => !position.has(String(t.id)));
+      listed.sort((a, b) => position.get(String(a.id))! - position.get(String(b.id))!);
+      return [...unlisted.sort(byDateDesc), ...listed];
+    }
+    default:
+      return tasks.slice().sort(byDateDesc);
+  }
+}
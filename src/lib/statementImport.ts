@@ -0,0 +1,229 @@
+// src/lib/statementImport.ts
+import type { Money } from "./money";
+import type { Task } from "./storage";
+import { t } from "./i18n";
+
+// one transaction read from a bank statement; amount and date are null when unreadable
+export type StatementRow = {
+  line: number;
+  dateISO: string | null;
+  amount: Money | null;
+  description: string;
+};
+
+export type DateFormat = "dmy" | "ymd" | "mdy";
+
+// which CSV column holds what; -1 means not mapped
+export type CsvMapping = {
+  hasHeader: boolean;
+  date: number;
+  amount: number;
+  description: number;
+  dateFormat: DateFormat;
+};
+
+export type StatementFile =
+  | { kind: "ofx"; rows: StatementRow[] }
+  | { kind: "csv"; cells: string[][] };
+
+// the file is neither OFX nor something that looks like a CSV table
+export class StatementError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StatementError";
+  }
+}
+
+export function isOfx(text: string) {
+  return /<OFX>/i.test(text) || /^\s*OFXHEADER:/i.test(text);
+}
+
+// --- amounts and dates ---
+
+// reads "1.234,56", "-1,234.56", "R$ 10,00", "(50.00)" or "1234"; the last "," or "." followed by
+// one or two digits is the decimal separator, every other separator is grouping
+export function parseStatementAmount(text: string): Money | null {
+  let value = text.trim().replace(/\s|R\$|US\$|€|\$/g, "");
+  if (!value) return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(value)) {
+    negative = true;
+    value = value.slice(1, -1);
+  }
+  if (value.startsWith("-")) {
+    negative = !negative;
+    value = value.slice(1);
+  } else if (value.endsWith("-")) {
+    negative = !negative;
+    value = value.slice(0, -1);
+  } else if (value.startsWith("+")) {
+    value = value.slice(1);
+  }
+
+  const decimal = /[.,](\d{1,2})$/.exec(value);
+  const integerPart = (decimal ? value.slice(0, decimal.index) : value).replace(/[.,]/g, "");
+  if (!/^\d+$/.test(integerPart)) return null;
+
+  // built from the digits, no float rounding involved
+  const cents = Number(integerPart) * 100 + Number((decimal?.[1] ?? "").padEnd(2, "0"));
+  return negative ? -cents : cents;
+}
+
+// the statement only says which day; noon keeps it on that day in any timezone around Brazil
+function dayISO(year: number, month: number, day: number) {
+  const date = new Date(year, month - 1, day, 12, 0, 0);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return date.toISOString();
+}
+
+export function parseStatementDate(text: string, format: DateFormat): string | null {
+  const parts = text.trim().split(/[^\d]+/).filter(Boolean).map(Number);
+  if (parts.length < 3) return null;
+  const [a, b, c] = parts;
+  if (format === "ymd") return dayISO(a, b, c);
+  const year = c < 100 ? 2000 + c : c;
+  return format === "dmy" ? dayISO(year, b, a) : dayISO(year, a, b);
+}
+
+// --- OFX ---
+
+function ofxField(block: string, tag: string) {
+  const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, "i").exec(block);
+  return match ? match[1].trim() : "";
+}
+
+// DTPOSTED is YYYYMMDD[HHMMSS[.XXX]][[offset:TZ]]; only the day matters for a card
+function ofxDate(value: string) {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value);
+  return match ? dayISO(Number(match[1]), Number(match[2]), Number(match[3])) : null;
+}
+
+// works for both the SGML (OFX 1.x, unclosed tags) and XML (OFX 2.x) flavours
+export function parseOfx(text: string): StatementRow[] {
+  const blocks = text.split(/<STMTTRN>/i).slice(1);
+  return blocks.map((raw, i) => {
+    const block = raw.split(/<\/STMTTRN>/i)[0];
+    // OFX amounts always use a dot, but some banks write a comma anyway
+    const amount = parseStatementAmount(ofxField(block, "TRNAMT"));
+    return {
+      line: i + 1,
+      dateISO: ofxDate(ofxField(block, "DTPOSTED")),
+      amount,
+      description: ofxField(block, "MEMO") || ofxField(block, "NAME"),
+    };
+  });
+}
+
+// --- CSV ---
+
+// picks the delimiter that splits the first line into the most cells
+function detectDelimiter(line: string) {
+  const candidates = [";", ",", "\t"];
+  return candidates
+    .map((d) => ({ d, count: splitCsvLine(line, d).length }))
+    .sort((x, y) => y.count - x.count)[0].d;
+}
+
+function splitCsvLine(line: string, delimiter: string) {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      cells.push(cell.trim());
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+export function parseCsvTable(text: string): string[][] {
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/).filter((line) => line.trim());
+  if (lines.length === 0) return [];
+  const delimiter = detectDelimiter(lines[0]);
+  return lines.map((line) => splitCsvLine(line, delimiter));
+}
+
+const HEADER_HINTS: Record<"date" | "amount" | "description", RegExp> = {
+  date: /^(data|date|dt)/i,
+  amount: /(valor|amount|quantia|montante|crédito|credito)/i,
+  description: /(descri|hist[oó]rico|memo|lan[cç]amento|description|detalhe)/i,
+};
+
+// a first guess from the header names, falling back to the first columns in statement order
+export function guessMapping(cells: string[][]): CsvMapping {
+  const header = cells[0] ?? [];
+  const hasHeader = header.some((cell) => parseStatementAmount(cell) === null && !/\d{1,4}[/-]\d{1,2}/.test(cell));
+  const find = (key: keyof typeof HEADER_HINTS, fallback: number) => {
+    const at = hasHeader ? header.findIndex((cell) => HEADER_HINTS[key].test(cell)) : -1;
+    return at === -1 ? Math.min(fallback, header.length - 1) : at;
+  };
+  const sample = cells[hasHeader ? 1 : 0] ?? [];
+  const date = find("date", 0);
+  const dateFormat: DateFormat = /^\d{4}/.test(sample[date] ?? "") ? "ymd" : "dmy";
+  return { hasHeader, date, amount: find("amount", 2), description: find("description", 1), dateFormat };
+}
+
+export function csvRows(cells: string[][], mapping: CsvMapping): StatementRow[] {
+  const start = mapping.hasHeader ? 1 : 0;
+  return cells.slice(start).map((row, i) => ({
+    line: start + i + 1,
+    dateISO: mapping.date >= 0 ? parseStatementDate(row[mapping.date] ?? "", mapping.dateFormat) : null,
+    amount: mapping.amount >= 0 ? parseStatementAmount(row[mapping.amount] ?? "") : null,
+    description: mapping.description >= 0 ? row[mapping.description] ?? "" : "",
+  }));
+}
+
+export function readStatement(text: string): StatementFile {
+  if (isOfx(text)) {
+    const rows = parseOfx(text);
+    if (rows.length === 0) throw new StatementError(t("statement.error.emptyOfx"));
+    return { kind: "ofx", rows };
+  }
+  const cells = parseCsvTable(text);
+  if (cells.length === 0 || cells[0].length < 2) {
+    throw new StatementError(t("statement.error.unknownFormat"));
+  }
+  return { kind: "csv", cells };
+}
+
+// --- preview ---
+
+function localDay(iso: string) {
+  const date = new Date(iso);
+  return `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+}
+
+// rows with the same amount on the same day as a card already in the column
+export function likelyDuplicates(rows: StatementRow[], tasks: Task[]) {
+  const existing = new Set(
+    tasks.filter((t) => t.dateISO).map((t) => `${t.content}|${localDay(t.dateISO as string)}`)
+  );
+  return new Set(
+    rows.filter((r) => r.amount !== null && r.dateISO && existing.has(`${r.amount}|${localDay(r.dateISO)}`)).map((r) => r.line)
+  );
+}
+
+// only credits become cards: a balance card holds a positive amount
+export function rowProblem(row: StatementRow) {
+  if (row.dateISO === null) return t("statement.problem.date");
+  if (row.amount === null) return t("statement.problem.amount");
+  if (row.amount <= 0) return t("statement.problem.debit");
+  return null;
+}
@@ -0,0 +1,1120 @@
+// src/lib/storage.ts
+import { UniqueIdentifier } from "@dnd-kit/core";
+import type { Money } from "./money";
+import type { ActivityChange, ActivityLog, ActivityOp } from "./activity";
+import { t } from "./i18n";
+import { addDays, isDateKey, occurrenceISO, pendingOccurrences, runUntil, toDateKey } from "./schedules";
+
+// how a column lists its cards; "manual" follows tasksOrder
+export type TaskSortMode = "manual" | "date-desc" | "date-asc" | "amount-desc";
+
+export const DEFAULT_SORT_MODE: TaskSortMode = "date-desc";
+
+export type Column = {
+  id: string;
+  title: string;
+  meta?: Money | null | undefined;
+  placeId?: string | null | undefined;
+  sortMode?: TaskSortMode;
+  // ISO 4217 code new cards are created in; DEFAULT_CURRENCY when unset
+  currency?: string;
+};
+
+// what a card's amount means; content is always positive and the kind gives its sign
+export type TaskKind = "deposit" | "yield" | "withdrawal" | "fee" | "projection";
+
+export const TASK_KINDS: TaskKind[] = ["deposit", "yield", "withdrawal", "fee", "projection"];
+
+export const DEFAULT_TASK_KIND: TaskKind = "deposit";
+
+export type Task = {
+  id: string;
+  columnId: string;
+  content: Money;
+  dateISO?: string | null;
+  kind?: TaskKind;
+  // the currency the card was created in; cards older than currencies follow their column
+  currency?: string;
+  // a one-line label and free-form notes; null clears them in an edit
+  description?: string | null;
+  notes?: string | null;
+  // ids from the board's tags; null clears them in an edit
+  tagIds?: string[] | null;
+};
+
+export type CardText = Pick<Task, "description" | "notes">;
+
+// what the card forms set besides amount, date and kind
+export type CardDetails = CardText & Pick<Task, "tagIds">;
+
+export type Place = {
+  id: string;
+  name: string;
+  color: string;
+  expectedValue?: Money | null;
+  dateTimeISO?: string | null;
+};
+
+// a label cards can carry, such as "dividendo"; shared by the whole board
+export type Tag = {
+  id: string;
+  name: string;
+  color: string;
+};
+
+export type ScheduleFrequency = "weekly" | "monthly" | "yearly";
+
+export const SCHEDULE_FREQUENCIES: ScheduleFrequency[] = ["weekly", "monthly", "yearly"];
+
+// a recurring contribution to one column. Cards of any kind but projection are added once their date
+// comes; projection schedules lay theirs out ahead of time
+export type Schedule = {
+  id: string;
+  columnId: string;
+  amount: Money;
+  kind: TaskKind;
+  frequency: ScheduleFrequency;
+  // yyyy-mm-dd in local time; the first date, whose weekday or day of the month the others keep
+  startDate: string;
+  endDate?: string | null;
+  // copied to every card it makes
+  description?: string | null;
+  paused?: boolean;
+  // the last date that already got its card
+  lastDate?: string | null;
+};
+
+export type ScheduleInput = Omit<Schedule, "id" | "lastDate">;
+
+export type BoardSnapshot = {
+  columns: Column[];
+  columnsOrder: string[];
+  tasks: Task[];
+  places: Place[];
+  placesOrder: string[];
+  // sorted by name
+  tags: Tag[];
+  // oldest start first
+  schedules: Schedule[];
+  // manual card order, per column id
+  tasksOrder: Record<string, string[]>;
+  currency: CurrencySettings;
+};
+
+// everything stored before currencies existed is in reais
+export const DEFAULT_CURRENCY = "BRL";
+
+// totals are shown in base; rates[code] is what one unit of code is worth in base
+export type CurrencySettings = {
+  base: string;
+  rates: Record<string, number>;
+};
+
+export const DEFAULT_CURRENCY_SETTINGS: CurrencySettings = {
+  base: DEFAULT_CURRENCY,
+  rates: {},
+};
+
+// a deleted column (with its cards), card or place, kept under trash/{id} until restored or purged
+export type TrashEntry = {
+  id: string;
+  kind: "column" | "task" | "place";
+  deletedAt: string;
+  record: Column | Task | Place;
+  // column: its cards, manual card order and schedules
+  tasks?: Record<string, Task>;
+  tasksOrder?: string[];
+  schedules?: Record<string, Schedule>;
+  // column/place: index in columnsOrder/placesOrder
+  position?: number;
+  // place: columns that pointed to it
+  columnIds?: string[];
+};
+
+export type BoardSettings = {
+  // trash entries older than this are purged
+  trashRetentionDays: number;
+};
+
+export const DEFAULT_SETTINGS: BoardSettings = {
+  trashRetentionDays: 30,
+};
+
+// multi-path update: keys are paths relative to the backend root, null removes the node
+export type TreeUpdates = Record<string, unknown>;
+
+// the few tree primitives a backend has to offer; every mutation is expressed on top of them
+// so all adapters built with createStorage share exactly the same semantics
+export interface TreeBackend {
+  read(path: string): Promise<unknown>;
+  update(updates: TreeUpdates): Promise<void>;
+  subscribe(path: string, cb: (value: unknown) => void, onError?: (err: Error) => void): () => void;
+  // read-modify-write of a single node; the updater may run several times and returns undefined to abort
+  transaction<T>(
+    path: string,
+    updater: (current: T | null) => T | null | undefined
+  ): Promise<{ committed: boolean; value: T | null }>;
+}
+
+// what the board talks to, regardless of where the data lives
+export interface StorageAdapter {
+  subscribeAll(cb: (snapshot: BoardSnapshot) => void, onError?: (err: Error) => void): () => void;
+  addColumn(title: string): Promise<string>;
+  editColumn(
+    id: string,
+    payload: Partial<{
+      title: string;
+      meta: Money | null | undefined;
+      placeId: string | null;
+      sortMode: TaskSortMode;
+      currency: string | null;
+    }>
+  ): Promise<void>;
+  removeColumn(id: string): Promise<void>;
+  updateColumnsOrder(newOrder: UniqueIdentifier[]): Promise<void>;
+  // stores the manual card order of a column and switches it to manual sorting
+  updateTasksOrder(columnId: string, newOrder: UniqueIdentifier[]): Promise<void>;
+  addTask(newTask: Omit<Task, "id">): Promise<string>;
+  addTasks(newTasks: Omit<Task, "id">[]): Promise<string[]>;
+  editTask(id: string, payload: Partial<Task>): Promise<void>;
+  // puts a card in another column; `order` is that column's new manual order, when it keeps one
+  moveTask(id: string, columnId: string, options?: { currency?: string; order?: UniqueIdentifier[] }): Promise<void>;
+  removeTask(id: string): Promise<void>;
+  transferTask(
+    sourceId: string,
+    amount: Money,
+    targetColumnId: string,
+    dateISO?: string | null,
+    expectedContent?: Money
+  ): Promise<string>;
+  addPlace(place: Omit<Place, "id"> & { id?: string }): Promise<string>;
+  editPlace(
+    id: string,
+    payload: Partial<{ name: string; color: string; expectedValue: Money | null; dateTimeISO: string | null }>
+  ): Promise<void>;
+  removePlace(id: string): Promise<void>;
+  reorderPlaces(newOrder: UniqueIdentifier[]): Promise<void>;
+  addTag(tag: Omit<Tag, "id">): Promise<string>;
+  editTag(id: string, payload: Partial<Omit<Tag, "id">>): Promise<void>;
+  // also takes the tag off every card that has it
+  removeTag(id: string): Promise<void>;
+  // these three also add the cards that are already due
+  addSchedule(schedule: ScheduleInput): Promise<string>;
+  editSchedule(id: string, payload: Partial<ScheduleInput>): Promise<void>;
+  // cards the schedule made stay on the board
+  removeSchedule(id: string): Promise<void>;
+  // adds the cards every active schedule owes by today; runs when a board opens
+  runSchedules(): Promise<void>;
+  upsertPlaces(places: Place[]): Promise<void>;
+  restoreFromTrash(trashId: string): Promise<void>;
+  purgeTrash(trashIds: string[]): Promise<void>;
+  editSettings(payload: Partial<BoardSettings>): Promise<void>;
+  // replaces the base currency and the whole rates table
+  editCurrency(settings: CurrencySettings): Promise<void>;
+  // writes updates prepared by the backup import (see backup.ts) as one change
+  importData(updates: TreeUpdates): Promise<void>;
+  // writes a fix prepared by the integrity check (see integrity.ts) as one change
+  repair(updates: TreeUpdates): Promise<void>;
+  revert(changes: ActivityChange[], direction: "undo" | "redo"): Promise<void>;
+}
+
+// "incomplete" is the one code raised after the source was debited, when neither the new card nor the refund could be written
+export type TransferErrorCode = "invalid-amount" | "source-missing" | "source-changed" | "insufficient-funds" | "incomplete";
+
+// an undo/redo that would overwrite a newer change
+export class UndoError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UndoError";
+  }
+}
+
+// a trash entry that cannot be restored as it is, e.g. a card whose column is gone
+export class TrashError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TrashError";
+  }
+}
+
+// thrown by transferTask when the transfer is rejected, as opposed to the storage being unreachable
+export class TransferError extends Error {
+  code: TransferErrorCode;
+
+  constructor(code: TransferErrorCode, message: string) {
+    super(message);
+    this.name = "TransferError";
+    this.code = code;
+  }
+}
+
+export function genId(prefix: string) {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+// The normalizers keep reads safe, but old shapes are fixed once by the migration steps in
+// migrations.ts: new fields and format changes belong there, not here.
+
+function toArray<T>(val: any): T[] {
+  if (Array.isArray(val)) return val as T[];
+  if (val && typeof val === "object") return Object.values(val) as T[];
+  return [];
+}
+
+export function normalizeOrder(val: any): string[] {
+  return toArray<any>(val)
+    .map((x) => String(x))
+    .filter(Boolean);
+}
+
+// what the RTDB never stores: null, undefined and objects or arrays holding nothing else
+function isMissing(value: unknown): boolean {
+  if (value === null || value === undefined) return true;
+  if (typeof value !== "object") return false;
+  return Object.values(value).every(isMissing);
+}
+
+// deep equality that ignores key order, since the RTDB hands objects back sorted by key, and
+// treats missing values alike; used by undo/redo, the activity log and the offline queue replay
+export function sameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (isMissing(a) || isMissing(b)) return isMissing(a) && isMissing(b);
+  if (typeof a !== "object" || typeof b !== "object" || !a || !b) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const keys = (value: object) => Object.keys(value).filter((k) => !isMissing((value as Record<string, unknown>)[k]));
+  const keysA = keys(a);
+  const keysB = keys(b);
+  return keysA.length === keysB.length && keysA.every((k) => sameValue((a as Record<string, unknown>)[k], (b as Record<string, unknown>)[k]));
+}
+
+const SORT_MODES: TaskSortMode[] = ["manual", "date-desc", "date-asc", "amount-desc"];
+
+// per-column orders; anything that is not an object of orders is ignored
+export function normalizeTasksOrder(val: unknown): Record<string, string[]> {
+  if (!val || typeof val !== "object" || Array.isArray(val)) return {};
+  return Object.fromEntries(Object.entries(val).map(([columnId, order]) => [columnId, normalizeOrder(order)]));
+}
+
+// a three-letter ISO 4217 code, upper-cased, or undefined
+export function normalizeCurrencyCode(raw: unknown): string | undefined {
+  const code = typeof raw === "string" ? raw.trim().toUpperCase() : "";
+  return /^[A-Z]{3}$/.test(code) ? code : undefined;
+}
+
+// drops rates that are not positive numbers; the base itself is always worth 1
+export function normalizeCurrencySettings(raw: unknown): CurrencySettings {
+  const value = (raw && typeof raw === "object" ? raw : {}) as Partial<Record<keyof CurrencySettings, unknown>>;
+  const base = normalizeCurrencyCode(value.base) ?? DEFAULT_CURRENCY;
+  const rates: Record<string, number> = {};
+  if (value.rates && typeof value.rates === "object") {
+    Object.entries(value.rates).forEach(([key, stored]) => {
+      const code = normalizeCurrencyCode(key);
+      const rate = Number(stored);
+      if (code && code !== base && Number.isFinite(rate) && rate > 0) rates[code] = rate;
+    });
+  }
+  return { base, rates };
+}
+
+export function normalizePlace(raw: any): Place {
+  return {
+    id: String(raw?.id ?? genId("place")),
+    name: String(raw?.name ?? ""),
+    color: String(raw?.color ?? "#06b6d4"),
+    expectedValue:
+      raw?.expectedValue === undefined ||
+        raw?.expectedValue === null ||
+        raw?.expectedValue === ""
+        ? null
+        : Math.round(Number(raw.expectedValue)) || null,
+    dateTimeISO:
+      raw?.dateTimeISO === undefined ||
+        raw?.dateTimeISO === null ||
+        raw?.dateTimeISO === ""
+        ? null
+        : String(raw.dateTimeISO),
+  };
+}
+
+export function normalizeColumn(raw: any): Column {
+  return {
+    id: String(raw?.id ?? genId("col")),
+    title: String(raw?.title ?? ""),
+    meta:
+      raw?.meta === undefined || raw?.meta === null || raw?.meta === ""
+        ? undefined
+        : Math.round(Number(raw.meta)) || 0,
+    placeId:
+      raw?.placeId === undefined || raw?.placeId === null || raw?.placeId === ""
+        ? undefined
+        : String(raw.placeId),
+    sortMode: SORT_MODES.includes(raw?.sortMode) ? raw.sortMode : undefined,
+    currency: normalizeCurrencyCode(raw?.currency),
+  };
+}
+
+export function normalizeTaskKind(raw: unknown): TaskKind | undefined {
+  return TASK_KINDS.includes(raw as TaskKind) ? (raw as TaskKind) : undefined;
+}
+
+// trimmed, and left out when empty: the RTDB stores no undefined values
+export function cardText(raw: { description?: unknown; notes?: unknown }): CardText {
+  const description = typeof raw.description === "string" ? raw.description.trim() : "";
+  const notes = typeof raw.notes === "string" ? raw.notes.trim() : "";
+  return { ...(description ? { description } : {}), ...(notes ? { notes } : {}) };
+}
+
+export function normalizeTask(raw: any): Task {
+  return {
+    id: String(raw?.id ?? genId("task")),
+    columnId: String(raw?.columnId ?? ""),
+    content: Math.round(Number(raw?.content)) || 0,
+    dateISO: raw?.dateISO ?? undefined,
+    kind: normalizeTaskKind(raw?.kind) ?? DEFAULT_TASK_KIND,
+    currency: normalizeCurrencyCode(raw?.currency),
+    ...cardText(raw ?? {}),
+    tagIds: normalizeTagIds(raw?.tagIds),
+  };
+}
+
+export const DEFAULT_TAG_COLOR = "#64748b";
+
+// the RTDB may hand an array back as an object; no tags reads as undefined, like a missing field
+export function normalizeTagIds(raw: unknown) {
+  const ids = [...new Set(normalizeOrder(raw))];
+  return ids.length > 0 ? ids : undefined;
+}
+
+export function normalizeTag(raw: unknown): Tag {
+  const tag = (raw ?? {}) as Partial<Record<keyof Tag, unknown>>;
+  return {
+    id: String(tag.id ?? genId("tag")),
+    name: String(tag.name ?? "").trim(),
+    color: typeof tag.color === "string" && tag.color ? tag.color : DEFAULT_TAG_COLOR,
+  };
+}
+
+export function normalizeSchedule(raw: unknown): Schedule {
+  const value = (raw ?? {}) as Partial<Record<keyof Schedule, unknown>>;
+  const amount = Math.round(Number(value.amount));
+  const frequency = SCHEDULE_FREQUENCIES.find((f) => f === value.frequency);
+  return {
+    id: String(value.id ?? genId("schedule")),
+    columnId: String(value.columnId ?? ""),
+    amount: Number.isFinite(amount) && amount > 0 ? amount : 0,
+    kind: normalizeTaskKind(value.kind) ?? DEFAULT_TASK_KIND,
+    frequency: frequency ?? "monthly",
+    startDate: isDateKey(value.startDate) ? value.startDate : toDateKey(new Date()),
+    endDate: isDateKey(value.endDate) ? value.endDate : null,
+    description: typeof value.description === "string" ? value.description.trim() || null : null,
+    paused: value.paused === true,
+    lastDate: isDateKey(value.lastDate) ? value.lastDate : null,
+  };
+}
+
+function placeRecord(place: Omit<Place, "id"> & { id: string }) {
+  return {
+    id: place.id,
+    name: place.name,
+    color: place.color,
+    expectedValue: place.expectedValue === undefined ? null : place.expectedValue,
+    dateTimeISO: place.dateTimeISO === undefined ? null : place.dateTimeISO,
+  };
+}
+
+// inverse of subscribeAll: turns a snapshot back into the raw tree layout
+export function snapshotToTree(snapshot: Partial<BoardSnapshot>) {
+  const byId = <T extends { id: string }>(items: T[] = []) =>
+    Object.fromEntries(items.map((item) => [item.id, item]));
+
+  return {
+    columns: byId(snapshot.columns),
+    columnsOrder: snapshot.columnsOrder ?? (snapshot.columns ?? []).map((c) => c.id),
+    tasks: byId(snapshot.tasks),
+    places: byId((snapshot.places ?? []).map(placeRecord)),
+    placesOrder: snapshot.placesOrder ?? (snapshot.places ?? []).map((p) => p.id),
+    tasksOrder: snapshot.tasksOrder ?? {},
+    currency: snapshot.currency ?? DEFAULT_CURRENCY_SETTINGS,
+    tags: byId(snapshot.tags),
+    schedules: byId(snapshot.schedules),
+  };
+}
+
+// how many times transferTask tries to write the new card and its log entry
+const TRANSFER_WRITE_TRIES = 3;
+
+// with a log, every change also appends an activity entry in the same write
+export function createStorage(backend: TreeBackend, log?: ActivityLog): StorageAdapter {
+  async function commit(op: ActivityOp, updates: TreeUpdates) {
+    const logged = log ? await log.record(op, updates) : updates;
+    await backend.update(logged);
+    log?.committed(logged);
+  }
+
+  // subscribes to /columns, /columnsOrder, /tasks, /tasksOrder, /places, /placesOrder, /currency, /tags and /schedules
+  function subscribeAll(cb: (snapshot: BoardSnapshot) => void, onError?: (err: Error) => void) {
+    let latestColumns: Record<string, Column> = {};
+    let latestColumnsOrder: string[] = [];
+    let latestTasks: Record<string, Task> = {};
+    let latestPlaces: Record<string, Place> = {};
+    let latestPlacesOrder: string[] = [];
+    let latestTasksOrder: Record<string, string[]> = {};
+    let latestCurrency: CurrencySettings = DEFAULT_CURRENCY_SETTINGS;
+    let latestTags: Record<string, Tag> = {};
+    let latestSchedules: Record<string, Schedule> = {};
+
+    const runCb = () => {
+      const colsArr = Object.values(latestColumns || {}).map(normalizeColumn);
+      const orderedCols = latestColumnsOrder
+        .map((id) => colsArr.find((c) => c.id === id))
+        .filter(Boolean) as Column[];
+      const remainingCols = colsArr.filter((c) => !latestColumnsOrder.includes(c.id));
+      const finalCols = [...orderedCols, ...remainingCols];
+
+      const tasksArr: Task[] = Object.values(latestTasks || {}).map(normalizeTask);
+
+      const placesArr = Object.values(latestPlaces || {}).map(normalizePlace);
+      const orderedPlaces = latestPlacesOrder
+        .map((id) => placesArr.find((p) => p.id === id))
+        .filter(Boolean) as Place[];
+      const remainingPlaces = placesArr.filter((p) => !latestPlacesOrder.includes(p.id));
+      const finalPlaces = [...orderedPlaces, ...remainingPlaces];
+
+      cb({
+        columns: finalCols,
+        columnsOrder: latestColumnsOrder,
+        tasks: tasksArr,
+        places: finalPlaces,
+        placesOrder: latestPlacesOrder,
+        tasksOrder: latestTasksOrder,
+        currency: latestCurrency,
+        tags: Object.entries(latestTags || {})
+          .map(([id, raw]) => normalizeTag({ ...raw, id }))
+          .filter((tag) => tag.name)
+          .sort((a, b) => a.name.localeCompare(b.name)),
+        schedules: Object.entries(latestSchedules || {})
+          .map(([id, raw]) => normalizeSchedule({ ...raw, id }))
+          .sort((a, b) => a.startDate.localeCompare(b.startDate) || a.id.localeCompare(b.id)),
+      });
+    };
+
+    const unsubs = [
+      backend.subscribe("columns", (val) => {
+        latestColumns = (val as Record<string, Column>) || {};
+        runCb();
+      }, onError),
+      backend.subscribe("columnsOrder", (val) => {
+        latestColumnsOrder = normalizeOrder(val);
+        runCb();
+      }, onError),
+      backend.subscribe("tasks", (val) => {
+        latestTasks = (val as Record<string, Task>) || {};
+        runCb();
+      }, onError),
+      backend.subscribe("tasksOrder", (val) => {
+        latestTasksOrder = normalizeTasksOrder(val);
+        runCb();
+      }, onError),
+      backend.subscribe("places", (val) => {
+        latestPlaces = (val as Record<string, Place>) || {};
+        runCb();
+      }, onError),
+      backend.subscribe("placesOrder", (val) => {
+        latestPlacesOrder = normalizeOrder(val);
+        runCb();
+      }, onError),
+      backend.subscribe("currency", (val) => {
+        latestCurrency = normalizeCurrencySettings(val);
+        runCb();
+      }, onError),
+      backend.subscribe("tags", (val) => {
+        latestTags = (val as Record<string, Tag>) || {};
+        runCb();
+      }, onError),
+      backend.subscribe("schedules", (val) => {
+        latestSchedules = (val as Record<string, Schedule>) || {};
+        runCb();
+      }, onError),
+    ];
+
+    return () => unsubs.forEach((unsub) => unsub());
+  }
+
+  // CRUD helpers
+
+  async function addColumn(title: string) {
+    const id = genId("col");
+    const arr = normalizeOrder(await backend.read("columnsOrder"));
+    arr.push(id);
+
+    await commit("addColumn", {
+      [`columns/${id}`]: { id, title },
+      columnsOrder: arr,
+    });
+    return id;
+  }
+
+  // moves the column, its cards and its schedules to the trash, remembering where it sat in columnsOrder
+  async function removeColumn(id: string) {
+    const [column, tasksVal, orderVal, tasksOrderVal, schedulesVal] = await Promise.all([
+      backend.read(`columns/${id}`),
+      backend.read("tasks"),
+      backend.read("columnsOrder"),
+      backend.read(`tasksOrder/${id}`),
+      backend.read("schedules"),
+    ]);
+    const updates: TreeUpdates = {};
+    const columnTasks: Record<string, Task> = {};
+    const columnSchedules: Record<string, Schedule> = {};
+
+    Object.entries((tasksVal as Record<string, Task>) || {}).forEach(([taskId, task]) => {
+      if (task && task.columnId === id) {
+        columnTasks[taskId] = task;
+        updates[`tasks/${taskId}`] = null;
+      }
+    });
+
+    Object.entries((schedulesVal as Record<string, Schedule>) || {}).forEach(([scheduleId, schedule]) => {
+      if (schedule && schedule.columnId === id) {
+        columnSchedules[scheduleId] = schedule;
+        updates[`schedules/${scheduleId}`] = null;
+      }
+    });
+
+    updates[`columns/${id}`] = null;
+    updates[`tasksOrder/${id}`] = null;
+
+    const arr = normalizeOrder(orderVal);
+    updates["columnsOrder"] = arr.filter((x) => x !== id);
+
+    if (column) {
+      Object.assign(
+        updates,
+        trashUpdates({
+          kind: "column",
+          record: column as Column,
+          tasks: columnTasks,
+          tasksOrder: normalizeOrder(tasksOrderVal),
+          schedules: columnSchedules,
+          position: arr.indexOf(id),
+        })
+      );
+    }
+
+    await commit("removeColumn", updates);
+  }
+
+  async function editColumn(
+    id: string,
+    payload: Partial<{
+      title: string;
+      meta: Money | null | undefined;
+      placeId: string | null;
+      sortMode: TaskSortMode;
+      currency: string | null;
+    }>
+  ) {
+    const updates: TreeUpdates = {};
+    Object.entries(payload).forEach(([key, value]) => {
+      updates[`columns/${id}/${key}`] = key === "meta" && typeof value === "number" ? Math.round(value) : value ?? null;
+    });
+    await commit("editColumn", updates);
+  }
+
+  async function updateColumnsOrder(newOrder: UniqueIdentifier[]) {
+    await commit("updateColumnsOrder", { columnsOrder: newOrder.map(String) });
+  }
+
+  async function updateTasksOrder(columnId: string, newOrder: UniqueIdentifier[]) {
+    await commit("updateTasksOrder", {
+      [`tasksOrder/${columnId}`]: newOrder.map(String),
+      [`columns/${columnId}/sortMode`]: "manual",
+    });
+  }
+
+  function taskRecord({ currency, description, notes, tagIds, ...newTask }: Omit<Task, "id">, id: string): Task {
+    return {
+      ...newTask,
+      id,
+      content: Math.round(newTask.content),
+      dateISO: newTask.dateISO ?? new Date().toISOString(),
+      kind: normalizeTaskKind(newTask.kind) ?? DEFAULT_TASK_KIND,
+      ...(currency ? { currency } : {}),
+      ...cardText({ description, notes }),
+      ...(normalizeTagIds(tagIds) ? { tagIds: normalizeTagIds(tagIds) } : {}),
+    };
+  }
+
+  async function addTask(newTask: Omit<Task, "id">) {
+    const id = genId("task");
+    await commit("addTask", { [`tasks/${id}`]: taskRecord(newTask, id) });
+    return id;
+  }
+
+  // several cards in one write (e.g. a series of projections), undone together
+  async function addTasks(newTasks: Omit<Task, "id">[]) {
+    const updates: TreeUpdates = {};
+    const ids = newTasks.map((newTask) => {
+      const id = genId("task");
+      updates[`tasks/${id}`] = taskRecord(newTask, id);
+      return id;
+    });
+    await commit("addTasks", updates);
+    return ids;
+  }
+
+  async function removeTask(id: string) {
+    const task = await backend.read(`tasks/${id}`);
+    await commit("removeTask", {
+      [`tasks/${id}`]: null,
+      ...(task ? trashUpdates({ kind: "task", record: task as Task }) : {}),
+    });
+  }
+
+  async function editTask(id: string, payload: Partial<Task>) {
+    const updates: TreeUpdates = {};
+    Object.entries(payload).forEach(([key, value]) => {
+      if (value === undefined) return;
+      const path = `tasks/${id}/${key}`;
+      if (key === "content") {
+        updates[path] = Math.round(Number(value));
+      } else if (key === "description" || key === "notes") {
+        // an emptied description or note is removed rather than stored as ""
+        updates[path] = typeof value === "string" ? value.trim() || null : null;
+      } else if (key === "tagIds") {
+        updates[path] = normalizeTagIds(value) ?? null;
+      } else {
+        updates[path] = value;
+      }
+    });
+    await commit("editTask", updates);
+  }
+
+  async function moveTask(id: string, columnId: string, { currency, order }: { currency?: string; order?: UniqueIdentifier[] } = {}) {
+    await commit("moveTask", {
+      [`tasks/${id}/columnId`]: columnId,
+      ...(currency ? { [`tasks/${id}/currency`]: currency } : {}),
+      ...(order ? { [`tasksOrder/${columnId}`]: order.map(String), [`columns/${columnId}/sortMode`]: "manual" } : {}),
+    });
+  }
+
+  // transfer: decrease source content (deleting it at zero), then create the destination card.
+  // Only the source card is locked, with a transaction on tasks/{sourceId}, so two devices can
+  // never spend the same balance twice while edits to other cards go through. The new card and
+  // the log entry follow in one multi-path update, retried a few times; if it never lands, the
+  // source is put back so no money goes missing.
+  async function transferTask(
+    sourceId: string,
+    amount: Money,
+    targetColumnId: string,
+    dateISO?: string | null,
+    expectedContent?: Money
+  ) {
+    if (!Number.isInteger(amount) || amount <= 0) {
+      throw new TransferError("invalid-amount", t("transfer.error.invalidAmount"));
+    }
+
+    const newId = genId("task");
+    const sourcePath = `tasks/${sourceId}`;
+    // a card without a currency of its own is in its column's; the new card has to say which one that was
+    const sourceColumnId = await backend.read(`${sourcePath}/columnId`);
+    const columnCurrency = sourceColumnId ? await backend.read(`columns/${sourceColumnId}/currency`) : null;
+    const attempt: { failure: TransferError | null; source: Task | null; remaining: Task | null } = {
+      failure: null,
+      source: null,
+      remaining: null,
+    };
+
+    const result = await backend.transaction<Task>(sourcePath, (source) => {
+      attempt.failure = null;
+
+      if (!source) {
+        attempt.failure = new TransferError("source-missing", t("transfer.error.sourceMissing"));
+        // a null node may just mean nothing is cached yet: let the server answer before giving up
+        return source === null ? null : undefined;
+      }
+
+      const content = Math.round(Number(source.content)) || 0;
+      if (expectedContent !== undefined && content !== expectedContent) {
+        attempt.failure = new TransferError("source-changed", t("transfer.error.sourceChanged"));
+        return undefined;
+      }
+      if (amount > content) {
+        attempt.failure = new TransferError("insufficient-funds", t("transfer.error.insufficientFunds"));
+        return undefined;
+      }
+
+      const remaining = content - amount;
+      attempt.source = source;
+      attempt.remaining = remaining <= 0 ? null : { ...source, content: remaining };
+      return attempt.remaining;
+    });
+
+    if (attempt.failure) throw attempt.failure;
+    if (!result.committed || !attempt.source) {
+      throw new TransferError("source-changed", t("transfer.error.retry"));
+    }
+
+    const source = attempt.source;
+    const created: Task = {
+      id: newId,
+      columnId: targetColumnId,
+      content: amount,
+      dateISO: dateISO ?? new Date().toISOString(),
+      kind: normalizeTask(source).kind,
+      currency: normalizeCurrencyCode(source.currency) ?? normalizeCurrencyCode(columnCurrency) ?? DEFAULT_CURRENCY,
+      // the split-off part is still the same money, so it keeps the source's description, notes and tags
+      ...cardText(source),
+      ...(normalizeTagIds(source.tagIds) ? { tagIds: normalizeTagIds(source.tagIds) } : {}),
+    };
+    const updates: TreeUpdates = {
+      [`tasks/${newId}`]: created,
+      ...(log
+        ? await log.entry("transferTask", [
+          { path: sourcePath, before: source, after: attempt.remaining },
+          { path: `tasks/${newId}`, before: null, after: created },
+        ])
+        : {}),
+    };
+
+    for (let tries = 1; ; tries++) {
+      try {
+        await backend.update(updates);
+        break;
+      } catch (err) {
+        console.warn("Could not write the transferred card:", err);
+        if (tries < TRANSFER_WRITE_TRIES) {
+          await new Promise((resolve) => setTimeout(resolve, tries * 500));
+          continue;
+        }
+
+        // undo the debit unless the source changed again since; the error then goes up as is,
+        // like any failed write, so the caller can retry the whole transfer
+        const restored = await backend
+          .transaction<Task>(sourcePath, (current) => (sameValue(current, attempt.remaining) ? source : undefined))
+          .catch(() => null);
+        if (restored?.committed) throw err;
+        throw new TransferError("incomplete", t("transfer.error.incomplete"));
+      }
+    }
+    log?.committed(updates);
+    return newId;
+  }
+
+  // writes back one side of logged changes: `before` to undo, `after` to redo. Refuses when any
+  // of the records was changed again since, so an undo never overwrites someone else's edit
+  async function revert(changes: ActivityChange[], direction: "undo" | "redo") {
+    const expected = await Promise.all(changes.map((change) => backend.read(change.path)));
+    const stale = changes.some((change, i) =>
+      !sameValue(expected[i], direction === "undo" ? change.after : change.before)
+    );
+    if (stale) {
+      throw new UndoError(t(direction === "undo" ? "board.undoStale" : "board.redoStale"));
+    }
+
+    const updates: TreeUpdates = {};
+    changes.forEach((change) => {
+      updates[change.path] = (direction === "undo" ? change.before : change.after) ?? null;
+    });
+    await commit(direction, updates);
+  }
+
+  // Places
+  async function addPlace(place: Omit<Place, "id"> & { id?: string }) {
+    const id = place.id ?? genId("place");
+    const updates: TreeUpdates = {
+      [`places/${id}`]: placeRecord({ ...place, id }),
+    };
+
+    const arr = normalizeOrder(await backend.read("placesOrder"));
+    if (!arr.includes(id)) {
+      arr.push(id);
+      updates["placesOrder"] = arr;
+    }
+
+    await commit("addPlace", updates);
+    return id;
+  }
+
+  async function editPlace(
+    id: string,
+    payload: Partial<{ name: string; color: string; expectedValue: Money | null; dateTimeISO: string | null }>
+  ) {
+    const updates: TreeUpdates = {};
+    Object.entries(payload).forEach(([key, value]) => {
+      updates[`places/${id}/${key}`] = value ?? null;
+    });
+    await commit("editPlace", updates);
+  }
+
+  // clears the place from every column in the same write, so no column is left pointing at it;
+  // the trash entry remembers those columns to link them again on restore
+  async function removePlace(id: string) {
+    const [place, columnsVal, orderVal] = await Promise.all([
+      backend.read(`places/${id}`),
+      backend.read("columns"),
+      backend.read("placesOrder"),
+    ]);
+    const arr = normalizeOrder(orderVal);
+    const updates: TreeUpdates = {
+      [`places/${id}`]: null,
+      placesOrder: arr.filter((x) => x !== id),
+    };
+
+    const columnIds: string[] = [];
+    Object.entries((columnsVal as Record<string, Column>) || {}).forEach(([columnId, column]) => {
+      if (column && column.placeId === id) {
+        columnIds.push(columnId);
+        updates[`columns/${columnId}/placeId`] = null;
+      }
+    });
+
+    if (place) {
+      Object.assign(updates, trashUpdates({ kind: "place", record: place as Place, position: arr.indexOf(id), columnIds }));
+    }
+
+    await commit("removePlace", updates);
+  }
+
+  // Tags
+  async function addTag(tag: Omit<Tag, "id">) {
+    const id = genId("tag");
+    await commit("addTag", { [`tags/${id}`]: { ...normalizeTag(tag), id } });
+    return id;
+  }
+
+  async function editTag(id: string, payload: Partial<Omit<Tag, "id">>) {
+    const updates: TreeUpdates = {};
+    Object.entries(payload).forEach(([key, value]) => {
+      if (value !== undefined) updates[`tags/${id}/${key}`] = key === "name" ? String(value).trim() : value;
+    });
+    await commit("editTag", updates);
+  }
+
+  // cards lose the tag in the same write; undo puts both back
+  async function removeTag(id: string) {
+    const tasksVal = await backend.read("tasks");
+    const updates: TreeUpdates = { [`tags/${id}`]: null };
+    Object.entries((tasksVal as Record<string, Task>) || {}).forEach(([taskId, task]) => {
+      const tagIds = normalizeTagIds(task?.tagIds);
+      if (tagIds?.includes(id)) updates[`tasks/${taskId}/tagIds`] = normalizeTagIds(tagIds.filter((x) => x !== id)) ?? null;
+    });
+    await commit("removeTag", updates);
+  }
+
+  // Schedules
+
+  // the cards a schedule still owes up to today (or its horizon) and the last date they reach. Card
+  // ids come from the schedule and the date, so two devices running it at once write the same card
+  function scheduleRun(schedule: Schedule, column: Column | null, today: string) {
+    const cards: TreeUpdates = {};
+    if (schedule.paused || schedule.amount <= 0 || !column) return { cards, lastDate: null };
+
+    const dates = pendingOccurrences(schedule, runUntil(schedule, today));
+    dates.forEach((date) => {
+      const id = `task-${schedule.id}-${date}`;
+      cards[`tasks/${id}`] = taskRecord(
+        {
+          columnId: schedule.columnId,
+          content: schedule.amount,
+          dateISO: occurrenceISO(date),
+          kind: schedule.kind,
+          currency: normalizeCurrencyCode(column.currency) ?? DEFAULT_CURRENCY,
+          description: schedule.description,
+        },
+        id
+      );
+    });
+    return { cards, lastDate: dates.length > 0 ? dates[dates.length - 1] : null };
+  }
+
+  async function addSchedule(input: ScheduleInput) {
+    const id = genId("schedule");
+    const schedule = normalizeSchedule({ ...input, id, lastDate: null });
+    const column = (await backend.read(`columns/${schedule.columnId}`)) as Column | null;
+    const run = scheduleRun(schedule, column, toDateKey(new Date()));
+    await commit("addSchedule", { ...run.cards, [`schedules/${id}`]: { ...schedule, lastDate: run.lastDate } });
+    return id;
+  }
+
+  // later dates follow the edit; cards already made keep what they had
+  async function editSchedule(id: string, payload: Partial<ScheduleInput>) {
+    const current = await backend.read(`schedules/${id}`);
+    if (!current) return;
+    const before = normalizeSchedule({ ...(current as object), id });
+    const next = normalizeSchedule({ ...before, ...payload, id });
+    const today = toDateKey(new Date());
+
+    // a resumed schedule carries on from today instead of catching up on the paused dates
+    const yesterday = addDays(today, -1);
+    if (before.paused && !next.paused && (!next.lastDate || next.lastDate < yesterday)) next.lastDate = yesterday;
+
+    const column = (await backend.read(`columns/${next.columnId}`)) as Column | null;
+    const run = scheduleRun(next, column, today);
+    await commit("editSchedule", { ...run.cards, [`schedules/${id}`]: { ...next, lastDate: run.lastDate ?? next.lastDate } });
+  }
+
+  async function removeSchedule(id: string) {
+    await commit("removeSchedule", { [`schedules/${id}`]: null });
+  }
+
+  async function runSchedules() {
+    const [schedulesVal, columnsVal] = await Promise.all([backend.read("schedules"), backend.read("columns")]);
+    const columns = (columnsVal as Record<string, Column>) || {};
+    const today = toDateKey(new Date());
+    const updates: TreeUpdates = {};
+
+    Object.entries((schedulesVal as Record<string, object>) || {}).forEach(([id, raw]) => {
+      const schedule = normalizeSchedule({ ...raw, id });
+      // schedules go to the trash with their column, so a missing one only means a write in between
+      const run = scheduleRun(schedule, columns[schedule.columnId] ?? null, today);
+      if (run.lastDate) Object.assign(updates, run.cards, { [`schedules/${id}/lastDate`]: run.lastDate });
+    });
+
+    if (Object.keys(updates).length > 0) await commit("runSchedules", updates);
+  }
+
+  // Trash
+
+  function trashUpdates(entry: Omit<TrashEntry, "id" | "deletedAt">): TreeUpdates {
+    const id = genId("trash");
+    return { [`trash/${id}`]: { ...entry, id, deletedAt: new Date().toISOString() } };
+  }
+
+  function insertAt(order: string[], id: string, position: number | undefined) {
+    const rest = order.filter((x) => x !== id);
+    const at = position === undefined || position < 0 ? rest.length : Math.min(position, rest.length);
+    rest.splice(at, 0, id);
+    return rest;
+  }
+
+  // puts a trash entry back where it was; a column comes back with its cards and position
+  async function restoreFromTrash(trashId: string) {
+    const entry = (await backend.read(`trash/${trashId}`)) as TrashEntry | null;
+    if (!entry?.record) throw new TrashError(t("trash.error.missing"));
+
+    const id = String(entry.record.id);
+    const updates: TreeUpdates = { [`trash/${trashId}`]: null };
+
+    if (entry.kind === "task") {
+      const task = entry.record as Task;
+      if (!(await backend.read(`columns/${task.columnId}`))) {
+        throw new TrashError(t("trash.error.columnMissing"));
+      }
+      updates[`tasks/${id}`] = task;
+    }
+
+    if (entry.kind === "column") {
+      const column = entry.record as Column;
+      const [orderVal, placeExists] = await Promise.all([
+        backend.read("columnsOrder"),
+        column.placeId ? backend.read(`places/${column.placeId}`) : null,
+      ]);
+      // the place may have been deleted in the meantime
+      updates[`columns/${id}`] = placeExists ? column : { ...column, placeId: null };
+      updates.columnsOrder = insertAt(normalizeOrder(orderVal), id, entry.position);
+      Object.entries(entry.tasks ?? {}).forEach(([taskId, task]) => {
+        updates[`tasks/${taskId}`] = task;
+      });
+      const tasksOrder = normalizeOrder(entry.tasksOrder);
+      if (tasksOrder.length > 0) updates[`tasksOrder/${id}`] = tasksOrder;
+      // they catch up on the dates that passed in the trash the next time schedules run
+      Object.entries(entry.schedules ?? {}).forEach(([scheduleId, schedule]) => {
+        updates[`schedules/${scheduleId}`] = schedule;
+      });
+    }
+
+    if (entry.kind === "place") {
+      const [orderVal, columnsVal] = await Promise.all([backend.read("placesOrder"), backend.read("columns")]);
+      const columns = (columnsVal as Record<string, Column>) || {};
+      updates[`places/${id}`] = entry.record;
+      updates.placesOrder = insertAt(normalizeOrder(orderVal), id, entry.position);
+      // only columns that still exist and were not linked to another place meanwhile
+      normalizeOrder(entry.columnIds).forEach((columnId) => {
+        if (columns[columnId] && !columns[columnId].placeId) updates[`columns/${columnId}/placeId`] = id;
+      });
+    }
+
+    await commit("restoreFromTrash", updates);
+  }
+
+  async function purgeTrash(trashIds: string[]) {
+    if (trashIds.length === 0) return;
+    const updates: TreeUpdates = {};
+    trashIds.forEach((id) => {
+      updates[`trash/${id}`] = null;
+    });
+    await commit("purgeTrash", updates);
+  }
+
+  async function editSettings(payload: Partial<BoardSettings>) {
+    const updates: TreeUpdates = {};
+    Object.entries(payload).forEach(([key, value]) => {
+      updates[`settings/${key}`] = value ?? null;
+    });
+    await commit("editSettings", updates);
+  }
+
+  async function editCurrency(settings: CurrencySettings) {
+    await commit("editCurrency", { currency: normalizeCurrencySettings(settings) });
+  }
+
+  async function importData(updates: TreeUpdates) {
+    await commit("importBackup", updates);
+  }
+
+  async function repair(updates: TreeUpdates) {
+    await commit("repair", updates);
+  }
+
+  async function reorderPlaces(newOrder: UniqueIdentifier[]) {
+    await commit("reorderPlaces", { placesOrder: newOrder.map(String) });
+  }
+
+  // replaces all places at once
+  async function upsertPlaces(places: Place[]) {
+    const updates: TreeUpdates = {};
+    places.forEach((place) => {
+      updates[`places/${place.id}`] = placeRecord(place);
+    });
+
+    await commit("upsertPlaces", {
+      ...updates,
+      placesOrder: places.map((p) => p.id),
+    });
+  }
+
+  return {
+    subscribeAll,
+    addColumn,
+    editColumn,
+    removeColumn,
+    updateColumnsOrder,
+    updateTasksOrder,
+    addTask,
+    addTasks,
+    editTask,
+    moveTask,
+    removeTask,
+    transferTask,
+    addPlace,
+    editPlace,
+    removePlace,
+    reorderPlaces,
+    upsertPlaces,
+    addTag,
+    editTag,
+    removeTag,
+    addSchedule,
+    editSchedule,
+    removeSchedule,
+    runSchedules,
+    restoreFromTrash,
+    purgeTrash,
+    editSettings,
+    editCurrency,
+    importData,
+    repair,
+    revert,
+  };
+}
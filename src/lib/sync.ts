@@ -0,0 +1,69 @@
+// src/lib/sync.ts
+import type { LocalStore, QueuedWrite } from "./idbStorage";
+import { sameValue, type TreeBackend, type TreeUpdates } from "./storage";
+import { runMigrations } from "./migrations";
+
+const REMOTE_TIMEOUT_MS = 10000;
+
+// a queued write whose paths were changed on the server after we went offline
+export type SyncConflict = {
+  write: QueuedWrite;
+  paths: string[];
+  server: TreeUpdates;
+};
+
+// the RTDB keeps waiting instead of failing while offline
+function withTimeout<T>(promise: Promise<T>, ms = REMOTE_TIMEOUT_MS) {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error("Firebase did not answer in time")), ms);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (err) => {
+        clearTimeout(timer);
+        reject(err);
+      }
+    );
+  });
+}
+
+// pushes queued writes to the server in order and stops at the first conflict,
+// so later writes never land on top of an unresolved one
+export async function replayQueue(local: LocalStore, remote: TreeBackend): Promise<SyncConflict | null> {
+  const queued = await local.pendingWrites();
+  // queued writes use the current schema, so the server has to be upgraded before they land
+  if (queued.length > 0) await withTimeout(runMigrations(remote));
+
+  for (const write of queued) {
+    const server: TreeUpdates = {};
+    for (const path of Object.keys(write.updates)) {
+      server[path] = await withTimeout(remote.read(path));
+    }
+
+    // a path is only in conflict if the server moved away from our base to something other than our result
+    const paths = Object.keys(write.updates).filter(
+      (path) => !sameValue(server[path], write.base[path]) && !sameValue(server[path], write.updates[path])
+    );
+
+    if (paths.length > 0) return { write, paths, server };
+
+    await withTimeout(remote.update(write.updates));
+    await local.dropWrite(write.seq);
+  }
+
+  return null;
+}
+
+export async function resolveConflict(
+  local: LocalStore,
+  remote: TreeBackend,
+  conflict: SyncConflict,
+  keep: "local" | "server"
+) {
+  if (keep === "local") {
+    await withTimeout(remote.update(conflict.write.updates));
+  }
+  await local.dropWrite(conflict.write.seq);
+}
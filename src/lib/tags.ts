@@ -0,0 +1,29 @@
+// src/lib/tags.ts
+import { foldText } from "./search";
+import type { Tag } from "./storage";
+
+type TaggedTask = { tagIds?: string[] | null };
+
+// a card passes the tag filter when it carries any of the picked tags; no tags picked lets every card through
+export function taskMatchesTags(task: TaggedTask, tagIds: string[]) {
+  return tagIds.length === 0 || (task.tagIds ?? []).some((id) => tagIds.includes(id));
+}
+
+// the card's tags in the board's (name) order; ids of deleted tags are skipped
+export function tagsOf(task: TaggedTask, tags: Tag[]) {
+  const ids = task.tagIds ?? [];
+  return tags.filter((tag) => ids.includes(tag.id));
+}
+
+export function findTagByName(tags: Tag[], name: string) {
+  const folded = foldText(name.trim());
+  return tags.find((tag) => foldText(tag.name) === folded);
+}
+
+// tags whose name contains the query, accents and case aside, those starting with it first
+export function suggestTags(tags: Tag[], query: string, exclude: string[] = []) {
+  const folded = foldText(query.trim());
+  return tags
+    .filter((tag) => !exclude.includes(tag.id) && foldText(tag.name).includes(folded))
+    .sort((a, b) => Number(!foldText(a.name).startsWith(folded)) - Number(!foldText(b.name).startsWith(folded)));
+}
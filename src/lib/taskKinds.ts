@@ -0,0 +1,32 @@
+// src/lib/taskKinds.ts
+import { DEFAULT_TASK_KIND, type TaskKind } from "./storage";
+import type { MessageKey } from "./i18n";
+import type { Money } from "./money";
+
+type KindedTask = { content: Money; kind?: TaskKind };
+
+// catalog keys; badges, pickers and the CSV export run them through t()
+export const TASK_KIND_LABELS: Record<TaskKind, MessageKey> = {
+  deposit: "kind.deposit",
+  yield: "kind.yield",
+  withdrawal: "kind.withdrawal",
+  fee: "kind.fee",
+  projection: "kind.projection",
+};
+
+export function taskKind(task: { kind?: TaskKind }): TaskKind {
+  return task.kind ?? DEFAULT_TASK_KIND;
+}
+
+export function isProjection(task: { kind?: TaskKind }) {
+  return taskKind(task) === "projection";
+}
+
+// withdrawals and fees take money out of a column; every other kind adds to it
+export function kindSign(kind: TaskKind) {
+  return kind === "withdrawal" || kind === "fee" ? -1 : 1;
+}
+
+export function signedAmount(task: KindedTask): Money {
+  return task.content === 0 ? 0 : kindSign(taskKind(task)) * task.content;
+}
@@ -0,0 +1,54 @@
+// src/lib/trash.ts
+import {
+  DEFAULT_SETTINGS,
+  type BoardSettings,
+  type StorageAdapter,
+  type TrashEntry,
+  type TreeBackend,
+} from "./storage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TRASH_KINDS: TrashEntry["kind"][] = ["column", "task", "place"];
+
+export function normalizeSettings(raw: unknown): BoardSettings {
+  const value = (raw && typeof raw === "object" ? raw : {}) as Partial<Record<keyof BoardSettings, unknown>>;
+  const days = Number(value.trashRetentionDays);
+  return {
+    trashRetentionDays: Number.isInteger(days) && days > 0 ? days : DEFAULT_SETTINGS.trashRetentionDays,
+  };
+}
+
+// drops entries that are not recognizable instead of failing the whole list
+function normalizeTrash(raw: unknown): TrashEntry[] {
+  if (!raw || typeof raw !== "object") return [];
+  return Object.entries(raw as Record<string, Partial<TrashEntry>>)
+    .filter(([, entry]) => entry?.record && TRASH_KINDS.includes(entry.kind as TrashEntry["kind"]))
+    .map(([id, entry]) => ({ ...(entry as TrashEntry), id, deletedAt: String(entry.deletedAt ?? "") }));
+}
+
+// newest first
+export function subscribeTrash(backend: TreeBackend, cb: (entries: TrashEntry[]) => void, onError?: (err: Error) => void) {
+  return backend.subscribe(
+    "trash",
+    (val) => cb(normalizeTrash(val).sort((a, b) => b.deletedAt.localeCompare(a.deletedAt))),
+    onError
+  );
+}
+
+export function subscribeSettings(backend: TreeBackend, cb: (settings: BoardSettings) => void, onError?: (err: Error) => void) {
+  return backend.subscribe("settings", (val) => cb(normalizeSettings(val)), onError);
+}
+
+export function expiredTrashIds(entries: TrashEntry[], retentionDays: number, now = Date.now()) {
+  const cutoff = now - retentionDays * DAY_MS;
+  return entries.filter((e) => new Date(e.deletedAt).getTime() < cutoff).map((e) => e.id);
+}
+
+// removes what has been in the trash longer than the board's retention; runs when a board opens
+export async function purgeExpiredTrash(backend: TreeBackend, storage: StorageAdapter, now = Date.now()) {
+  const [trash, settings] = await Promise.all([backend.read("trash"), backend.read("settings")]);
+  const expired = expiredTrashIds(normalizeTrash(trash), normalizeSettings(settings).trashRetentionDays, now);
+  await storage.purgeTrash(expired);
+  return expired.length;
+}
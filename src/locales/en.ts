@@ -0,0 +1,533 @@
+// src/locales/en.ts
+import type { Messages } from "./pt-BR";
+
+export const en: Messages = {
+  "common.cancel": "Cancel",
+  "common.save": "Save",
+  "common.update": "Update",
+  "common.close": "Close",
+  "common.edit": "Edit",
+  "common.delete": "Delete",
+  "common.remove": "Remove",
+  "common.loading": "Loading…",
+  "common.import": "Import",
+  "file.unreadable": "The file could not be read.",
+  "count.columns": {
+    one: "{count} list",
+    other: "{count} lists",
+  },
+  "count.cards": {
+    one: "{count} card",
+    other: "{count} cards",
+  },
+  "count.places": {
+    one: "{count} place",
+    other: "{count} places",
+  },
+
+  "app.language": "Language",
+  "app.loadingBoards": "Loading boards…",
+
+  "board.defaultColumn.todo": "To Do",
+  "board.defaultColumn.doing": "Doing",
+  "board.defaultColumn.done": "Done",
+  "board.amountRequired": "Enter an amount greater than zero",
+  "board.transferAmountRequired": "Enter an amount greater than zero to transfer",
+  "board.transferFailed": "Transfer failed. It was saved in this browser and will be sent when the connection is back.",
+  "board.offlineTitle": "Offline mode:",
+  "board.offlineSaved": "Firebase can't be reached. Your data is saved in this browser.",
+  "board.offlineQueued": {
+    one: "Firebase can't be reached. Your data is saved in this browser and {count} change is waiting to sync.",
+    other: "Firebase can't be reached. Your data is saved in this browser and {count} changes are waiting to sync.",
+  },
+  "board.syncing": "Syncing...",
+  "board.syncNow": "Sync now",
+  "board.total": "Total: {amount}",
+  "board.undo": "Undo",
+  "board.undoHint": "Undo (Ctrl+Z)",
+  "board.redo": "Redo",
+  "board.redoHint": "Redo (Ctrl+Shift+Z)",
+  "board.undoStale": "Can't undo: the records were changed afterwards.",
+  "board.redoStale": "Can't redo: the records were changed afterwards.",
+  "board.addColumn": "Add investment",
+
+  "dnd.columnPickedUp": "Picked up list {title} at position {position} of {count}",
+  "dnd.cardPickedUp": "Picked up card of {amount} at position {position} of {count} in list {column}",
+  "dnd.columnMovedOver": "List {title} was moved over {over} at position {position} of {count}",
+  "dnd.cardMovedToColumn": "Card of {amount} was moved to list {column} at position {position} of {count}",
+  "dnd.cardMovedOver": "Card was moved to position {position} of {count} in list {column}",
+  "dnd.columnDropped": "List {title} was dropped at position {position} of {count}",
+  "dnd.cardDropped": "Card was dropped at position {position} of {count} in list {column}",
+  "dnd.columnCancelled": "Dragging the list was cancelled.",
+  "dnd.cardCancelled": "Dragging the card was cancelled.",
+  "dnd.columnRole": "List: {title}",
+  "dnd.cardRole": "Card",
+
+  "places.manage": "Manage places",
+  "places.none": "No places",
+  "places.subtitle": "View, add, edit, delete and reorder your places.",
+  "places.list": "Places",
+  "places.new": "New place",
+  "places.empty": "No places yet.",
+  "places.goal": "Goal: {amount}",
+  "places.noGoal": "No goal",
+  "places.dateTime": "Date/time: {date}",
+  "places.moveUp": "Move up",
+  "places.moveDown": "Move down",
+  "places.editTitle": "Edit {name}",
+  "places.createTitle": "Create a new place",
+  "places.name": "Name",
+  "places.namePlaceholder": "e.g. Cash, Savings, Wallet...",
+  "places.color": "Color",
+  "places.expected": "Expected amount ({currency})",
+  "places.expectedPlaceholder": "e.g. 1,500.00",
+  "places.dateTimeLabel": "Date and time",
+  "places.nameRequired": "Enter a name",
+  "places.expectedInvalid": "Invalid expected amount",
+  "places.confirmDelete": "Delete the place \"{name}\"? It goes to the trash.",
+
+  "currency.missingRates": "No rate for {codes}",
+  "currency.title": "Currencies and rates",
+  "currency.subtitle": "Board, list and place totals are converted to the base currency.",
+  "currency.base": "Base currency",
+  "currency.noRates": "No rates yet.",
+  "currency.code": "Currency",
+  "currency.rateIn": "Rate in {code}",
+  "currency.addRate": "Add rate",
+  "currency.importCsv": "Import from CSV (one line per currency: code and value in {code}, e.g. USD,5.20)",
+  "currency.invalidCode": "\"{code}\" is not a currency code (e.g. USD).",
+  "currency.invalidRate": "Enter a rate greater than zero for {code}.",
+  "currency.baseWithoutRate": "Add a rate for {code} before using it as the base currency.",
+  "currency.csvLineSkipped": "Line {line} skipped: \"{text}\"",
+
+  "sort.manual": "Manual",
+  "sort.dateDesc": "Newest first",
+  "sort.dateAsc": "Oldest first",
+  "sort.amountDesc": "Largest amount",
+
+  "column.place": "Assign a place to the list",
+  "column.noPlace": "No place",
+  "column.currency": "List currency",
+  "column.currencyHint": "Currency of the list's new cards",
+  "column.sort": "Sort cards",
+  "column.remove": "Remove list",
+  "column.confirmDelete": "Delete the list \"{title}\"? It goes to the trash along with its cards.",
+
+  "card.addTitle": "Add card",
+  "card.editTitle": "Edit card",
+  "card.add": "Add",
+  "card.amount": "Amount",
+  "card.amountPlaceholder": "e.g. 500 or 500.00 or 1,234.56",
+  "card.invalidAmount": "Invalid amount",
+  "card.dateTime": "Date and time",
+  "card.type": "Type",
+  "card.description": "Description",
+  "card.descriptionPlaceholder": "E.g. year-end bonus",
+  "card.notes": "Notes",
+  "card.useOriginalDate": "Use original date",
+  "card.useCurrentDate": "Use current date",
+  "card.toDeposit": "Confirm as deposit",
+  "card.toDepositLabel": "Confirm projection {amount} as a deposit",
+  "card.remove": "Remove card",
+  "card.removeLabel": "Remove card {amount}",
+  "card.move": "Move card",
+  "card.confirmDelete": "Delete the card \"{amount}\"? It goes to the trash.",
+
+  "kind.deposit": "Deposit",
+  "kind.yield": "Yield",
+  "kind.withdrawal": "Withdrawal",
+  "kind.fee": "Fee",
+  "kind.projection": "Projection",
+  "tag.label": "Tags",
+  "tag.pickerPlaceholder": "Search or create a tag",
+  "tag.create": "Create tag \"{name}\"",
+  "tag.removeFromCard": "Remove tag {name}",
+  "tag.manage": "Manage tags",
+  "tag.subtitle": "Tags mark where money came from, such as a bonus or dividends. Totals add up the balance across all lists.",
+  "tag.empty": "No tags yet.",
+  "tag.none": "No tags",
+  "tag.name": "Tag name",
+  "tag.namePlaceholder": "e.g. Bonus",
+  "tag.color": "Tag color",
+  "tag.add": "Add",
+  "tag.exists": "There is already a tag \"{name}\".",
+  "tag.confirmDelete": "Delete the tag \"{name}\"? It comes off every card.",
+  "tag.clearFilter": "Clear filter",
+  "filter.search": "Search cards",
+  "filter.searchPlaceholder": "Search…",
+  "filter.open": "Filters",
+  "filter.clear": "Clear filters",
+  "filter.minAmount": "Minimum amount ({currency})",
+  "filter.maxAmount": "Maximum amount ({currency})",
+  "filter.from": "From",
+  "filter.to": "To",
+  "filter.scope": "Cards",
+  "filter.scope.all": "All",
+  "filter.scope.balance": "Balance only",
+  "filter.scope.projection": "Projections only",
+  "filter.place": "Place",
+  "filter.anyPlace": "Any place",
+  "filter.hide": "Hide cards that don't match",
+  "filter.amountHint": "Amounts are in {currency}, the base currency; each card is converted with the rates in Currencies and rates, and cards in a currency without a rate are left out.",
+  "filter.matched": "{count} of {total} cards",
+  "filter.columnMatched": "Filtered: {count} of {total}",
+  "schedule.open": "Recurring contributions",
+  "schedule.title": "Recurring contributions to \"{title}\"",
+  "schedule.subtitle": "Amounts that come in on the same dates every time. Cards are added when their date comes; projections are laid out 12 months ahead.",
+  "schedule.empty": "No recurring contributions in this list.",
+  "schedule.newTitle": "New recurring contribution",
+  "schedule.editTitle": "Edit recurring contribution",
+  "schedule.add": "Add",
+  "schedule.amount": "Amount",
+  "schedule.frequency": "Frequency",
+  "schedule.frequency.weekly": "Weekly",
+  "schedule.frequency.monthly": "Monthly",
+  "schedule.frequency.yearly": "Yearly",
+  "schedule.start": "First date",
+  "schedule.end": "Last date (optional)",
+  "schedule.kind": "Type",
+  "schedule.description": "Description",
+  "schedule.descriptionPlaceholder": "e.g. Salary contribution",
+  "schedule.balanceHint": "Dates since the first one that have already passed get their cards too.",
+  "schedule.projectionHint": "Projections for the next 12 months are created now and topped up each time the board opens.",
+  "schedule.since": "Since {start}",
+  "schedule.range": "From {start} to {end}",
+  "schedule.next": "Next: {date}",
+  "schedule.ended": "Ended",
+  "schedule.paused": "Paused",
+  "schedule.pause": "Pause",
+  "schedule.resume": "Resume",
+  "schedule.confirmDelete": "Delete this recurring contribution? The cards it already added stay on the board.",
+  "schedule.amountRequired": "Enter an amount greater than zero.",
+  "schedule.startRequired": "Choose the first date.",
+  "schedule.endBeforeStart": "The last date must be the same as or after the first one.",
+
+  "goal.set": "Set goal",
+  "goal.edit": "Edit goal",
+  "goal.amount": "Goal amount",
+  "goal.placeholder": "e.g. 600 or 600.00 or 1,000.00",
+  "goal.clearHint": "Leave empty to remove the goal.",
+
+  "delete.title": "Confirm deletion",
+  "delete.confirm": "Confirm",
+
+  "projection.create": "Create projection",
+  "projection.total": "Projection total",
+  "projection.totalPlaceholder": "e.g. 2,000.00",
+  "projection.useExisting": "Count the balance already in the investment",
+  "projection.currentBalance": "Current list balance: {amount}",
+  "projection.end": "End month",
+  "projection.monthPlaceholder": "MM",
+  "projection.yearPlaceholder": "YYYY",
+  "projection.customStart": "Choose a start month (optional)",
+  "projection.day": "Day of the month for the installments",
+  "projection.preview": "Installment preview",
+  "projection.alreadyReached": "The current balance already reaches or exceeds the amount entered.",
+  "projection.installments": "Number of installments: {count}",
+  "projection.times": "{count} × {amount}",
+  "projection.round": "Round up",
+  "projection.balanceExceeds": "The current balance already exceeds the total entered.",
+  "projection.balanceCovers": "The current balance already covers or exceeds the total entered.",
+  "projection.endRequired": "Choose a valid end month",
+  "projection.endBeforeStart": "The end month must be the same as or after the start month.",
+
+  "transfer.title": "Transfer amount",
+  "transfer.currentColumn": "Current list:",
+  "transfer.available": "Available:",
+  "transfer.target": "Target list",
+  "transfer.otherCurrency": "The target list uses {target}; the new card stays in {currency}.",
+  "transfer.amount": "Amount to transfer",
+  "transfer.overAvailable": "Amount is more than what is available",
+  "transfer.confirm": "Transfer",
+  "transfer.error.invalidAmount": "Enter an amount greater than zero to transfer.",
+  "transfer.error.sourceMissing": "The source card no longer exists.",
+  "transfer.error.sourceChanged": "The source card was changed elsewhere. Check the balance and try again.",
+  "transfer.error.insufficientFunds": "The amount is more than the card holds.",
+  "transfer.error.retry": "The transfer couldn't be completed. Try again.",
+  "transfer.error.incomplete": "The amount was taken from the card, but the new card couldn't be saved. Check both lists before trying again.",
+
+  "activity.op.addColumn": "List created",
+  "activity.op.editColumn": "List edited",
+  "activity.op.removeColumn": "List deleted",
+  "activity.op.updateColumnsOrder": "Lists reordered",
+  "activity.op.updateTasksOrder": "Cards reordered",
+  "activity.op.addTask": "Card created",
+  "activity.op.addTasks": "Cards created",
+  "activity.op.editTask": "Card edited",
+  "activity.op.moveTask": "Card moved",
+  "activity.op.removeTask": "Card deleted",
+  "activity.op.transferTask": "Transfer",
+  "activity.op.addPlace": "Place created",
+  "activity.op.editPlace": "Place edited",
+  "activity.op.removePlace": "Place deleted",
+  "activity.op.reorderPlaces": "Places reordered",
+  "activity.op.upsertPlaces": "Places saved",
+  "activity.op.addTag": "Tag created",
+  "activity.op.editTag": "Tag edited",
+  "activity.op.removeTag": "Tag deleted",
+  "activity.op.addSchedule": "Schedule created",
+  "activity.op.editSchedule": "Schedule edited",
+  "activity.op.removeSchedule": "Schedule deleted",
+  "activity.op.runSchedules": "Scheduled cards added",
+  "activity.op.restoreFromTrash": "Restored from the trash",
+  "activity.op.purgeTrash": "Trash emptied",
+  "activity.op.editSettings": "Settings changed",
+  "activity.op.editCurrency": "Currencies and rates changed",
+  "activity.op.importBackup": "Backup imported",
+  "activity.op.repair": "Inconsistency repaired",
+  "activity.op.undo": "Undone",
+  "activity.op.redo": "Redone",
+
+  "data.menu": "Board data",
+  "data.activity": "Activity history…",
+  "data.trash": "Trash…",
+  "data.currency": "Currencies and rates…",
+  "data.integrity": "Check integrity…",
+  "data.migrations": "Data schema version…",
+  "data.exportBackup": "Export backup (JSON)",
+  "data.importBackup": "Import backup…",
+  "data.exportCsv": "Export cards (CSV)…",
+  "data.importStatement": "Import bank statement…",
+
+  "activity.title": "Activity history",
+  "activity.subtitle": "Every change to the board, with the amount before and after.",
+  "activity.allColumns": "All lists",
+  "activity.allPlaces": "All places",
+  "activity.from": "From",
+  "activity.to": "To",
+  "activity.empty": "No activity found.",
+  "activity.more": "… and {count} more. Use the filters to see older activity.",
+  "activity.unknownActor": "unknown",
+  "activity.change.cardAdded": "{where}: new card of {amount}",
+  "activity.change.cardRemoved": "{where}: card of {amount} removed",
+  "activity.change.column": "List \"{title}\"",
+  "activity.change.place": "Place \"{name}\"",
+  "activity.change.cardOrder": "Card order of \"{title}\"",
+  "activity.change.trashed": "Moved to the trash",
+  "activity.change.untrashed": "Taken out of the trash",
+  "activity.change.settings": "Board settings",
+  "activity.change.currency": "Currencies and rates",
+  "activity.change.order": "Order {path}",
+
+  "connection.online": "Online",
+  "connection.offline": "Offline",
+  "persist.failed": "Couldn't save the change.",
+  "persist.queued": "Couldn't reach Firebase. The change was kept in this browser and will be sent when the connection is back.",
+  "connection.syncing": "Syncing",
+  "connection.error": "Error",
+  "connection.pending": {
+    one: "{count} write waiting for the server",
+    other: "{count} writes waiting for the server",
+  },
+  "connection.queued": {
+    one: "{count} change in the offline queue",
+    other: "{count} changes in the offline queue",
+  },
+  "connection.allSent": "Every change has reached the server",
+
+  "auth.signIn": "Sign in",
+  "auth.signUp": "Create account",
+  "auth.subtitle": "Your boards are kept in your account.",
+  "auth.email": "Email",
+  "auth.password": "Password",
+  "auth.toSignUp": "Create an account",
+  "auth.toSignIn": "I already have an account",
+  "auth.guestSignIn": "Continue as guest",
+  "auth.guest": "Guest",
+  "auth.signOut": "Sign out",
+  "auth.signOutQueued": {
+    one: "{count} change not synced yet will stay in this browser until you sign in again.",
+    other: "{count} changes not synced yet will stay in this browser until you sign in again.",
+  },
+  "auth.signOutGuest": "Guest sessions can't be recovered after signing out: this data will become inaccessible.",
+  "auth.signOutConfirm": "Sign out anyway?",
+  "auth.error.invalidEmail": "Invalid email.",
+  "auth.error.missingPassword": "Enter your password.",
+  "auth.error.weakPassword": "The password needs at least 6 characters.",
+  "auth.error.emailInUse": "An account with this email already exists.",
+  "auth.error.wrongCredentials": "Wrong email or password.",
+  "auth.error.tooManyRequests": "Too many attempts. Wait a little and try again.",
+  "auth.error.network": "No connection to the authentication server.",
+  "auth.error.notAllowed": "This sign-in method is not enabled in the Firebase project.",
+
+  "boards.defaultName": "My board",
+  "boards.legacyName": "Earlier board",
+  "boards.active": "Active board",
+  "boards.unnamed": "Untitled",
+  "boards.actions": "Board actions",
+  "boards.new": "New board",
+  "boards.newPrompt": "Name of the new board:",
+  "boards.rename": "Rename",
+  "boards.renamePrompt": "New board name:",
+  "boards.duplicate": "Duplicate",
+  "boards.duplicatePrompt": "Name of the copy:",
+  "boards.copyName": "{name} (copy)",
+  "boards.confirmDelete": "Delete the board \"{name}\" with all its lists and cards?",
+  "boards.nameRequired": "Enter a name for the board.",
+  "boards.deleteLast": "The only board can't be deleted.",
+  "boards.createFailed": "Could not create the board.",
+  "boards.renameFailed": "Could not rename the board.",
+  "boards.duplicateFailed": "Could not duplicate the board.",
+  "boards.deleteFailed": "Could not delete the board.",
+
+  "sync.title": "Sync conflict",
+  "sync.description": "A change made offline on {date} touches data that changed on the server. Choose which version to keep.",
+  "sync.othersQueued": {
+    one: "Another change is waiting in the queue.",
+    other: "{count} more changes are waiting in the queue.",
+  },
+  "sync.yours": "Your version",
+  "sync.server": "Server version",
+  "sync.keepServer": "Keep the server version",
+  "sync.keepLocal": "Keep my version",
+  "sync.removed": "(removed)",
+
+  "trash.title": "Trash",
+  "trash.subtitle": "Deleted lists, cards and places can be restored from here.",
+  "trash.retentionBefore": "Delete permanently after",
+  "trash.retentionAfter": "days",
+  "trash.retentionInvalid": "Enter a whole number of days greater than zero.",
+  "trash.empty": "The trash is empty.",
+  "trash.column": "List \"{title}\" with {cards}",
+  "trash.place": "Place \"{name}\"",
+  "trash.card": "Card of {amount}",
+  "trash.deletedAt": "Deleted on {date}",
+  "trash.restore": "Restore",
+  "trash.confirmPurge": "Delete permanently: {item}?",
+  "trash.confirmEmpty": "Empty the trash? The items can't be restored.",
+  "trash.emptyAll": "Empty trash",
+  "trash.error.missing": "This item is no longer in the trash.",
+  "trash.error.columnMissing": "This card's list no longer exists. Restore the list before the card.",
+
+  "backup.title": "Import backup",
+  "backup.subtitle": "A JSON file made by “Export backup”.",
+  "backup.board": "Board \"{name}\"",
+  "backup.unnamed": "Backup",
+  "backup.summary": "{source}: {columns}, {cards}, {places}.",
+  "backup.summaryDated": "{source}, exported on {date}: {columns}, {cards}, {places}.",
+  "backup.warnings": "Some records were adjusted or skipped:",
+  "backup.moreWarnings": "… and {count} more.",
+  "backup.merge": "Merge into the current board",
+  "backup.replace": "Replace the current board",
+  "backup.confirmReplace": "Replace every list, card and place on the board with the backup's content?",
+  "backup.conflicts": {
+    one: "{count} record from the backup already exists on the board ({columns}, {cards}, {places}). For it:",
+    other: "{count} records from the backup already exist on the board ({columns}, {cards}, {places}). For those:",
+  },
+  "backup.policy.keepBoth": "Keep both (the imported one gets a new id)",
+  "backup.policy.keepCurrent": "Keep the board's",
+  "backup.policy.useImported": "Use the backup's",
+  "backup.error.json": "The file is not valid JSON.",
+  "backup.error.format": "The file is not a backup from this app.",
+  "backup.error.newer": "The backup was made by a newer version of the app. Reload the page and try again.",
+  "backup.warning.collection": "\"{label}\" is not a valid collection and was skipped.",
+  "backup.warning.record": "Record {path} skipped: it is not an object.",
+  "backup.warning.amount": "Card {card} skipped: invalid amount.",
+  "backup.warning.column": "Card {card} skipped: list {column} is not in the backup.",
+  "backup.warning.place": "The list \"{title}\" pointed to a place that is not in the backup; the link was removed.",
+  "backup.warning.scheduleColumn": "Schedule {schedule} skipped: list {column} is not in the backup.",
+
+  "csv.title": "Export cards (CSV)",
+  "csv.subtitle": "One row per card, with list, place, amount, currency, date and type.",
+  "csv.delimiter": "Column separator",
+  "csv.semicolon": "Semicolon (Excel in Portuguese)",
+  "csv.comma": "Comma",
+  "csv.decimal": "Decimal separator",
+  "csv.decimalComma": "Comma (1234,56)",
+  "csv.decimalDot": "Dot (1234.56)",
+  "csv.column": "List",
+  "csv.allColumns": "All",
+  "csv.place": "Place",
+  "csv.allPlaces": "All",
+  "csv.text": "Description or notes containing",
+  "csv.textPlaceholder": "E.g. bonus",
+  "csv.count": {
+    one: "{count} card will be exported.",
+    other: "{count} cards will be exported.",
+  },
+  "csv.export": "Export",
+  "csv.header.column": "List",
+  "csv.header.place": "Place",
+  "csv.header.amount": "Amount",
+  "csv.header.currency": "Currency",
+  "csv.header.dateIso": "Date (ISO)",
+  "csv.header.dateLocal": "Date (local)",
+  "csv.header.type": "Type",
+  "csv.header.description": "Description",
+  "csv.header.notes": "Notes",
+  "csv.header.tags": "Tags",
+
+  "integrity.title": "Data integrity",
+  "integrity.subtitle": "Broken references and orphan records found on the board.",
+  "integrity.scanning": "Checking…",
+  "integrity.clean": "No problems found.",
+  "integrity.rescan": "Check again",
+  "integrity.repair.reassign": "Move",
+  "integrity.repair.clearReference": "Remove link",
+  "integrity.repair.removeFromOrder": "Remove from order",
+  "integrity.repair.addToOrder": "Add to order",
+  "integrity.reassignRequired": "Choose where to move it.",
+  "integrity.cardMissingColumn": "Card {card} points to list {column}, which no longer exists.",
+  "integrity.cardWithoutColumn": "Card {card} doesn't belong to any list.",
+  "integrity.columnMissingPlace": "The list \"{title}\" points to place {place}, which no longer exists.",
+  "integrity.orderHasMissing": "The order {order} includes {id}, which no longer exists.",
+  "integrity.columnNotInOrder": "List \"{name}\" is missing from {order}.",
+  "integrity.placeNotInOrder": "Place \"{name}\" is missing from {order}.",
+  "integrity.cardOrderMissingColumn": "There is a card order for list {column}, which no longer exists.",
+  "integrity.cardOrderForeignCard": "The order of list \"{title}\" includes card {card}, which isn't in it.",
+
+  "migration.title": "Data schema version",
+  "migration.subtitle": "Dry run: nothing is written until you apply. Current app version: {version}.",
+  "migration.analyzing": "Analyzing the board…",
+  "migration.stored": "Version stored on the board:",
+  "migration.newer": "(newer than this app)",
+  "migration.upToDate": "The board is already up to date.",
+  "migration.noChanges": "No records change.",
+  "migration.changes": {
+    one: "{count} record changed",
+    other: "{count} records changed",
+  },
+  "migration.more": "… and {count} more",
+  "migration.applying": "Applying...",
+  "migration.apply": "Apply migrations",
+  "migration.v1": "Amounts in whole cents",
+  "migration.v2": "One format for lists, cards, places and orders",
+  "migration.v3": "Card kind (deposit, yield, withdrawal, fee or projection) instead of isProjection",
+
+  "statement.title": "Import statement",
+  "statement.subtitle": "An OFX or CSV file exported by your bank. Each entry becomes a balance card.",
+  "statement.column": "List",
+  "statement.hasHeader": "The first line is a header",
+  "statement.date": "Date",
+  "statement.amount": "Amount",
+  "statement.description": "Description",
+  "statement.none": "None",
+  "statement.dateFormat": "Date format",
+  "statement.dateFormat.dmy": "Day/month/year",
+  "statement.dateFormat.ymd": "Year-month-day",
+  "statement.dateFormat.mdy": "Month/day/year",
+  "statement.fileColumn": "Column {n}",
+  "statement.fileColumnSample": "Column {n} ({sample})",
+  "statement.status": "Status",
+  "statement.importLine": "Import line {line}",
+  "statement.duplicate": "Possible duplicate",
+  "statement.selected": {
+    one: "{selected} of {count} entry selected",
+    other: "{selected} of {count} entries selected",
+  },
+  "statement.problem.date": "Unreadable date",
+  "statement.problem.amount": "Unreadable amount",
+  "statement.problem.debit": "Debit or zero amount, not turned into a card",
+  "statement.error.emptyOfx": "No transactions found in the OFX file.",
+  "statement.error.unknownFormat": "The file doesn't look like an OFX or CSV statement.",
+
+  "money.error.notNumber": "\"{text}\" is not a valid number",
+  "money.error.empty": "Enter an amount",
+  "money.error.divisionByZero": "Division by zero",
+  "money.error.unclosed": "A parenthesis is not closed",
+  "money.error.incomplete": "The expression is incomplete",
+  "money.error.unexpected": "\"{token}\" is not allowed here",
+  "money.error.decimals": "At most 2 decimal places",
+  "money.error.tooLarge": "Amount too large",
+  "money.error.negative": "The amount can't be negative",
+};
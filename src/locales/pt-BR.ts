@@ -0,0 +1,539 @@
+// src/locales/pt-BR.ts
+
+// the reference catalog: every key is added here first and en.ts must carry the same ones.
+// {name} is filled in by t(); a { one, other } pair is picked by the count parameter
+export type Message = string | { one: string; other: string };
+
+export const ptBR = {
+  "common.cancel": "Cancelar",
+  "common.save": "Salvar",
+  "common.update": "Atualizar",
+  "common.close": "Fechar",
+  "common.edit": "Editar",
+  "common.delete": "Excluir",
+  "common.remove": "Remover",
+  "common.loading": "Carregando…",
+  "common.import": "Importar",
+  "file.unreadable": "Não foi possível ler o arquivo.",
+  "count.columns": {
+    one: "{count} lista",
+    other: "{count} listas",
+  },
+  "count.cards": {
+    one: "{count} cartão",
+    other: "{count} cartões",
+  },
+  "count.places": {
+    one: "{count} lugar",
+    other: "{count} lugares",
+  },
+
+  "app.language": "Idioma",
+  "app.loadingBoards": "Carregando quadros…",
+
+  "board.defaultColumn.todo": "A Fazer",
+  "board.defaultColumn.doing": "Fazendo",
+  "board.defaultColumn.done": "Feito",
+  "board.amountRequired": "Informe um valor maior que zero",
+  "board.transferAmountRequired": "Informe um valor maior que zero para transferir",
+  "board.transferFailed": "Erro ao transferir. A transferência foi guardada neste navegador e será enviada quando a conexão voltar.",
+  "board.offlineTitle": "Modo offline:",
+  "board.offlineSaved": "o Firebase não está acessível. Os dados ficam salvos neste navegador.",
+  "board.offlineQueued": {
+    one: "o Firebase não está acessível. Os dados ficam salvos neste navegador e {count} alteração aguarda sincronização.",
+    other: "o Firebase não está acessível. Os dados ficam salvos neste navegador e {count} alterações aguardam sincronização.",
+  },
+  "board.syncing": "Sincronizando...",
+  "board.syncNow": "Sincronizar agora",
+  "board.total": "Total: {amount}",
+  "board.undo": "Desfazer",
+  "board.undoHint": "Desfazer (Ctrl+Z)",
+  "board.redo": "Refazer",
+  "board.redoHint": "Refazer (Ctrl+Shift+Z)",
+  "board.undoStale": "Não é possível desfazer: os registros foram alterados depois.",
+  "board.redoStale": "Não é possível refazer: os registros foram alterados depois.",
+  "board.addColumn": "Adicionar investimento",
+
+  "dnd.columnPickedUp": "Lista {title} pega na posição {position} de {count}",
+  "dnd.cardPickedUp": "Cartão de {amount} pego na posição {position} de {count} na lista {column}",
+  "dnd.columnMovedOver": "Lista {title} movida sobre {over} na posição {position} de {count}",
+  "dnd.cardMovedToColumn": "Cartão de {amount} movido para a lista {column} na posição {position} de {count}",
+  "dnd.cardMovedOver": "Cartão movido para a posição {position} de {count} na lista {column}",
+  "dnd.columnDropped": "Lista {title} solta na posição {position} de {count}",
+  "dnd.cardDropped": "Cartão solto na posição {position} de {count} na lista {column}",
+  "dnd.columnCancelled": "Arraste da lista cancelado.",
+  "dnd.cardCancelled": "Arraste do cartão cancelado.",
+  "dnd.columnRole": "Lista: {title}",
+  "dnd.cardRole": "Cartão",
+
+  "places.manage": "Gerenciar lugares",
+  "places.none": "Nenhum lugar",
+  "places.subtitle": "Visualize, adicione, edite, exclua e reorganize os lugares.",
+  "places.list": "Lista de lugares",
+  "places.new": "Novo lugar",
+  "places.empty": "Nenhum lugar cadastrado.",
+  "places.goal": "Meta: {amount}",
+  "places.noGoal": "Sem meta",
+  "places.dateTime": "Data/hora: {date}",
+  "places.moveUp": "Mover para cima",
+  "places.moveDown": "Mover para baixo",
+  "places.editTitle": "Editar {name}",
+  "places.createTitle": "Criar novo lugar",
+  "places.name": "Nome",
+  "places.namePlaceholder": "Ex: Caixa, Reserva, Carteira...",
+  "places.color": "Cor",
+  "places.expected": "Valor esperado ({currency})",
+  "places.expectedPlaceholder": "Ex: 1500,00",
+  "places.dateTimeLabel": "Data e hora",
+  "places.nameRequired": "Informe um nome",
+  "places.expectedInvalid": "Valor esperado inválido",
+  "places.confirmDelete": "Excluir o lugar \"{name}\"? Ele vai para a lixeira.",
+
+  "currency.missingRates": "Sem cotação para {codes}",
+  "currency.title": "Moedas e cotações",
+  "currency.subtitle": "Os totais do quadro, das listas e dos lugares são convertidos para a moeda base.",
+  "currency.base": "Moeda base",
+  "currency.noRates": "Nenhuma cotação cadastrada.",
+  "currency.code": "Moeda",
+  "currency.rateIn": "Cotação em {code}",
+  "currency.addRate": "Adicionar cotação",
+  "currency.importCsv": "Importar de CSV (uma linha por moeda: código e valor em {code}, ex.: USD;5,20)",
+  "currency.invalidCode": "\"{code}\" não é um código de moeda (ex.: USD).",
+  "currency.invalidRate": "Informe uma cotação maior que zero para {code}.",
+  "currency.baseWithoutRate": "Cadastre a cotação de {code} antes de usá-la como moeda base.",
+  "currency.csvLineSkipped": "Linha {line} ignorada: \"{text}\"",
+
+  "sort.manual": "Manual",
+  "sort.dateDesc": "Mais recentes",
+  "sort.dateAsc": "Mais antigos",
+  "sort.amountDesc": "Maior valor",
+
+  "column.place": "Atribuir lugar à lista",
+  "column.noPlace": "Sem lugar",
+  "column.currency": "Moeda da lista",
+  "column.currencyHint": "Moeda dos novos cartões da lista",
+  "column.sort": "Ordenar cartões",
+  "column.remove": "Remover lista",
+  "column.confirmDelete": "Excluir a lista \"{title}\"? Ela vai para a lixeira junto com os cartões.",
+
+  "card.addTitle": "Adicionar cartão",
+  "card.editTitle": "Editar cartão",
+  "card.add": "Adicionar",
+  "card.amount": "Valor",
+  "card.amountPlaceholder": "Ex: 500 ou 500,00 ou 1.234,56",
+  "card.invalidAmount": "Valor inválido",
+  "card.dateTime": "Data e hora",
+  "card.type": "Tipo",
+  "card.description": "Descrição",
+  "card.descriptionPlaceholder": "Ex.: 13º salário",
+  "card.notes": "Notas",
+  "card.useOriginalDate": "Usar data original",
+  "card.useCurrentDate": "Usar data atual",
+  "card.toDeposit": "Confirmar como aporte",
+  "card.toDepositLabel": "Confirmar projeção {amount} como aporte",
+  "card.remove": "Remover cartão",
+  "card.removeLabel": "Remover cartão {amount}",
+  "card.move": "Mover cartão",
+  "card.confirmDelete": "Excluir o cartão \"{amount}\"? Ele vai para a lixeira.",
+
+  "kind.deposit": "Aporte",
+  "kind.yield": "Rendimento",
+  "kind.withdrawal": "Resgate",
+  "kind.fee": "Taxa",
+  "kind.projection": "Projeção",
+  "tag.label": "Etiquetas",
+  "tag.pickerPlaceholder": "Buscar ou criar etiqueta",
+  "tag.create": "Criar etiqueta \"{name}\"",
+  "tag.removeFromCard": "Tirar a etiqueta {name}",
+  "tag.manage": "Gerenciar etiquetas",
+  "tag.subtitle": "Etiquetas marcam a origem do dinheiro, como bônus ou dividendo. Os totais somam o saldo de todas as listas.",
+  "tag.empty": "Nenhuma etiqueta ainda.",
+  "tag.none": "Nenhuma etiqueta",
+  "tag.name": "Nome da etiqueta",
+  "tag.namePlaceholder": "Ex.: 13º salário",
+  "tag.color": "Cor da etiqueta",
+  "tag.add": "Adicionar",
+  "tag.exists": "Já existe uma etiqueta \"{name}\".",
+  "tag.confirmDelete": "Excluir a etiqueta \"{name}\"? Ela sai de todos os cartões.",
+  "tag.clearFilter": "Limpar filtro",
+  "filter.search": "Buscar cartões",
+  "filter.searchPlaceholder": "Buscar…",
+  "filter.open": "Filtros",
+  "filter.clear": "Limpar filtros",
+  "filter.minAmount": "Valor mínimo ({currency})",
+  "filter.maxAmount": "Valor máximo ({currency})",
+  "filter.from": "De",
+  "filter.to": "Até",
+  "filter.scope": "Cartões",
+  "filter.scope.all": "Todos",
+  "filter.scope.balance": "Só saldo",
+  "filter.scope.projection": "Só projeções",
+  "filter.place": "Lugar",
+  "filter.anyPlace": "Qualquer lugar",
+  "filter.hide": "Esconder os cartões que não batem",
+  "filter.amountHint": "Os valores são em {currency}, a moeda base; cada cartão é convertido pelas cotações de Moedas e cotações, e cartões numa moeda sem cotação ficam de fora.",
+  "filter.matched": "{count} de {total} cartões",
+  "filter.columnMatched": "Filtrado: {count} de {total}",
+  "schedule.open": "Recorrências",
+  "schedule.title": "Recorrências de \"{title}\"",
+  "schedule.subtitle": "Valores que entram sempre nas mesmas datas. Os cartões são criados quando a data chega; projeções são criadas com 12 meses de antecedência.",
+  "schedule.empty": "Nenhuma recorrência nesta lista.",
+  "schedule.newTitle": "Nova recorrência",
+  "schedule.editTitle": "Editar recorrência",
+  "schedule.add": "Adicionar",
+  "schedule.amount": "Valor",
+  "schedule.frequency": "Frequência",
+  "schedule.frequency.weekly": "Semanal",
+  "schedule.frequency.monthly": "Mensal",
+  "schedule.frequency.yearly": "Anual",
+  "schedule.start": "Primeira data",
+  "schedule.end": "Última data (opcional)",
+  "schedule.kind": "Tipo",
+  "schedule.description": "Descrição",
+  "schedule.descriptionPlaceholder": "ex.: Aporte do salário",
+  "schedule.balanceHint": "Datas desde a primeira que já passaram também ganham seus cartões.",
+  "schedule.projectionHint": "As projeções dos próximos 12 meses são criadas agora e completadas a cada vez que o quadro é aberto.",
+  "schedule.since": "Desde {start}",
+  "schedule.range": "De {start} a {end}",
+  "schedule.next": "Próxima: {date}",
+  "schedule.ended": "Encerrada",
+  "schedule.paused": "Pausada",
+  "schedule.pause": "Pausar",
+  "schedule.resume": "Retomar",
+  "schedule.confirmDelete": "Excluir esta recorrência? Os cartões que ela já criou continuam no quadro.",
+  "schedule.amountRequired": "Informe um valor maior que zero.",
+  "schedule.startRequired": "Escolha a primeira data.",
+  "schedule.endBeforeStart": "A última data deve ser igual ou posterior à primeira.",
+
+  "goal.set": "Definir meta",
+  "goal.edit": "Editar meta",
+  "goal.amount": "Valor da meta",
+  "goal.placeholder": "Ex: 600 ou 600,00 ou 1.000,00",
+  "goal.clearHint": "Deixe vazio para remover a meta.",
+
+  "delete.title": "Confirmar exclusão",
+  "delete.confirm": "Confirmar",
+
+  "projection.create": "Criar projeção",
+  "projection.total": "Valor total da projeção",
+  "projection.totalPlaceholder": "Ex: 2000,00",
+  "projection.useExisting": "Usar valor já existente no investimento",
+  "projection.currentBalance": "Saldo atual da lista: {amount}",
+  "projection.end": "Data limite",
+  "projection.monthPlaceholder": "MM",
+  "projection.yearPlaceholder": "AAAA",
+  "projection.customStart": "Escolher mês inicial (opcional)",
+  "projection.day": "Dia do mês para as parcelas",
+  "projection.preview": "Pré-visualização das parcelas",
+  "projection.alreadyReached": "O saldo atual já atingiu ou ultrapassou o valor informado.",
+  "projection.installments": "Total de parcelas: {count}",
+  "projection.times": "{count}x de {amount}",
+  "projection.round": "Arredondar",
+  "projection.balanceExceeds": "O saldo atual já ultrapassa o valor total informado.",
+  "projection.balanceCovers": "O saldo atual já cobre ou ultrapassa o valor total informado.",
+  "projection.endRequired": "Escolha a data limite corretamente",
+  "projection.endBeforeStart": "O mês limite deve ser igual ou posterior ao mês inicial.",
+
+  "transfer.title": "Transferir valor",
+  "transfer.currentColumn": "Lista atual:",
+  "transfer.available": "Valor disponível:",
+  "transfer.target": "Lista de destino",
+  "transfer.otherCurrency": "A lista de destino usa {target}; o novo cartão continua em {currency}.",
+  "transfer.amount": "Valor a transferir",
+  "transfer.overAvailable": "Valor maior do que o disponível",
+  "transfer.confirm": "Transferir",
+  "transfer.error.invalidAmount": "Informe um valor maior que zero para transferir.",
+  "transfer.error.sourceMissing": "O cartão de origem não existe mais.",
+  "transfer.error.sourceChanged": "O cartão de origem foi alterado em outro lugar. Confira o saldo e tente novamente.",
+  "transfer.error.insufficientFunds": "O valor é maior do que o disponível no cartão.",
+  "transfer.error.retry": "A transferência não pôde ser concluída. Tente novamente.",
+  "transfer.error.incomplete": "O valor saiu do cartão, mas o novo cartão não pôde ser salvo. Confira as duas listas antes de tentar de novo.",
+
+  "activity.op.addColumn": "Lista criada",
+  "activity.op.editColumn": "Lista editada",
+  "activity.op.removeColumn": "Lista excluída",
+  "activity.op.updateColumnsOrder": "Listas reordenadas",
+  "activity.op.updateTasksOrder": "Cartões reordenados",
+  "activity.op.addTask": "Cartão criado",
+  "activity.op.addTasks": "Cartões criados",
+  "activity.op.editTask": "Cartão editado",
+  "activity.op.moveTask": "Cartão movido",
+  "activity.op.removeTask": "Cartão excluído",
+  "activity.op.transferTask": "Transferência",
+  "activity.op.addPlace": "Lugar criado",
+  "activity.op.editPlace": "Lugar editado",
+  "activity.op.removePlace": "Lugar excluído",
+  "activity.op.reorderPlaces": "Lugares reordenados",
+  "activity.op.upsertPlaces": "Lugares salvos",
+  "activity.op.addTag": "Etiqueta criada",
+  "activity.op.editTag": "Etiqueta editada",
+  "activity.op.removeTag": "Etiqueta excluída",
+  "activity.op.addSchedule": "Recorrência criada",
+  "activity.op.editSchedule": "Recorrência editada",
+  "activity.op.removeSchedule": "Recorrência excluída",
+  "activity.op.runSchedules": "Lançamentos recorrentes adicionados",
+  "activity.op.restoreFromTrash": "Restaurado da lixeira",
+  "activity.op.purgeTrash": "Lixeira esvaziada",
+  "activity.op.editSettings": "Configurações alteradas",
+  "activity.op.editCurrency": "Moedas e cotações alteradas",
+  "activity.op.importBackup": "Backup importado",
+  "activity.op.repair": "Inconsistência corrigida",
+  "activity.op.undo": "Desfeito",
+  "activity.op.redo": "Refeito",
+
+  "data.menu": "Dados do quadro",
+  "data.activity": "Histórico de movimentações…",
+  "data.trash": "Lixeira…",
+  "data.currency": "Moedas e cotações…",
+  "data.integrity": "Verificar integridade…",
+  "data.migrations": "Versão do esquema de dados…",
+  "data.exportBackup": "Exportar backup (JSON)",
+  "data.importBackup": "Importar backup…",
+  "data.exportCsv": "Exportar cartões (CSV)…",
+  "data.importStatement": "Importar extrato bancário…",
+
+  "activity.title": "Histórico de movimentações",
+  "activity.subtitle": "Cada alteração do quadro, com o valor antes e depois.",
+  "activity.allColumns": "Todas as listas",
+  "activity.allPlaces": "Todos os lugares",
+  "activity.from": "De",
+  "activity.to": "Até",
+  "activity.empty": "Nenhuma movimentação encontrada.",
+  "activity.more": "… e mais {count}. Use os filtros para ver movimentações mais antigas.",
+  "activity.unknownActor": "desconhecido",
+  "activity.change.cardAdded": "{where}: novo cartão de {amount}",
+  "activity.change.cardRemoved": "{where}: cartão de {amount} removido",
+  "activity.change.column": "Lista \"{title}\"",
+  "activity.change.place": "Lugar \"{name}\"",
+  "activity.change.cardOrder": "Ordem dos cartões de \"{title}\"",
+  "activity.change.trashed": "Enviado para a lixeira",
+  "activity.change.untrashed": "Retirado da lixeira",
+  "activity.change.settings": "Configurações do quadro",
+  "activity.change.currency": "Moedas e cotações",
+  "activity.change.order": "Ordem {path}",
+
+  "connection.online": "Online",
+  "connection.offline": "Offline",
+  "persist.failed": "Erro ao salvar a alteração.",
+  "persist.queued": "Erro ao acessar o Firebase. A alteração foi guardada neste navegador e será enviada quando a conexão voltar.",
+  "connection.syncing": "Sincronizando",
+  "connection.error": "Erro",
+  "connection.pending": {
+    one: "{count} envio aguardando o servidor",
+    other: "{count} envios aguardando o servidor",
+  },
+  "connection.queued": {
+    one: "{count} alteração na fila offline",
+    other: "{count} alterações na fila offline",
+  },
+  "connection.allSent": "Todas as alterações chegaram ao servidor",
+
+  "auth.signIn": "Entrar",
+  "auth.signUp": "Criar conta",
+  "auth.subtitle": "Seus quadros ficam guardados na sua conta.",
+  "auth.email": "E-mail",
+  "auth.password": "Senha",
+  "auth.toSignUp": "Criar uma conta",
+  "auth.toSignIn": "Já tenho conta",
+  "auth.guestSignIn": "Entrar como convidado",
+  "auth.guest": "Convidado",
+  "auth.signOut": "Sair",
+  "auth.signOutQueued": {
+    one: "{count} alteração ainda não sincronizada ficará guardada neste navegador até você entrar de novo.",
+    other: "{count} alterações ainda não sincronizadas ficarão guardadas neste navegador até você entrar de novo.",
+  },
+  "auth.signOutGuest": "Sessões de convidado não podem ser recuperadas depois de sair: estes dados ficarão inacessíveis.",
+  "auth.signOutConfirm": "Sair mesmo assim?",
+  "auth.error.invalidEmail": "E-mail inválido.",
+  "auth.error.missingPassword": "Informe a senha.",
+  "auth.error.weakPassword": "A senha precisa ter pelo menos 6 caracteres.",
+  "auth.error.emailInUse": "Já existe uma conta com este e-mail.",
+  "auth.error.wrongCredentials": "E-mail ou senha incorretos.",
+  "auth.error.tooManyRequests": "Muitas tentativas. Aguarde um pouco e tente novamente.",
+  "auth.error.network": "Sem conexão com o servidor de autenticação.",
+  "auth.error.notAllowed": "Este método de login não está habilitado no projeto Firebase.",
+
+  "boards.defaultName": "Meu quadro",
+  "boards.legacyName": "Quadro anterior",
+  "boards.active": "Quadro ativo",
+  "boards.unnamed": "Sem nome",
+  "boards.actions": "Ações do quadro",
+  "boards.new": "Novo quadro",
+  "boards.newPrompt": "Nome do novo quadro:",
+  "boards.rename": "Renomear",
+  "boards.renamePrompt": "Novo nome do quadro:",
+  "boards.duplicate": "Duplicar",
+  "boards.duplicatePrompt": "Nome da cópia:",
+  "boards.copyName": "{name} (cópia)",
+  "boards.confirmDelete": "Excluir o quadro \"{name}\" com todas as listas e cartões?",
+  "boards.nameRequired": "Informe um nome para o quadro.",
+  "boards.deleteLast": "Não é possível excluir o único quadro.",
+  "boards.createFailed": "Erro ao criar o quadro.",
+  "boards.renameFailed": "Erro ao renomear o quadro.",
+  "boards.duplicateFailed": "Erro ao duplicar o quadro.",
+  "boards.deleteFailed": "Erro ao excluir o quadro.",
+
+  "sync.title": "Conflito de sincronização",
+  "sync.description": "Uma alteração feita offline em {date} toca dados que mudaram no servidor. Escolha qual versão manter.",
+  "sync.othersQueued": {
+    one: "Outra alteração aguarda na fila.",
+    other: "Outras {count} alterações aguardam na fila.",
+  },
+  "sync.yours": "Sua versão",
+  "sync.server": "Versão do servidor",
+  "sync.keepServer": "Manter versão do servidor",
+  "sync.keepLocal": "Manter minha versão",
+  "sync.removed": "(removido)",
+
+  "trash.title": "Lixeira",
+  "trash.subtitle": "Listas, cartões e lugares excluídos podem ser restaurados por aqui.",
+  "trash.retentionBefore": "Excluir definitivamente depois de",
+  "trash.retentionAfter": "dias",
+  "trash.retentionInvalid": "Informe um número inteiro de dias maior que zero.",
+  "trash.empty": "A lixeira está vazia.",
+  "trash.column": "Lista \"{title}\" com {cards}",
+  "trash.place": "Lugar \"{name}\"",
+  "trash.card": "Cartão de {amount}",
+  "trash.deletedAt": "Excluído em {date}",
+  "trash.restore": "Restaurar",
+  "trash.confirmPurge": "Excluir definitivamente: {item}?",
+  "trash.confirmEmpty": "Esvaziar a lixeira? Os itens não poderão ser restaurados.",
+  "trash.emptyAll": "Esvaziar lixeira",
+  "trash.error.missing": "Este item não está mais na lixeira.",
+  "trash.error.columnMissing": "A lista deste cartão não existe mais. Restaure a lista antes do cartão.",
+
+  "backup.title": "Importar backup",
+  "backup.subtitle": "Arquivo JSON gerado por “Exportar backup”.",
+  "backup.board": "Quadro \"{name}\"",
+  "backup.unnamed": "Backup",
+  "backup.summary": "{source}: {columns}, {cards}, {places}.",
+  "backup.summaryDated": "{source}, exportado em {date}: {columns}, {cards}, {places}.",
+  "backup.warnings": "Alguns registros foram ajustados ou ignorados:",
+  "backup.moreWarnings": "… e mais {count}.",
+  "backup.merge": "Mesclar com o quadro atual",
+  "backup.replace": "Substituir o quadro atual",
+  "backup.confirmReplace": "Substituir todas as listas, cartões e lugares do quadro pelo conteúdo do backup?",
+  "backup.conflicts": {
+    one: "{count} registro do backup já existe no quadro ({columns}, {cards}, {places}). Para ele:",
+    other: "{count} registros do backup já existem no quadro ({columns}, {cards}, {places}). Para esses:",
+  },
+  "backup.policy.keepBoth": "Manter os dois (o importado recebe um novo id)",
+  "backup.policy.keepCurrent": "Manter o do quadro",
+  "backup.policy.useImported": "Usar o do backup",
+  "backup.error.json": "O arquivo não é um JSON válido.",
+  "backup.error.format": "O arquivo não é um backup deste aplicativo.",
+  "backup.error.newer": "O backup foi gerado por uma versão mais nova do aplicativo. Atualize a página e tente novamente.",
+  "backup.warning.collection": "\"{label}\" não é uma coleção válida e foi ignorado.",
+  "backup.warning.record": "Registro {path} ignorado: não é um objeto.",
+  "backup.warning.amount": "Cartão {card} ignorado: valor inválido.",
+  "backup.warning.column": "Cartão {card} ignorado: a lista {column} não está no backup.",
+  "backup.warning.place": "A lista \"{title}\" apontava para um lugar que não está no backup; o vínculo foi removido.",
+  "backup.warning.scheduleColumn": "Recorrência {schedule} ignorada: a lista {column} não está no backup.",
+
+  "csv.title": "Exportar cartões (CSV)",
+  "csv.subtitle": "Uma linha por cartão, com lista, lugar, valor, moeda, data e tipo.",
+  "csv.delimiter": "Separador de colunas",
+  "csv.semicolon": "Ponto e vírgula (Excel pt-BR)",
+  "csv.comma": "Vírgula",
+  "csv.decimal": "Separador decimal",
+  "csv.decimalComma": "Vírgula (1234,56)",
+  "csv.decimalDot": "Ponto (1234.56)",
+  "csv.column": "Lista",
+  "csv.allColumns": "Todas",
+  "csv.place": "Lugar",
+  "csv.allPlaces": "Todos",
+  "csv.text": "Descrição ou notas contendo",
+  "csv.textPlaceholder": "Ex.: 13º salário",
+  "csv.count": {
+    one: "{count} cartão será exportado.",
+    other: "{count} cartões serão exportados.",
+  },
+  "csv.export": "Exportar",
+  "csv.header.column": "Lista",
+  "csv.header.place": "Lugar",
+  "csv.header.amount": "Valor",
+  "csv.header.currency": "Moeda",
+  "csv.header.dateIso": "Data (ISO)",
+  "csv.header.dateLocal": "Data (local)",
+  "csv.header.type": "Tipo",
+  "csv.header.description": "Descrição",
+  "csv.header.notes": "Notas",
+  "csv.header.tags": "Etiquetas",
+
+  "integrity.title": "Integridade dos dados",
+  "integrity.subtitle": "Referências quebradas e registros órfãos encontrados no quadro.",
+  "integrity.scanning": "Verificando…",
+  "integrity.clean": "Nenhum problema encontrado.",
+  "integrity.rescan": "Verificar de novo",
+  "integrity.repair.reassign": "Mover",
+  "integrity.repair.clearReference": "Remover vínculo",
+  "integrity.repair.removeFromOrder": "Tirar da ordem",
+  "integrity.repair.addToOrder": "Adicionar à ordem",
+  "integrity.reassignRequired": "Escolha para onde mover.",
+  "integrity.cardMissingColumn": "Cartão {card} aponta para a lista {column}, que não existe mais.",
+  "integrity.cardWithoutColumn": "Cartão {card} não pertence a nenhuma lista.",
+  "integrity.columnMissingPlace": "A lista \"{title}\" aponta para o lugar {place}, que não existe mais.",
+  "integrity.orderHasMissing": "A ordem {order} inclui {id}, que não existe mais.",
+  "integrity.columnNotInOrder": "Lista \"{name}\" não aparece em {order}.",
+  "integrity.placeNotInOrder": "Lugar \"{name}\" não aparece em {order}.",
+  "integrity.cardOrderMissingColumn": "Existe uma ordem de cartões para a lista {column}, que não existe mais.",
+  "integrity.cardOrderForeignCard": "A ordem da lista \"{title}\" inclui o cartão {card}, que não está nela.",
+
+  "migration.title": "Versão do esquema de dados",
+  "migration.subtitle": "Simulação: nada é gravado até você aplicar. Versão atual do app: {version}.",
+  "migration.analyzing": "Analisando o quadro…",
+  "migration.stored": "Versão gravada no quadro:",
+  "migration.newer": "(mais nova que este app)",
+  "migration.upToDate": "O quadro já está atualizado.",
+  "migration.noChanges": "Nenhum registro muda.",
+  "migration.changes": {
+    one: "{count} registro alterado",
+    other: "{count} registros alterados",
+  },
+  "migration.more": "… e mais {count}",
+  "migration.applying": "Aplicando...",
+  "migration.apply": "Aplicar migrações",
+  "migration.v1": "Valores em centavos inteiros",
+  "migration.v2": "Formato único para listas, cartões, lugares e ordens",
+  "migration.v3": "Tipo do cartão (aporte, rendimento, resgate, taxa ou projeção) no lugar de isProjection",
+
+  "statement.title": "Importar extrato",
+  "statement.subtitle": "Arquivo OFX ou CSV exportado pelo banco. Cada entrada vira um cartão de saldo.",
+  "statement.column": "Lista",
+  "statement.hasHeader": "A primeira linha é o cabeçalho",
+  "statement.date": "Data",
+  "statement.amount": "Valor",
+  "statement.description": "Descrição",
+  "statement.none": "Nenhuma",
+  "statement.dateFormat": "Formato da data",
+  "statement.dateFormat.dmy": "Dia/mês/ano",
+  "statement.dateFormat.ymd": "Ano-mês-dia",
+  "statement.dateFormat.mdy": "Mês/dia/ano",
+  "statement.fileColumn": "Coluna {n}",
+  "statement.fileColumnSample": "Coluna {n} ({sample})",
+  "statement.status": "Situação",
+  "statement.importLine": "Importar linha {line}",
+  "statement.duplicate": "Possível duplicado",
+  "statement.selected": {
+    one: "{selected} de {count} entrada selecionada",
+    other: "{selected} de {count} entradas selecionadas",
+  },
+  "statement.problem.date": "Data ilegível",
+  "statement.problem.amount": "Valor ilegível",
+  "statement.problem.debit": "Saída ou valor zero, não vira cartão",
+  "statement.error.emptyOfx": "Nenhuma transação encontrada no arquivo OFX.",
+  "statement.error.unknownFormat": "O arquivo não parece ser um extrato OFX ou CSV.",
+
+  "money.error.notNumber": "\"{text}\" não é um número válido",
+  "money.error.empty": "Informe um valor",
+  "money.error.divisionByZero": "Divisão por zero",
+  "money.error.unclosed": "Falta fechar um parêntese",
+  "money.error.incomplete": "A expressão está incompleta",
+  "money.error.unexpected": "\"{token}\" não é permitido aqui",
+  "money.error.decimals": "Apenas até 2 casas decimais",
+  "money.error.tooLarge": "Valor grande demais",
+  "money.error.negative": "O valor não pode ser negativo",
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof ptBR;
+export type Messages = Record<MessageKey, Message>;